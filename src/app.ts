@@ -0,0 +1,2509 @@
+import { randomBytes } from 'crypto';
+import express from 'express';
+import path from 'path';
+import Stripe from 'stripe';
+import { z } from 'zod';
+import {
+  acknowledgementFor,
+  alertProviderNames,
+  alertProviders,
+  alertProviderSecret,
+  getAlertProvider,
+  listAlertProviders,
+  matchAlertCharge,
+  removeAlertProvider,
+  saveAlertProvider,
+  toPublicAlertProvider,
+  type AlertProviderResult,
+  type InboundAlert,
+} from './lib/alert-providers';
+import { deflectionTotals, listDeflectionCharges, reconcileAlerts, type ReconcileSummary } from './lib/alert-outcomes';
+import { bucketCount, defaultFrom, disputeTimeseries, MAX_BUCKETS } from './lib/analytics';
+import { approvalBlocker, approvalState } from './lib/approvals';
+import {
+  attachmentContentTypes,
+  attachmentKinds,
+  evidenceFilesFor,
+  getAttachment,
+  listAttachments,
+  MAX_EVIDENCE_BYTES,
+  removeAttachment,
+  uploadAttachment,
+} from './lib/attachments';
+import { listAudit, recordAudit } from './lib/audit';
+import {
+  actorOf,
+  authenticate,
+  canAccessMerchant,
+  createApiKey,
+  listApiKeys,
+  requireRole,
+  revokeApiKey,
+  scopeMerchant,
+} from './lib/auth';
+import { assessCe3 } from './lib/ce3';
+import { convertAmount, majorValue, reportingCurrencyOf } from './lib/currency';
+import { diffLines } from './lib/diff';
+import {
+  acceptsEvidence,
+  disputeLifecycle,
+  fundsImpact,
+  isDisputeClosed,
+  lifecycleReport,
+  timeInStage,
+} from './lib/dispute-lifecycle';
+import { efwFraudTypes, ingestEarlyFraudWarning, listEarlyFraudWarnings } from './lib/early-fraud-warnings';
+import { applyNarrative, buildEvidencePackage, generateEvidenceDraft, narrativeFieldFor } from './lib/evidence';
+import {
+  closeBillingPeriod,
+  draftInvoice,
+  getInvoice,
+  invoiceCsv,
+  invoicePdf,
+  listInvoices,
+  transitionInvoice,
+} from './lib/invoices';
+import { cancelJob, claimJob, getJob, listJobs, registerJobHandler, runJob, scheduleJob } from './lib/jobs';
+import {
+  latestNetworkRatios,
+  listRatioAlerts,
+  monitorNetworkRatios,
+  monthKey,
+  networkPrograms,
+  previousMonth,
+  storedTransactionVolume,
+} from './lib/network-ratios';
+import {
+  attemptDelivery,
+  configureNotifications,
+  createChannel,
+  disputeEventData,
+  getChannel,
+  getDelivery,
+  listChannels,
+  listDeliveries,
+  notificationEvents,
+  notify,
+  queueNotification,
+  ratioAlertEventData,
+  removeChannel,
+  retryDueDeliveries,
+  sendTestNotification,
+  toPublicChannel,
+  updateChannel,
+} from './lib/notifications';
+import { listRefunds, refundBudget, refundWithPolicy, type RefundDecision } from './lib/refund-policy';
+import { MISSING_REQUIRED_PENALTY, resolveScoringProfile, scoreFields, scoringProfiles } from './lib/scoring';
+import { configureStore } from './lib/storage';
+import {
+  classifyStripeError,
+  configureStripeClients,
+  createStripeClient,
+  isPermanentStripeError,
+  stripeAccountHealth,
+} from './lib/stripe-client';
+import {
+  buildTemplateContext,
+  checkTemplate,
+  profileTemplateFields,
+  renderEvidenceProfile,
+  renderTemplate,
+  templateVariables,
+} from './lib/templates';
+import {
+  beginWebhookReplay,
+  claimWebhookEvent,
+  getWebhookEvent,
+  listWebhookEvents,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+} from './lib/webhook-events';
+import {
+  addSubmissionAttempt,
+  defaultMerchantSettings,
+  findMerchantById,
+  findMerchantByStripeAccountId,
+  getDispute,
+  getMetrics,
+  listAlerts,
+  listDisputes,
+  listInquiries,
+  listMerchants,
+  markDeflected,
+  markSubmitted,
+  updateMerchantEvidenceProfile,
+  updateMerchantSettings,
+  upsertAlert,
+  upsertDispute,
+  upsertInquiry,
+  upsertMerchant,
+  defaultEvidenceProfile,
+  updateDisputeWorkflow,
+  findAlertByExternal,
+  toPublicMerchant,
+  getMerchantAccessToken,
+  disconnectMerchant,
+  withEvidenceVersion,
+  currentEvidence,
+  editDisputeEvidence,
+  addApprovalEvent,
+  saveEvidenceDraft,
+  type MerchantRecord,
+} from './lib/store';
+import type {
+  AlertProviderConfigRecord,
+  AlertProviderName,
+  AlertRecord,
+  AttachmentKind,
+  DisputeRecord,
+  EvidenceProfile,
+  InquiryRecord,
+  MerchantSettings,
+  NotificationEvent,
+  RatioAlertRecord,
+  SavedEvidenceDraft,
+  ScoreField,
+} from './lib/types';
+
+export const env = z
+  .object({
+    PORT: z.string().default('3000'),
+    APP_BASE_URL: z.string().default('http://localhost:3000'),
+    STRIPE_SECRET_KEY: z.string().min(1),
+    STRIPE_WEBHOOK_SECRET: z.string().min(1),
+    STRIPE_CLIENT_ID: z.string().optional(),
+    AUTO_RETRY_ENABLED: z.string().optional(),
+    AUTO_RETRY_INTERVAL_MS: z.string().default('60000'),
+    RATIO_MONITOR_ENABLED: z.string().optional(),
+    RATIO_MONITOR_INTERVAL_MS: z.string().default('3600000'),
+    NOTIFICATION_SWEEP_ENABLED: z.string().optional(),
+    NOTIFICATION_SWEEP_INTERVAL_MS: z.string().default('300000'),
+    NOTIFICATION_ALLOW_PRIVATE_URLS: z.string().optional(),
+    ALERT_RECONCILE_ENABLED: z.string().optional(),
+    ALERT_RECONCILE_INTERVAL_MS: z.string().default('3600000'),
+    INVOICING_ENABLED: z.string().optional(),
+    INVOICE_CLOSE_INTERVAL_MS: z.string().default('3600000'),
+    JOB_WORKER_ENABLED: z.string().default('true'),
+    JOB_POLL_INTERVAL_MS: z.string().default('5000'),
+    STRIPE_RATE_LIMIT_PER_SECOND: z.string().default('25'),
+    STRIPE_MAX_RETRIES: z.string().default('3'),
+    STORE_BACKEND: z.enum(['json', 'sqlite']).default('json'),
+    ADMIN_API_KEY: z.string().min(24).optional(),
+    TOKEN_ENCRYPTION_KEY: z.string().min(1),
+  })
+  .parse(process.env);
+
+configureStripeClients({
+  ratePerSecond: Number(env.STRIPE_RATE_LIMIT_PER_SECOND),
+  maxRetries: Number(env.STRIPE_MAX_RETRIES),
+});
+configureStore(env.STORE_BACKEND);
+configureNotifications({ allowPrivateUrls: env.NOTIFICATION_ALLOW_PRIVATE_URLS === 'true' });
+
+function platformStripe() {
+  return createStripeClient(env.STRIPE_SECRET_KEY, 'platform');
+}
+
+// Connected-account client, or the platform client when no merchant is linked. Returns
+// undefined for merchants that revoked access so nothing calls Stripe with a dead token.
+function stripeFor(merchant?: MerchantRecord) {
+  if (!merchant) return platformStripe();
+  const token = getMerchantAccessToken(merchant);
+  return token ? createStripeClient(token, merchant.stripeAccountId) : undefined;
+}
+
+export const app = express();
+app.use(express.static(path.join(process.cwd(), 'public')));
+// Stripe signs the exact bytes it sent, so webhook routes must get the raw body. Registering the
+// raw parser first marks the body as read and the JSON parser below leaves it alone.
+app.use('/webhooks', express.raw({ type: 'application/json' }));
+app.use(express.json());
+app.use(authenticate);
+
+// Reads ?merchantId= and pins merchant-scoped keys to their own merchant.
+function requestedMerchant(req: express.Request) {
+  return scopeMerchant(req, typeof req.query.merchantId === 'string' ? req.query.merchantId : undefined);
+}
+
+// Disputes belonging to another merchant are reported as missing rather than forbidden.
+function getDisputeFor(req: express.Request, id: string) {
+  const dispute = getDispute(id);
+  return dispute && canAccessMerchant(req, dispute.merchantId) ? dispute : undefined;
+}
+
+app.get('/health', (_req, res) => {
+  res.json({ ok: true, service: 'stripe-dispute-autopilot', ts: new Date().toISOString() });
+});
+
+app.get('/api/version', (_req, res) => {
+  res.json({
+    service: 'stripe-dispute-autopilot',
+    deployedAt: new Date().toISOString(),
+    features: [
+      'merchant-connect',
+      'reason-scoring',
+      'auto-submit-rules',
+      'coaching-evidence-profiles',
+      'retry-sweep',
+      'job-scheduler',
+      'stripe-client-guards',
+      'recommendations',
+      'evidence-draft-generator',
+      'evidence-file-uploads',
+      'merchant-templates',
+      'network-ratio-monitoring',
+      'notifications',
+      'descriptor-receipt-clarity',
+      'alert-provider-webhooks',
+      'alert-reconciliation',
+      'success-fee-invoicing',
+      'early-fraud-warnings',
+      'dispute-lifecycle',
+    ],
+  });
+});
+
+app.get('/api/merchants', requireRole('viewer'), (req, res) => {
+  const merchants = listMerchants().filter((m) => canAccessMerchant(req, m.id));
+  res.json({ merchants: merchants.map(toPublicMerchant) });
+});
+
+const scoreField = z.enum(scoreFields as [ScoreField, ...ScoreField[]]);
+const scoringOverridesSchema = z.record(
+  z.string(),
+  z
+    .object({
+      weights: z.record(scoreField, z.number().int().min(0).max(100)).optional(),
+      required: z.array(z.union([scoreField, z.array(scoreField).min(1)])).optional(),
+    })
+    .strict(),
+);
+
+const currencyCode = z
+  .string()
+  .regex(/^[a-zA-Z]{3}$/)
+  .transform((c) => c.toLowerCase());
+const reportingSchema = z
+  .object({
+    reportingCurrency: currencyCode,
+    exchangeRates: z.record(currencyCode, z.number().positive()),
+  })
+  .partial();
+const refundLimit = z.number().int().min(0);
+const refundPolicySchema = z
+  .object({
+    maxRefundAmount: refundLimit,
+    dailyRefundBudget: refundLimit,
+    monthlyRefundBudget: refundLimit,
+    refundDryRun: z.boolean(),
+  })
+  .partial();
+const efwPolicySchema = z
+  .object({
+    efwAutoRefundEnabled: z.boolean(),
+    efwRefundMaxAmount: refundLimit,
+    efwRefundFraudTypes: z.array(z.enum(efwFraudTypes as [string, ...string[]])),
+    efwFightCe3Eligible: z.boolean(),
+  })
+  .partial();
+
+const optionalText = (schema: z.ZodString) => z.union([z.literal(''), schema]);
+const settingsSchema = z
+  .object({
+    autoSubmitEnabled: z.boolean(),
+    autoSubmitReasons: z.array(z.string().min(1).max(100)).max(50),
+    minEvidenceScore: z.number().int().min(0).max(100),
+    manualReviewAmountThreshold: z.number().int().min(0),
+    monthlyDisputeAlertThresholdPct: z.number().min(0).max(100),
+    monthlyTransactionCount: z.number().int().min(0),
+    submissionDelayMinutes: z.number().int().min(0),
+    statementDescriptor: z.string().max(100),
+    supportEmail: optionalText(z.string().email()),
+    supportPhone: z.string().max(40),
+    supportUrl: optionalText(z.string().url()),
+    recoveryFeePct: z.number().min(0).max(100),
+    alertDeflectionFeeCents: z.number().int().min(0),
+    roiGuaranteeMultiplier: z.number().min(0),
+    alertsAutoRefundEnabled: z.boolean(),
+    inquiryAutomationEnabled: z.boolean(),
+    approvalRequired: z.boolean(),
+    dualApprovalAmountThreshold: z.number().int().min(0),
+    scoringOverrides: scoringOverridesSchema,
+  })
+  .partial()
+  .merge(reportingSchema)
+  .merge(refundPolicySchema)
+  .merge(efwPolicySchema)
+  .strict();
+// What the platform charges the merchant; merchant-scoped keys can't change these.
+const billingSettings = ['recoveryFeePct', 'alertDeflectionFeeCents', 'roiGuaranteeMultiplier'];
+// Error codes for settings groups that clients tell apart; anything else is `invalid_settings`.
+const settingsErrors: Record<string, string> = {
+  scoringOverrides: 'invalid_scoring_overrides',
+  ...Object.fromEntries(Object.keys(reportingSchema.shape).map((key) => [key, 'invalid_reporting_currency'])),
+  ...Object.fromEntries(Object.keys(refundPolicySchema.shape).map((key) => [key, 'invalid_refund_policy'])),
+  ...Object.fromEntries(Object.keys(efwPolicySchema.shape).map((key) => [key, 'invalid_efw_policy'])),
+};
+
+app.patch('/api/merchants/:merchantId/settings', requireRole('admin'), (req, res) => {
+  if (!canAccessMerchant(req, req.params.merchantId)) return res.status(404).json({ error: 'merchant_not_found' });
+  const patch = settingsSchema.safeParse(req.body || {});
+  if (!patch.success) {
+    const field = patch.error.issues[0]?.path[0];
+    const error = (typeof field === 'string' && settingsErrors[field]) || 'invalid_settings';
+    return res.status(400).json({ error, details: patch.error.flatten() });
+  }
+  if (req.principal?.merchantId && billingSettings.some((key) => key in patch.data)) {
+    return res.status(403).json({ error: 'platform_key_required' });
+  }
+  const updated = updateMerchantSettings(req.params.merchantId, patch.data, actorOf(req));
+  if (!updated) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ merchant: toPublicMerchant(updated) });
+});
+
+// Effective scoring profiles (built-in weights with the merchant's overrides applied).
+app.get('/api/merchants/:merchantId/scoring-profiles', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const overrides = merchant.settings.scoringOverrides;
+  const reasons = [...new Set([...Object.keys(scoringProfiles), ...Object.keys(overrides || {})])];
+  return res.json({
+    missingRequiredPenalty: MISSING_REQUIRED_PENALTY,
+    profiles: Object.fromEntries(reasons.map((reason) => [reason, resolveScoringProfile(reason, overrides)])),
+  });
+});
+
+const inquiryPlatforms = ['paypal', 'klarna', 'afterpay', 'ebay', 'other'] as const;
+const templateText = z.string().max(5000);
+const profileUrl = optionalText(
+  z
+    .string()
+    .url()
+    .max(2000)
+    .regex(/^https?:\/\//i, 'must be an http(s) URL'),
+);
+const evidenceProfileSchema = z
+  .object({
+    businessType: z.enum(['info_coaching', 'generic']),
+    productDescriptionTemplate: templateText,
+    termsUrl: profileUrl,
+    refundPolicyUrl: profileUrl,
+    cancellationPolicyUrl: profileUrl,
+    onboardingProofTemplate: templateText,
+    deliveryProofTemplate: templateText,
+    supportPolicyTemplate: templateText,
+    reasonTemplates: z.record(z.string(), templateText),
+    inquiryTemplates: z.record(z.enum([...inquiryPlatforms, 'default']), templateText),
+  })
+  .partial()
+  .strict();
+
+// Syntax errors and unknown-variable warnings for every template in a profile patch, keyed by field.
+function profileTemplateIssues(patch: Partial<EvidenceProfile>) {
+  const templates: Record<string, string> = {};
+  for (const field of profileTemplateFields) {
+    if (patch[field] !== undefined) templates[field] = patch[field];
+  }
+  for (const [key, text] of Object.entries(patch.reasonTemplates || {})) templates[`reasonTemplates.${key}`] = text;
+  for (const [key, text] of Object.entries(patch.inquiryTemplates || {})) {
+    if (text) templates[`inquiryTemplates.${key}`] = text;
+  }
+
+  const errors: Record<string, string[]> = {};
+  const warnings: Record<string, string[]> = {};
+  for (const [field, text] of Object.entries(templates)) {
+    const check = checkTemplate(text);
+    if (check.errors.length) errors[field] = check.errors;
+    if (check.warnings.length) warnings[field] = check.warnings;
+  }
+  return { errors, warnings };
+}
+
+app.patch('/api/merchants/:merchantId/evidence-profile', requireRole('admin'), (req, res) => {
+  if (!canAccessMerchant(req, req.params.merchantId)) return res.status(404).json({ error: 'merchant_not_found' });
+  const parsed = evidenceProfileSchema.safeParse(req.body || {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_evidence_profile', details: parsed.error.flatten() });
+  }
+  const patch: Partial<EvidenceProfile> = parsed.data;
+  const { errors, warnings } = profileTemplateIssues(patch);
+  if (Object.keys(errors).length) return res.status(400).json({ error: 'invalid_template', details: errors });
+
+  const updated = updateMerchantEvidenceProfile(req.params.merchantId, patch, actorOf(req));
+  if (!updated) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ merchant: toPublicMerchant(updated), templateWarnings: warnings });
+});
+
+app.get('/api/template-variables', requireRole('viewer'), (_req, res) => {
+  res.json({ variables: templateVariables });
+});
+
+app.post('/api/merchants/:merchantId/templates/preview', requireRole('analyst'), async (req, res) => {
+  const schema = z
+    .object({ template: templateText, disputeId: z.string().optional(), inquiryId: z.string().optional() })
+    .strict();
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_preview', details: parsed.error.flatten() });
+
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const { template, disputeId, inquiryId } = parsed.data;
+
+  const inquiry = inquiryId ? listInquiries(merchant.id).find((i) => i.id === inquiryId) : undefined;
+  if (inquiryId && !inquiry) return res.status(404).json({ error: 'inquiry_not_found' });
+  const linkedId = disputeId || inquiry?.disputeId;
+  const dispute = linkedId ? getDispute(linkedId) : undefined;
+  if (disputeId && dispute?.merchantId !== merchant.id) return res.status(404).json({ error: 'dispute_not_found' });
+
+  const check = checkTemplate(template);
+  if (check.errors.length) return res.status(400).json({ error: 'invalid_template', details: check.errors });
+  const own = dispute?.merchantId === merchant.id ? dispute : undefined;
+  const context = await inquiryTemplateContext(merchant.id, inquiry, own);
+  return res.json(renderTemplate(template, context));
+});
+
+app.post('/api/merchants/:merchantId/optimize-reasons', requireRole('admin'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+
+  const minCases = Number(req.body?.minCases || 3);
+  const minWinRatePct = Number(req.body?.minWinRatePct || 30);
+  const metrics = getMetrics(merchant.id);
+  const byReason = metrics.byReason || {};
+
+  const riskyReasons = Object.entries(byReason)
+    .filter(([, v]) => v.total >= minCases)
+    .filter(([, v]) => (v.won / Math.max(1, v.total)) * 100 < minWinRatePct)
+    .map(([reason]) => reason);
+
+  const observedReasons = Object.keys(byReason);
+  const nextAllowed = observedReasons.filter((reason) => !riskyReasons.includes(reason));
+
+  const currentReasons = merchant.settings.autoSubmitReasons || [];
+  const fallbackToCurrent = nextAllowed.length === 0 ? currentReasons : nextAllowed;
+
+  const updated = updateMerchantSettings(
+    merchant.id,
+    {
+      autoSubmitReasons: fallbackToCurrent,
+    },
+    actorOf(req),
+  );
+
+  return res.json({
+    merchant: updated && toPublicMerchant(updated),
+    optimized: true,
+    minCases,
+    minWinRatePct,
+    riskyReasons,
+    autoSubmitReasons: updated?.settings.autoSubmitReasons || [],
+    note:
+      nextAllowed.length === 0
+        ? 'No safe reason codes met thresholds; kept current auto-submit list.'
+        : 'Auto-submit reasons updated based on recent win-rate performance.',
+  });
+});
+
+app.get('/api/api-keys', requireRole('admin'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  res.json({ apiKeys: listApiKeys(merchantId) });
+});
+
+app.post('/api/api-keys', requireRole('admin'), (req, res) => {
+  const schema = z.object({
+    name: z.string().min(1).max(100),
+    role: z.enum(['viewer', 'analyst', 'approver', 'admin']),
+    merchantId: z.string().optional(),
+  });
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_api_key', details: parsed.error.flatten() });
+
+  const { merchantId, forbidden } = scopeMerchant(req, parsed.data.merchantId);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  if (merchantId && !findMerchantById(merchantId)) return res.status(404).json({ error: 'merchant_not_found' });
+
+  const { key, record } = createApiKey({ ...parsed.data, merchantId });
+  const { keyHash: _keyHash, ...apiKey } = record;
+  // The plaintext key is only ever returned here.
+  return res.json({ apiKey, key });
+});
+
+app.delete('/api/api-keys/:id', requireRole('admin'), (req, res) => {
+  const existing = listApiKeys().find((k) => k.id === req.params.id);
+  if (!existing || !canAccessMerchant(req, existing.merchantId)) return res.status(404).json({ error: 'api_key_not_found' });
+  const revoked = revokeApiKey(existing.id);
+  return res.json({ ok: true, revokedAt: revoked?.revokedAt });
+});
+
+app.get('/disputes', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  res.json({ disputes: listDisputes(merchantId) });
+});
+
+app.get('/disputes/:id', requireRole('viewer'), (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  const lifecycle = {
+    timeInStage: timeInStage(dispute.statusHistory),
+    funds: fundsImpact(dispute.balanceTransactions || []),
+  };
+  return res.json({ dispute, lifecycle });
+});
+
+app.patch('/disputes/:id/workflow', requireRole('analyst'), (req, res) => {
+  const schema = z
+    .object({
+      owner: z.string().min(1).max(100).optional(),
+      workflowStatus: z
+        .enum(['new', 'in_progress', 'waiting_on_customer', 'ready_to_submit', 'submitted', 'closed'])
+        .optional(),
+      nextActionAt: z.string().datetime().optional(),
+      internalNotes: z.string().max(4000).optional(),
+    })
+    .strict();
+
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_workflow_patch', details: parsed.error.flatten() });
+  }
+
+  if (!getDisputeFor(req, req.params.id)) return res.status(404).json({ error: 'dispute_not_found' });
+  const updated = updateDisputeWorkflow(req.params.id, parsed.data, actorOf(req));
+  if (!updated) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({ dispute: updated });
+});
+
+// Shows what Stripe currently holds next to the stored versions. mismatchedFields lists fields of
+// the current version that Stripe reports differently (e.g. edited in the Stripe dashboard).
+app.get('/disputes/:id/evidence', requireRole('viewer'), async (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+
+  const stored = { currentVersion: dispute.currentEvidenceVersion, versions: dispute.evidenceVersions || [] };
+  const stripe = stripeFor(findMerchantById(dispute.merchantId));
+  if (!stripe) return res.json({ ...stored, stripe: null, stripeError: 'merchant_disconnected' });
+
+  try {
+    const remote = await stripe.disputes.retrieve(dispute.id);
+    const held = remote.evidence as unknown as Record<string, unknown>;
+    const normalize = (v: unknown) => (v && typeof v === 'object' && 'id' in v ? v.id : v || null);
+    const current = currentEvidence(dispute);
+    const mismatchedFields = Object.entries(current?.evidence || {})
+      .filter(([field, value]) => normalize(value) !== normalize(held[field]))
+      .map(([field]) => field);
+    return res.json({
+      ...stored,
+      stripe: { status: remote.status, evidence: remote.evidence, evidenceDetails: remote.evidence_details },
+      mismatchedFields,
+    });
+  } catch (err) {
+    return res.json({ ...stored, stripe: null, stripeError: (err as Error).message });
+  }
+});
+
+// Evidence files are sent as the raw request body (`curl --data-binary @receipt.pdf -H 'content-type:
+// application/pdf'`) with the evidence field and filename in the query string.
+const attachmentBody = express.raw({ type: attachmentContentTypes, limit: MAX_EVIDENCE_BYTES });
+const attachmentQuery = z.object({
+  kind: z.enum(attachmentKinds as [AttachmentKind, ...AttachmentKind[]]),
+  // Shown in the portal and the audit log, so nothing that could turn into markup.
+  filename: z
+    .string()
+    .min(1)
+    .max(200)
+    .regex(/^[^<>"']+$/),
+});
+
+function parseAttachmentUpload(req: express.Request) {
+  if (!Buffer.isBuffer(req.body) || !req.body.length) return { error: 'unsupported_file' as const };
+  const parsed = attachmentQuery.safeParse(req.query);
+  if (!parsed.success) return { error: 'invalid_attachment' as const, details: parsed.error.flatten() };
+  return { ...parsed.data, contentType: req.header('content-type') || '', data: req.body as Buffer };
+}
+
+// Rebuilds the evidence after the dispute's files change. Stripe locks evidence once it has been
+// submitted, so only open disputes are refreshed.
+async function resyncAttachments(
+  dispute: DisputeRecord,
+  merchant: MerchantRecord | undefined,
+  stripe: Stripe,
+  actor: string,
+) {
+  if (dispute.submitted || isDisputeClosed(dispute.status)) return { synced: false };
+  try {
+    const remote = await stripe.disputes.retrieve(dispute.id);
+    await syncDisputeEvidence(remote, merchant, stripe, dispute.stripeAccountId, actor);
+    return { synced: true };
+  } catch (err) {
+    return { synced: false, syncError: (err as Error).message };
+  }
+}
+
+app.get('/disputes/:id/attachments', requireRole('viewer'), (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({
+    attachments: listAttachments({ disputeId: dispute.id }),
+    merchantAssets: dispute.merchantId ? listAttachments({ merchantId: dispute.merchantId }) : [],
+    evidenceFiles: evidenceFilesFor(dispute).files,
+  });
+});
+
+app.post('/disputes/:id/attachments', requireRole('analyst'), attachmentBody, async (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  const upload = parseAttachmentUpload(req);
+  if ('error' in upload) return res.status(400).json(upload);
+
+  const merchant = findMerchantById(dispute.merchantId);
+  const stripe = stripeFor(merchant);
+  if (!stripe) return res.status(409).json({ error: 'merchant_disconnected' });
+
+  let attachment;
+  try {
+    const target = { merchantId: dispute.merchantId, disputeId: dispute.id };
+    attachment = await uploadAttachment(stripe, { ...upload, ...target }, actorOf(req));
+  } catch (err) {
+    return res.status(502).json({ error: 'upload_failed', message: (err as Error).message });
+  }
+
+  const sync = await resyncAttachments(dispute, merchant, stripe, actorOf(req));
+  return res.json({ attachment, ...sync, dispute: getDispute(dispute.id) });
+});
+
+app.delete('/disputes/:id/attachments/:attachmentId', requireRole('analyst'), async (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  const attachment = getAttachment(req.params.attachmentId);
+  if (!dispute || attachment?.disputeId !== dispute.id) return res.status(404).json({ error: 'attachment_not_found' });
+  removeAttachment(attachment.id, actorOf(req));
+
+  const merchant = findMerchantById(dispute.merchantId);
+  const stripe = stripeFor(merchant);
+  if (!stripe) return res.json({ ok: true, synced: false });
+  return res.json({ ok: true, ...(await resyncAttachments(dispute, merchant, stripe, actorOf(req))) });
+});
+
+app.get('/api/merchants/:merchantId/attachments', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ attachments: listAttachments({ merchantId: merchant.id }) });
+});
+
+app.post('/api/merchants/:merchantId/attachments', requireRole('admin'), attachmentBody, async (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const upload = parseAttachmentUpload(req);
+  if ('error' in upload) return res.status(400).json(upload);
+
+  const stripe = stripeFor(merchant);
+  if (!stripe) return res.status(409).json({ error: 'merchant_disconnected' });
+  try {
+    const attachment = await uploadAttachment(stripe, { ...upload, merchantId: merchant.id }, actorOf(req));
+    return res.json({ attachment });
+  } catch (err) {
+    return res.status(502).json({ error: 'upload_failed', message: (err as Error).message });
+  }
+});
+
+app.delete('/api/merchants/:merchantId/attachments/:attachmentId', requireRole('admin'), (req, res) => {
+  const attachment = getAttachment(req.params.attachmentId);
+  if (!attachment || attachment.disputeId || attachment.merchantId !== req.params.merchantId) {
+    return res.status(404).json({ error: 'attachment_not_found' });
+  }
+  if (!canAccessMerchant(req, attachment.merchantId)) return res.status(404).json({ error: 'attachment_not_found' });
+  removeAttachment(attachment.id, actorOf(req));
+  return res.json({ ok: true });
+});
+
+// Charge details only fill template placeholders, so drafts and previews still render without them.
+async function chargeForTemplates(dispute: DisputeRecord) {
+  const stripe = stripeFor(findMerchantById(dispute.merchantId));
+  if (!stripe || !dispute.chargeId) return undefined;
+  return stripe.charges.retrieve(dispute.chargeId).catch(() => undefined);
+}
+
+async function templateContextFor(dispute: DisputeRecord) {
+  const merchant = findMerchantById(dispute.merchantId);
+  return buildTemplateContext({
+    dispute: { ...dispute, created: dispute.disputeCreatedAt },
+    charge: await chargeForTemplates(dispute),
+    merchant,
+    profile: merchant?.evidenceProfile || defaultEvidenceProfile(),
+  });
+}
+
+function templateFor(templates: Record<string, string | undefined> | undefined, key: string) {
+  return templates?.[key] ?? templates?.default;
+}
+
+async function generatedDraftFor(dispute: DisputeRecord) {
+  const merchant = dispute.merchantId ? findMerchantById(dispute.merchantId) : undefined;
+  const context = await templateContextFor(dispute);
+  const { profile } = renderEvidenceProfile(merchant?.evidenceProfile || defaultEvidenceProfile(), context);
+  const reasonTemplate = templateFor(profile.reasonTemplates, dispute.reason);
+  return generateEvidenceDraft({
+    disputeId: dispute.id,
+    reason: dispute.reason,
+    amount: dispute.amount,
+    currency: dispute.currency,
+    dueBy: dispute.dueBy,
+    evidenceSummary: dispute.evidenceSummary,
+    productDescription: profile.productDescriptionTemplate,
+    termsUrl: profile.termsUrl,
+    refundPolicyUrl: profile.refundPolicyUrl,
+    cancellationPolicyUrl: profile.cancellationPolicyUrl,
+    onboardingProof: profile.onboardingProofTemplate,
+    deliveryProof: profile.deliveryProofTemplate,
+    supportPolicy: profile.supportPolicyTemplate,
+    reasonText: reasonTemplate && renderTemplate(reasonTemplate, context).text,
+  });
+}
+
+// The saved draft, or a fresh unsaved one seeded from the generator.
+async function evidenceDraftFor(dispute: DisputeRecord): Promise<SavedEvidenceDraft> {
+  if (dispute.evidenceDraft) return dispute.evidenceDraft;
+  const generated = await generatedDraftFor(dispute);
+  return {
+    headline: generated.headline,
+    narrative: generated.narrative,
+    narrativeField: narrativeFieldFor(dispute.reason),
+    checklist: generated.checklist.map((text) => ({ text, done: false })),
+    suggestedAttachments: generated.suggestedAttachments,
+    generated,
+    updatedAt: dispute.updatedAt,
+    updatedBy: 'generator',
+  };
+}
+
+function draftResponse(dispute: DisputeRecord, draft: SavedEvidenceDraft) {
+  return {
+    draft,
+    saved: !!dispute.evidenceDraft,
+    diff: diffLines(draft.generated.narrative, draft.narrative),
+  };
+}
+
+app.get('/disputes/:id/evidence-draft', requireRole('viewer'), async (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json(draftResponse(dispute, await evidenceDraftFor(dispute)));
+});
+
+// Stripe caps evidence text at 20,000 characters; leave room for the packet notes.
+const draftSchema = z
+  .object({
+    headline: z.string().min(1).max(200),
+    narrative: z.string().max(15000),
+    checklist: z.array(z.object({ text: z.string().min(1).max(500), done: z.boolean() }).strict()).max(50),
+    note: z.string().max(2000),
+  })
+  .partial()
+  .strict();
+
+app.put('/disputes/:id/evidence-draft', requireRole('analyst'), async (req, res) => {
+  const parsed = draftSchema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_draft', details: parsed.error.flatten() });
+
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  if (dispute.submitted) return res.status(409).json({ error: 'already_submitted' });
+  if (!dispute.currentEvidenceVersion) return res.status(409).json({ error: 'no_stored_evidence' });
+
+  const { note, ...changes } = parsed.data;
+  const actor = actorOf(req);
+  const draft: SavedEvidenceDraft = {
+    ...(await evidenceDraftFor(dispute)),
+    ...changes,
+    updatedAt: new Date().toISOString(),
+    updatedBy: actor,
+  };
+  const updated = saveEvidenceDraft(dispute.id, draft, { keyId: req.principal!.keyId, actor, note });
+  if (!updated) return res.status(404).json({ error: 'dispute_not_found' });
+  const approval = approvalState(updated, settingsFor(updated.merchantId));
+  return res.json({ ...draftResponse(updated, draft), approval });
+});
+
+app.get('/disputes/:id/receipt-clarity-draft', requireRole('viewer'), (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+
+  const merchant = dispute.merchantId ? findMerchantById(dispute.merchantId) : undefined;
+  const settings = merchant?.settings || defaultMerchantSettings();
+  const profile = merchant?.evidenceProfile || defaultEvidenceProfile();
+
+  const clarityDraft = {
+    headline: `Receipt clarity draft for ${dispute.id}`,
+    statementDescriptor: settings.statementDescriptor || '[set descriptor] ',
+    customerSupport: {
+      email: settings.supportEmail || '[set support email]',
+      phone: settings.supportPhone || '[set support phone]',
+      url: settings.supportUrl || '[set support portal]',
+    },
+    receiptFooterTemplate: [
+      `Need help with your purchase? Contact ${settings.supportEmail || '[support-email]'}${
+        settings.supportPhone ? ` or call ${settings.supportPhone}` : ''
+      }.`,
+      `Manage refunds/cancellations: ${settings.supportUrl || profile.cancellationPolicyUrl || '[support-url]'}`,
+      `Statement descriptor: ${settings.statementDescriptor || '[descriptor]'}`,
+    ].join(' '),
+  };
+
+  return res.json({ draft: clarityDraft });
+});
+
+app.get('/metrics', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  return res.json({ metrics: getMetrics(merchantId, reportingCurrencyOf(settingsFor(merchantId))) });
+});
+
+app.get('/api/analytics/lifecycle', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const reporting = reportingCurrencyOf(settingsFor(merchantId));
+  return res.json({ lifecycle: lifecycleReport(listDisputes(merchantId), reporting) });
+});
+
+app.get('/api/analytics/timeseries', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const schema = z.object({
+    interval: z.enum(['day', 'week', 'month']).default('month'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+  const parsed = schema.safeParse({ interval: req.query.interval, from: req.query.from, to: req.query.to });
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_range', details: parsed.error.flatten() });
+
+  const { interval } = parsed.data;
+  const to = parsed.data.to || new Date();
+  const from = parsed.data.from || defaultFrom(to, interval);
+  if (from > to) return res.status(400).json({ error: 'invalid_range' });
+  if (bucketCount(from, to, interval) > MAX_BUCKETS) return res.status(400).json({ error: 'too_many_buckets' });
+
+  const settings = settingsFor(merchantId);
+  const reporting = reportingCurrencyOf(settings);
+  const series = disputeTimeseries(listDisputes(merchantId), {
+    interval,
+    from,
+    to,
+    reporting,
+    // The transaction count is per merchant, so the ratio is only meaningful for one merchant.
+    monthlyTransactionCount: merchantId ? settings.monthlyTransactionCount : undefined,
+  });
+  return res.json({
+    interval,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    reportingCurrency: reporting.currency,
+    ...series,
+  });
+});
+
+function networkRatiosResponse(merchantId: string, now = new Date()) {
+  const month = monthKey(now);
+  return {
+    month,
+    volume: storedTransactionVolume(merchantId, month),
+    previousVolume: storedTransactionVolume(merchantId, previousMonth(month)),
+    ratios: latestNetworkRatios(merchantId, now) || [],
+    programs: networkPrograms,
+  };
+}
+
+app.get('/api/merchants/:merchantId/network-ratios', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json(networkRatiosResponse(merchant.id));
+});
+
+// Counts new charges on the connected account and fires any threshold alerts.
+app.post('/api/merchants/:merchantId/network-ratios/refresh', requireRole('analyst'), async (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const stripe = stripeFor(merchant);
+  if (!stripe) return res.status(409).json({ error: 'merchant_disconnected' });
+  try {
+    const now = new Date();
+    const { alerts } = await monitorNetworkRatios(stripe, merchant.id, now);
+    await notifyRatioAlerts(alerts);
+    return res.json({ ...networkRatiosResponse(merchant.id, now), alerts });
+  } catch (err) {
+    return res.status(502).json({ error: 'stripe_error', message: (err as Error).message });
+  }
+});
+
+app.get('/api/merchants/:merchantId/ratio-alerts', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ alerts: listRatioAlerts(merchant.id) });
+});
+
+const notificationEvent = z.enum(notificationEvents as [NotificationEvent, ...NotificationEvent[]]);
+const channelUrl = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), 'must be an http(s) URL');
+const channelFields = {
+  name: z.string().trim().min(1).max(100),
+  events: z.array(notificationEvent).min(1),
+  enabled: z.boolean().optional(),
+  to: z.array(z.string().email()).min(1).max(20).optional(),
+  url: channelUrl.optional(),
+};
+
+app.get('/api/merchants/:merchantId/notification-channels', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ channels: listChannels(merchant.id).map(toPublicChannel), events: notificationEvents });
+});
+
+// HTTP channels get a signing secret in this response only.
+app.post('/api/merchants/:merchantId/notification-channels', requireRole('admin'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const schema = z
+    .object({ kind: z.enum(['email', 'chat', 'http']), ...channelFields })
+    .strict()
+    .refine((c) => (c.kind === 'email' ? !!c.to : !!c.url), { message: 'email needs `to`; chat and http need `url`' });
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_channel', details: parsed.error.flatten() });
+  const { channel, signingSecret } = createChannel(merchant.id, parsed.data, actorOf(req));
+  return res.status(201).json({ channel: toPublicChannel(channel), signingSecret });
+});
+
+function channelFor(req: express.Request) {
+  const channel = getChannel(req.params.channelId);
+  return channel?.merchantId === req.params.merchantId && canAccessMerchant(req, channel.merchantId)
+    ? channel
+    : undefined;
+}
+
+app.patch('/api/merchants/:merchantId/notification-channels/:channelId', requireRole('admin'), (req, res) => {
+  const channel = channelFor(req);
+  if (!channel) return res.status(404).json({ error: 'channel_not_found' });
+  const parsed = z.object(channelFields).partial().strict().safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_channel', details: parsed.error.flatten() });
+  const updated = updateChannel(channel.id, parsed.data, actorOf(req));
+  return res.json({ channel: updated && toPublicChannel(updated) });
+});
+
+app.delete('/api/merchants/:merchantId/notification-channels/:channelId', requireRole('admin'), (req, res) => {
+  const channel = channelFor(req);
+  if (!channel) return res.status(404).json({ error: 'channel_not_found' });
+  removeChannel(channel.id, actorOf(req));
+  return res.json({ ok: true });
+});
+
+app.post('/api/merchants/:merchantId/notification-channels/:channelId/test', requireRole('admin'), async (req, res) => {
+  const channel = channelFor(req);
+  if (!channel) return res.status(404).json({ error: 'channel_not_found' });
+  return res.json({ delivery: await sendTestNotification(channel) });
+});
+
+app.get('/api/notification-deliveries', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const status = z.enum(['pending', 'delivered', 'failed']).optional().safeParse(req.query.status);
+  if (!status.success) return res.status(400).json({ error: 'invalid_status' });
+  const channelId = typeof req.query.channelId === 'string' ? req.query.channelId : undefined;
+  return res.json({ deliveries: listDeliveries(merchantId, { status: status.data, channelId }) });
+});
+
+app.post('/api/notification-deliveries/:id/retry', requireRole('admin'), async (req, res) => {
+  const delivery = getDelivery(req.params.id);
+  if (!delivery || !canAccessMerchant(req, delivery.merchantId)) {
+    return res.status(404).json({ error: 'delivery_not_found' });
+  }
+  if (delivery.status === 'delivered') return res.status(409).json({ error: 'already_delivered' });
+  return res.json({ delivery: await attemptDelivery(delivery) });
+});
+
+app.get('/api/alerts', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  return res.json({ alerts: listAlerts(merchantId) });
+});
+
+app.get('/api/early-fraud-warnings', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  return res.json({ earlyFraudWarnings: listEarlyFraudWarnings(merchantId) });
+});
+
+app.post('/api/merchants/:merchantId/alerts/reconcile', requireRole('analyst'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ summary: reconcileAlerts(merchant.id, merchant.settings) });
+});
+
+app.get('/api/merchants/:merchantId/deflections', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ totals: deflectionTotals(merchant.id), deflections: listDeflectionCharges(merchant.id) });
+});
+
+app.get('/api/merchants/:merchantId/invoices', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ invoices: listInvoices(merchant.id) });
+});
+
+// Drafts the invoice for a closed period, or recomputes its draft. Issued invoices are never redrafted.
+app.post('/api/merchants/:merchantId/invoices', requireRole('admin', { platform: true }), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  const parsed = z
+    .object({ period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/) })
+    .strict()
+    .safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_period', details: parsed.error.flatten() });
+  const out = draftInvoice(merchant, parsed.data.period, actorOf(req));
+  if ('error' in out) return res.status(409).json(out);
+  return res.json(out);
+});
+
+function invoiceFor(req: express.Request) {
+  const invoice = getInvoice(req.params.id);
+  return invoice && canAccessMerchant(req, invoice.merchantId) ? invoice : undefined;
+}
+
+app.get('/api/invoices/:id', requireRole('viewer'), (req, res) => {
+  const invoice = invoiceFor(req);
+  if (!invoice) return res.status(404).json({ error: 'invoice_not_found' });
+  return res.json({ invoice });
+});
+
+app.get('/api/invoices/:id/export', requireRole('viewer'), (req, res) => {
+  const invoice = invoiceFor(req);
+  if (!invoice) return res.status(404).json({ error: 'invoice_not_found' });
+  const format = req.query.format === 'pdf' ? 'pdf' : 'csv';
+  res.attachment(`${invoice.id}.${format}`);
+  if (format === 'csv') return res.type('text/csv').send(invoiceCsv(invoice));
+  const merchant = findMerchantById(invoice.merchantId);
+  return res.type('application/pdf').send(invoicePdf(invoice, merchant?.name || invoice.merchantId));
+});
+
+const invoiceActions = { issue: 'issued', pay: 'paid', void: 'void' } as const;
+
+app.post('/api/invoices/:id/:action(issue|pay|void)', requireRole('admin', { platform: true }), (req, res) => {
+  if (!invoiceFor(req)) return res.status(404).json({ error: 'invoice_not_found' });
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : undefined;
+  const to = invoiceActions[req.params.action as keyof typeof invoiceActions];
+  const out = transitionInvoice(req.params.id, to, actorOf(req), reason);
+  if ('error' in out) return res.status(409).json(out);
+  return res.json(out);
+});
+
+type AlertInput = {
+  merchantId?: string;
+  disputeId?: string;
+  chargeId?: string;
+  source: AlertRecord['source'];
+  externalAlertId?: string;
+  amount?: number;
+  currency: string;
+  autoRefund: boolean;
+  dryRun: boolean;
+  alertType?: string;
+  arn?: string;
+  resolvedByNetwork?: boolean;
+};
+
+type AlertIngestResult =
+  | { ok: true; deduplicated: boolean; alert: AlertRecord; original?: string; refundDecision?: RefundDecision }
+  | { ok: true; dryRun: true; decision: RefundDecision }
+  | { ok: false; status: number; error: string; message?: string; category?: string };
+
+// Several alerts can land in the same millisecond when a provider batches them.
+const newAlertId = () => `alert_${Date.now()}_${randomBytes(3).toString('hex')}`;
+
+// Shared by the generic ingest route and the provider webhooks: dedupes, refunds through the
+// refund policy when auto-refund applies, and stores the alert.
+async function ingestAlert(payload: AlertInput, actor: string): Promise<AlertIngestResult> {
+  const existing = findAlertByExternal(payload.merchantId, payload.source, payload.externalAlertId, payload.chargeId);
+  if (existing) {
+    const dup = upsertAlert({
+      id: newAlertId(),
+      merchantId: payload.merchantId,
+      disputeId: payload.disputeId,
+      chargeId: payload.chargeId,
+      source: payload.source,
+      externalAlertId: payload.externalAlertId,
+      amount: payload.amount,
+      currency: payload.currency,
+      refunded: false,
+      duplicateOf: existing.id,
+      createdAt: new Date().toISOString(),
+    });
+    return { ok: true, deduplicated: true, alert: dup, original: existing.id };
+  }
+
+  const dispute = payload.disputeId ? getDispute(payload.disputeId) : undefined;
+  const merchant = findMerchantById(payload.merchantId || dispute?.merchantId);
+  const chargeId = payload.chargeId || dispute?.chargeId;
+  let refundId: string | undefined;
+  let refundBlockedReason: string | undefined;
+  let refundDecision: RefundDecision | undefined;
+
+  const shouldRefund =
+    payload.autoRefund && !payload.resolvedByNetwork && merchant?.settings.alertsAutoRefundEnabled !== false;
+
+  if (shouldRefund && chargeId) {
+    const stripe = stripeFor(merchant);
+    if (!stripe) return { ok: false, status: 409, error: 'merchant_disconnected' };
+
+    try {
+      const out = await refundWithPolicy(stripe, {
+        // Stripe replays the first result for a repeated key, so a resent alert can't refund twice. Provider
+        // ids are only unique per merchant, hence the merchant in the key.
+        key: `alert-refund:${merchant?.id || 'platform'}:${payload.source}:${payload.externalAlertId || chargeId}`,
+        merchantId: merchant?.id || payload.merchantId,
+        settings: merchant?.settings || defaultMerchantSettings(),
+        chargeId,
+        dispute,
+        amount: payload.amount,
+        currency: payload.currency,
+        source: 'alert',
+        actor,
+        metadata: {
+          source: 'alerts_ingest',
+          alert_source: payload.source,
+          dispute_id: dispute?.id || '',
+        },
+        dryRun: payload.dryRun,
+      });
+      if (payload.dryRun) return { ok: true, dryRun: true, decision: out.decision };
+      refundDecision = out.decision;
+      const refund = out.refund;
+      if (!refund) {
+        refundBlockedReason = out.decision.reason || 'dry_run';
+      } else {
+        refundId = refund.id;
+        recordAudit({
+          merchantId: merchant?.id || payload.merchantId,
+          actor,
+          action: 'refund.created',
+          entityType: dispute ? 'dispute' : 'charge',
+          entityId: dispute?.id || chargeId,
+          diff: {
+            refund: {
+              before: null,
+              after: {
+                id: refund.id,
+                chargeId,
+                amount: refund.amount,
+                currency: refund.currency,
+                source: 'alerts_ingest',
+              },
+            },
+          },
+        });
+        if (dispute?.id) {
+          markDeflected(dispute.id, `Alert deflection (${payload.source}) refund ${refund.id}`, actor);
+        }
+      }
+    } catch (err) {
+      const category = classifyStripeError(err);
+      return { ok: false, status: 500, error: 'auto_refund_failed', message: (err as Error).message, category };
+    }
+  }
+
+  const alert = upsertAlert({
+    id: newAlertId(),
+    merchantId: merchant?.id || payload.merchantId,
+    disputeId: dispute?.id || payload.disputeId,
+    chargeId,
+    source: payload.source,
+    externalAlertId: payload.externalAlertId,
+    amount: payload.amount,
+    currency: payload.currency,
+    refunded: !!refundId,
+    refundId,
+    refundBlockedReason,
+    alertType: payload.alertType,
+    arn: payload.arn,
+    resolvedByNetwork: payload.resolvedByNetwork || undefined,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { ok: true, deduplicated: false, alert, refundDecision };
+}
+
+app.post('/api/alerts/ingest', requireRole('approver'), async (req, res) => {
+  const schema = z
+    .object({
+      merchantId: z.string().optional(),
+      disputeId: z.string().optional(),
+      chargeId: z.string().optional(),
+      source: z.enum(['verifi', 'ethoca', 'network', 'manual']).default('manual'),
+      externalAlertId: z.string().optional(),
+      amount: z.number().int().positive().optional(),
+      currency: z.string().default('usd'),
+      autoRefund: z.boolean().default(true),
+      // Report what the refund policy would do without refunding or storing the alert.
+      dryRun: z.boolean().default(false),
+    })
+    .refine((v) => !!v.chargeId || !!v.disputeId, { message: 'chargeId_or_disputeId_required' });
+
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_alert', details: parsed.error.flatten() });
+  }
+
+  const scope = scopeMerchant(req, parsed.data.merchantId);
+  if (scope.forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  if (parsed.data.disputeId && getDispute(parsed.data.disputeId) && !getDisputeFor(req, parsed.data.disputeId)) {
+    return res.status(404).json({ error: 'dispute_not_found' });
+  }
+
+  const out = await ingestAlert({ ...parsed.data, merchantId: scope.merchantId }, actorOf(req));
+  if (!out.ok) {
+    const { ok: _ok, status, ...body } = out;
+    return res.status(status).json(body);
+  }
+  return res.json(out);
+});
+
+const alertProviderEndpoint = (config: AlertProviderConfigRecord) =>
+  `${env.APP_BASE_URL}/webhooks/alerts/${config.provider}/${config.merchantId}`;
+
+const toPublicProvider = (config: AlertProviderConfigRecord) => ({
+  ...toPublicAlertProvider(config),
+  endpoint: alertProviderEndpoint(config),
+});
+
+function alertProviderParams(req: express.Request) {
+  const provider = req.params.provider as AlertProviderName;
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!alertProviderNames.includes(provider) || !merchant || !canAccessMerchant(req, merchant.id)) return undefined;
+  return { provider, merchant };
+}
+
+app.get('/api/merchants/:merchantId/alert-providers', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({ providers: listAlertProviders(merchant.id).map(toPublicProvider) });
+});
+
+// Connects a provider feed. Omit `secret` to have one generated; either way it is returned once.
+app.put('/api/merchants/:merchantId/alert-providers/:provider', requireRole('admin'), (req, res) => {
+  const params = alertProviderParams(req);
+  if (!params) return res.status(404).json({ error: 'provider_not_found' });
+  const parsed = z
+    .object({ secret: z.string().min(16).max(200).optional(), enabled: z.boolean().optional() })
+    .strict()
+    .safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_provider', details: parsed.error.flatten() });
+  const { config, secret } = saveAlertProvider(params.merchant.id, params.provider, parsed.data, actorOf(req));
+  return res.json({ provider: toPublicProvider(config), secret });
+});
+
+app.delete('/api/merchants/:merchantId/alert-providers/:provider', requireRole('admin'), (req, res) => {
+  const params = alertProviderParams(req);
+  if (!params || !removeAlertProvider(params.merchant.id, params.provider, actorOf(req))) {
+    return res.status(404).json({ error: 'provider_not_found' });
+  }
+  return res.json({ ok: true });
+});
+
+// Inbound alerts in each provider's own format. Every alert in the request is matched to a Stripe
+// charge, ingested like any other alert, and answered in the shape the provider expects. A
+// redelivered alert gets the answer it got the first time.
+app.post('/webhooks/alerts/:provider/:merchantId', async (req, res) => {
+  const name = req.params.provider as AlertProviderName;
+  const merchant = findMerchantById(req.params.merchantId);
+  const config = merchant && alertProviderNames.includes(name) ? getAlertProvider(merchant.id, name) : undefined;
+  if (!merchant || !config?.enabled) return res.status(404).json({ error: 'provider_not_found' });
+
+  const provider = alertProviders[name];
+  const raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!provider.verify(req.headers, raw, alertProviderSecret(config), new Date())) {
+    return res.status(401).json({ error: 'invalid_signature' });
+  }
+
+  let inbound: InboundAlert[];
+  try {
+    inbound = provider.parse(JSON.parse(raw.toString('utf8')));
+  } catch (err) {
+    const details = err instanceof z.ZodError ? err.flatten() : undefined;
+    return res.status(400).json({ error: 'invalid_payload', details });
+  }
+
+  const stripe = stripeFor(merchant);
+  if (!stripe) return res.status(409).json({ error: 'merchant_disconnected' });
+
+  const results: AlertProviderResult[] = [];
+  for (const alert of inbound) {
+    const seen = findAlertByExternal(merchant.id, alert.source, alert.externalAlertId);
+    if (seen) {
+      const ack = seen.acknowledgement || acknowledgementFor(seen, alert.refundable);
+      if (!seen.acknowledgement) upsertAlert({ ...seen, acknowledgement: ack });
+      results.push({ alert, ack, refundId: seen.refundId, amount: seen.amount });
+      continue;
+    }
+
+    let chargeId: string | undefined;
+    try {
+      chargeId = await matchAlertCharge(stripe, alert);
+    } catch (err) {
+      // The provider retries; alerts already answered above are replayed, not processed again.
+      return res.status(502).json({ error: 'stripe_error', message: (err as Error).message });
+    }
+
+    const out = await ingestAlert(
+      {
+        merchantId: merchant.id,
+        chargeId,
+        source: alert.source,
+        externalAlertId: alert.externalAlertId,
+        amount: alert.amount,
+        currency: alert.currency,
+        autoRefund: alert.refundable,
+        dryRun: false,
+        alertType: alert.alertType,
+        arn: alert.arn,
+        resolvedByNetwork: alert.resolvedByNetwork,
+      },
+      `${name}_webhook`,
+    );
+    if (!out.ok) {
+      const { ok: _ok, status, ...body } = out;
+      return res.status(status).json(body);
+    }
+    if (!('alert' in out)) continue;
+    const ack = acknowledgementFor(out.alert, alert.refundable);
+    upsertAlert({ ...out.alert, acknowledgement: ack });
+    results.push({ alert, ack, refundId: out.alert.refundId, amount: out.alert.amount });
+  }
+
+  return res.json(provider.acknowledge(results));
+});
+
+app.get('/api/audit', requireRole('viewer'), (req, res) => {
+  const entityId = typeof req.query.entityId === 'string' ? req.query.entityId : undefined;
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const sinceRaw = typeof req.query.since === 'string' ? req.query.since : undefined;
+  const since = sinceRaw ? new Date(sinceRaw) : undefined;
+  if (since && Number.isNaN(since.getTime())) return res.status(400).json({ error: 'invalid_since' });
+  return res.json({ entries: listAudit({ entityId, merchantId, since: since?.toISOString() }) });
+});
+
+app.get('/api/inquiries', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  return res.json({ inquiries: listInquiries(merchantId) });
+});
+
+// Dispute placeholders are filled when the inquiry is linked to one of the merchant's disputes.
+async function inquiryTemplateContext(
+  merchantId: string | undefined,
+  inquiry?: Pick<InquiryRecord, 'platform' | 'customerMessage'>,
+  dispute?: DisputeRecord,
+) {
+  const merchant = findMerchantById(merchantId);
+  if (!dispute) {
+    return buildTemplateContext({ merchant, profile: merchant?.evidenceProfile || defaultEvidenceProfile(), inquiry });
+  }
+  const context = await templateContextFor(dispute);
+  return { ...context, platform: inquiry?.platform, 'inquiry.message': inquiry?.customerMessage };
+}
+
+app.post('/api/inquiries', requireRole('analyst'), async (req, res) => {
+  const schema = z.object({
+    id: z.string().min(1),
+    merchantId: z.string().optional(),
+    disputeId: z.string().optional(),
+    platform: z.enum(inquiryPlatforms).default('other'),
+    customerMessage: z.string().optional(),
+  });
+
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_inquiry', details: parsed.error.flatten() });
+
+  const p = parsed.data;
+  const scope = scopeMerchant(req, p.merchantId);
+  if (scope.forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const prior = listInquiries().find((i) => i.id === p.id);
+  if (prior && !canAccessMerchant(req, prior.merchantId)) return res.status(409).json({ error: 'inquiry_id_taken' });
+
+  const linked = p.disputeId ? getDispute(p.disputeId) : undefined;
+  const template = templateFor(findMerchantById(scope.merchantId)?.evidenceProfile?.inquiryTemplates, p.platform);
+  const rendered =
+    template && p.customerMessage
+      ? renderTemplate(
+          template,
+          await inquiryTemplateContext(
+            scope.merchantId,
+            p,
+            linked && linked.merchantId === scope.merchantId ? linked : undefined,
+          ),
+        )
+      : undefined;
+
+  const inquiry = upsertInquiry({
+    id: p.id,
+    merchantId: scope.merchantId,
+    disputeId: p.disputeId,
+    platform: p.platform,
+    status: 'new',
+    customerMessage: p.customerMessage,
+    responseDraft: rendered
+      ? rendered.text
+      : p.customerMessage
+        ? `Thanks for reaching out. We reviewed your ${p.platform} inquiry and are gathering transaction, fulfillment, and support records now. We will update you shortly.`
+        : undefined,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+
+  return res.json({ inquiry, templateWarnings: rendered?.warnings || [] });
+});
+
+app.patch('/api/inquiries/:id', requireRole('analyst'), (req, res) => {
+  const schema = z.object({
+    status: z.enum(['new', 'responded', 'escalated', 'resolved']).optional(),
+    responseDraft: z.string().optional(),
+  });
+
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_inquiry_patch', details: parsed.error.flatten() });
+
+  const existing = listInquiries().find((i) => i.id === req.params.id);
+  if (!existing || !canAccessMerchant(req, existing.merchantId)) return res.status(404).json({ error: 'inquiry_not_found' });
+
+  const inquiry = upsertInquiry({ ...existing, ...parsed.data, updatedAt: new Date().toISOString() });
+  return res.json({ inquiry });
+});
+
+app.get('/api/pricing/estimate', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const merchant = merchantId ? findMerchantById(merchantId) : undefined;
+  const settings = merchant?.settings || defaultMerchantSettings();
+  const metrics = getMetrics(merchantId, reportingCurrencyOf(settings));
+
+  const feeOn = (amount: number) => Math.round(amount * (settings.recoveryFeePct / 100));
+  const recovered = metrics.recoveredAmount || 0;
+  const fee = feeOn(recovered);
+  const netRecovered = recovered - fee;
+
+  // Confirmed deflections from the billing ledger, which records fees in the reporting currency
+  // at the time; fees recorded in another currency are converted when there is a rate.
+  const deflections = deflectionTotals(merchantId);
+  const reporting = reportingCurrencyOf(settings);
+  let deflectionCount = 0;
+  let deflectionFees = 0;
+  for (const [currency, totals] of Object.entries(deflections)) {
+    const converted = convertAmount(totals.fees, currency, reporting);
+    if (converted === undefined) continue;
+    deflectionCount += totals.count;
+    deflectionFees += converted;
+  }
+  const totalFees = fee + deflectionFees;
+  const roi = totalFees > 0 ? Number((recovered / totalFees).toFixed(2)) : 0;
+
+  // Fees are charged in the currency the money was recovered in, so each currency is shown as well.
+  const byCurrency = Object.fromEntries(
+    [...new Set([...Object.keys(metrics.byCurrency), ...Object.keys(deflections)])].map((currency) => {
+      const recoveredAmount = metrics.byCurrency[currency]?.recoveredAmount || 0;
+      const deflected = deflections[currency];
+      return [
+        currency,
+        {
+          recoveredAmount,
+          estimatedFee: feeOn(recoveredAmount),
+          netRecovered: recoveredAmount - feeOn(recoveredAmount),
+          ...(deflected && { deflections: deflected.count, deflectionFees: deflected.fees }),
+        },
+      ];
+    }),
+  );
+
+  return res.json({
+    pricing: {
+      recoveryFeePct: settings.recoveryFeePct,
+      alertDeflectionFeeCents: settings.alertDeflectionFeeCents,
+      roiGuaranteeMultiplier: settings.roiGuaranteeMultiplier,
+    },
+    performance: {
+      currency: metrics.reportingCurrency,
+      recoveredAmount: recovered,
+      estimatedFee: fee,
+      netRecovered,
+      deflections: deflectionCount,
+      deflectionFees,
+      totalFees,
+      roi,
+      roiGuaranteeMet: roi >= settings.roiGuaranteeMultiplier,
+      unconvertedCurrencies: metrics.unconvertedCurrencies,
+      byCurrency,
+    },
+  });
+});
+
+function getSubmissionReadiness(disputeId: string) {
+  const dispute = getDispute(disputeId);
+  if (!dispute) {
+    return { ready: false, reason: 'dispute_not_found' as const, priority: 0 };
+  }
+
+  const merchant = findMerchantById(dispute.merchantId);
+  const settings = merchant?.settings || defaultMerchantSettings();
+  const reasonAllowed = settings.autoSubmitReasons.length
+    ? settings.autoSubmitReasons.includes(dispute.reason)
+    : true;
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const delayWindowSec = (settings.submissionDelayMinutes || 0) * 60;
+  const isWithinDelayWindow = !!(
+    dispute.disputeCreatedAt &&
+    delayWindowSec > 0 &&
+    nowSec - dispute.disputeCreatedAt < delayWindowSec
+  );
+  const approval = approvalState(dispute, settings);
+
+  if (isDisputeClosed(dispute.status)) return { ready: false, reason: 'closed', priority: 0 };
+  if (dispute.submitted) return { ready: false, reason: 'already_submitted', priority: 0 };
+  if (merchant?.status === 'disconnected') return { ready: false, reason: 'merchant_disconnected', priority: 0 };
+  if (!settings.autoSubmitEnabled) return { ready: false, reason: 'auto_submit_disabled', priority: 20 };
+  if (!reasonAllowed) return { ready: false, reason: 'reason_not_allowed', priority: 25 };
+  if (approval.status === 'changes_requested') return { ready: false, reason: 'changes_requested', priority: 95 };
+  if (approval.required && approval.status !== 'approved') {
+    const reason = dispute.manualReviewRequired ? 'manual_review_required' : 'awaiting_approval';
+    return { ready: false, reason, priority: 95 };
+  }
+  if (isWithinDelayWindow) return { ready: false, reason: 'submission_delay_window_active', priority: 60 };
+  if ((dispute.evidenceScore || 0) < settings.minEvidenceScore) return { ready: false, reason: 'score_below_threshold', priority: 85 };
+
+  const dueBy = dispute.dueBy || 0;
+  const secondsToDue = dueBy ? dueBy - nowSec : undefined;
+  const dueUrgency = !secondsToDue
+    ? 50
+    : secondsToDue < 0
+      ? 100
+      : secondsToDue <= 4 * 60 * 60
+        ? 98
+        : secondsToDue <= 24 * 60 * 60
+          ? 90
+          : secondsToDue <= 48 * 60 * 60
+            ? 80
+            : 65;
+
+  // +1 per 50 units of the reporting currency, so JPY or KWD amounts rank like their USD value.
+  const value = majorValue(dispute.amount || 0, dispute.currency, reportingCurrencyOf(settings));
+  const amountUrgency = Math.min(25, Math.round(value / 50));
+  const priority = Math.min(100, dueUrgency + amountUrgency);
+
+  return { ready: true, reason: 'ready' as const, priority };
+}
+
+app.get('/api/disputes/queue', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const disputes = listDisputes(merchantId).filter((d) => !isDisputeClosed(d.status));
+
+  const queue = disputes
+    .map((d) => {
+      const readiness = getSubmissionReadiness(d.id);
+      return {
+        id: d.id,
+        merchantId: d.merchantId,
+        reason: d.reason,
+        status: d.status,
+        amount: d.amount,
+        currency: d.currency,
+        dueBy: d.dueBy,
+        evidenceScore: d.evidenceScore,
+        submitted: d.submitted,
+        deflected: d.deflected,
+        owner: d.owner,
+        workflowStatus: d.workflowStatus,
+        nextActionAt: d.nextActionAt,
+        approvalStatus: approvalState(d, settingsFor(d.merchantId)).status,
+        readiness: {
+          ...readiness,
+          visaCe3: d.ce3 && { eligible: d.ce3.eligible, note: d.ce3.note, checkedAt: d.ce3.checkedAt },
+        },
+      };
+    })
+    .sort((a, b) => b.readiness.priority - a.readiness.priority);
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const summary = {
+    totalOpen: queue.length,
+    ready: queue.filter((d) => d.readiness.ready).length,
+    manualReview: queue.filter((d) => d.readiness.reason === 'manual_review_required').length,
+    awaitingApproval: queue.filter((d) => d.readiness.reason === 'awaiting_approval').length,
+    changesRequested: queue.filter((d) => d.readiness.reason === 'changes_requested').length,
+    delayWindow: queue.filter((d) => d.readiness.reason === 'submission_delay_window_active').length,
+    blockedByScore: queue.filter((d) => d.readiness.reason === 'score_below_threshold').length,
+    blockedByReason: queue.filter((d) => d.readiness.reason === 'reason_not_allowed').length,
+    overdue: queue.filter((d) => d.dueBy && d.dueBy < nowSec).length,
+    dueIn48h: queue.filter((d) => d.dueBy && d.dueBy > nowSec && d.dueBy - nowSec <= 48 * 60 * 60).length,
+    unassigned: queue.filter((d) => !d.owner).length,
+    highPriorityUnassigned: queue.filter((d) => d.readiness.priority >= 90 && !d.owner).length,
+    visaCe3Qualified: queue.filter((d) => d.readiness.visaCe3?.eligible).length,
+  };
+
+  return res.json({ summary, queue });
+});
+
+app.get('/recommendations', requireRole('viewer'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const disputes = listDisputes(merchantId);
+  const merchant = merchantId ? findMerchantById(merchantId) : undefined;
+  const settings = merchant?.settings || defaultMerchantSettings();
+  const reporting = reportingCurrencyOf(settings);
+  const metrics = getMetrics(merchantId, reporting);
+  const recommendations: string[] = [];
+
+  if (merchantId) {
+    if (!settings.statementDescriptor) {
+      recommendations.push('Set a clear statement descriptor in merchant settings to reduce "unrecognized charge" disputes.');
+    }
+    if (!settings.supportEmail && !settings.supportPhone && !settings.supportUrl) {
+      recommendations.push('Add visible support contact channels (email/phone/portal) for receipt clarity and faster pre-dispute resolution.');
+    }
+  }
+
+  if (metrics.avgEvidenceScore < 75) {
+    recommendations.push('Increase evidence quality: add stronger onboarding, delivery, and support proofs in Evidence Profile.');
+  }
+  if (metrics.winRate < 40 && metrics.total >= 5) {
+    recommendations.push('Win rate is low: tighten reason-code playbooks and raise minimum evidence score before auto-submit.');
+  }
+
+  const weakReasons = Object.entries(metrics.byReason || {})
+    .filter(([, v]) => v.total >= 3)
+    .filter(([, v]) => (v.won / Math.max(1, v.total)) * 100 < 30)
+    .map(([reason]) => reason);
+  if (weakReasons.length) {
+    recommendations.push(
+      `Weak reason-code performance detected: ${weakReasons.join(', ')}. Consider disabling auto-submit for these (use Optimize Reasons).`,
+    );
+  }
+  const reviewQueue = disputes.filter((d) => d.manualReviewRequired && !d.submitted).length;
+  if (reviewQueue > 0) {
+    recommendations.push(`${reviewQueue} high-value disputes need manual review; process these first to avoid deadline misses.`);
+  }
+  const lowValueOpen = disputes.filter((d) => !d.submitted && !d.deflected && majorValue(d.amount, d.currency, reporting) <= 50 && !isDisputeClosed(d.status)).length;
+  if (lowValueOpen > 0) {
+    recommendations.push(`${lowValueOpen} low-value open disputes are candidates for inquiry deflection (proactive refund) to protect ratio and reduce ops load.`);
+  }
+
+  if ((settings.submissionDelayMinutes || 0) > 0) {
+    const nowSec = Math.floor(Date.now() / 1000);
+    const delayedQueue = disputes.filter(
+      (d) =>
+        !d.submitted &&
+        !isDisputeClosed(d.status) &&
+        d.disputeCreatedAt &&
+        nowSec - d.disputeCreatedAt < settings.submissionDelayMinutes * 60,
+    ).length;
+    if (delayedQueue > 0) {
+      recommendations.push(
+        `${delayedQueue} disputes are currently held by submission delay (${settings.submissionDelayMinutes}m) for internal review before auto-submit.`,
+      );
+    }
+  }
+  if (metrics.overdue > 0) {
+    recommendations.push(`${metrics.overdue} disputes are already overdue and unsubmitted. Trigger submission sweep + assign manual owner immediately.`);
+  }
+  if (metrics.dueSoon > 0) {
+    recommendations.push(`${metrics.dueSoon} disputes are due in <48h. Prioritize submissions or enable stricter auto-submit for safe reason codes.`);
+  }
+
+  // Counted network volumes replace the manually entered monthly transaction count once available.
+  const networkRatios = merchantId ? latestNetworkRatios(merchantId) : undefined;
+  if (networkRatios) {
+    for (const ratio of networkRatios) {
+      const level = ratio.reached || ratio.projected;
+      if (!level) continue;
+      const status = ratio.reached
+        ? `reached ${level.label} (${level.ratioPct}%)`
+        : `projected to reach ${level.label} (${level.ratioPct}%) by month end at ${ratio.projectedRatioPct}%`;
+      recommendations.push(
+        `${ratio.network} chargeback ratio is ${ratio.ratioPct}% (${ratio.disputes}/${ratio.transactions}) and has ${status}. Tighten fraud filters and issue proactive refunds on risky tickets.`,
+      );
+    }
+  } else if (settings.monthlyTransactionCount > 0) {
+    const ratioPct = Number(((metrics.monthlyDisputes / settings.monthlyTransactionCount) * 100).toFixed(2));
+    if (ratioPct >= settings.monthlyDisputeAlertThresholdPct) {
+      recommendations.push(
+        `Chargeback ratio alert: ${ratioPct}% this month (threshold ${settings.monthlyDisputeAlertThresholdPct}%). Tighten fraud filters and issue proactive refunds on risky tickets.`,
+      );
+    }
+  }
+
+  if (!recommendations.length) {
+    recommendations.push('System looks healthy. Next step: connect real fulfillment/support data sources to further improve win rates.');
+  }
+
+  return res.json({ recommendations });
+});
+
+function settingsFor(merchantId?: string) {
+  return findMerchantById(merchantId)?.settings || defaultMerchantSettings();
+}
+
+app.get('/disputes/:id/approval', requireRole('viewer'), (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({
+    approval: approvalState(dispute, settingsFor(dispute.merchantId)),
+    history: dispute.approvalHistory || [],
+  });
+});
+
+// Text fields a reviewer may rewrite; file fields go through the attachments endpoints.
+const evidenceEditSchema = z
+  .object({
+    access_activity_log: z.string(),
+    billing_address: z.string(),
+    cancellation_policy_disclosure: z.string(),
+    cancellation_rebuttal: z.string(),
+    customer_email_address: z.string(),
+    customer_name: z.string(),
+    customer_purchase_ip: z.string(),
+    duplicate_charge_explanation: z.string(),
+    product_description: z.string(),
+    refund_policy_disclosure: z.string(),
+    refund_refusal_explanation: z.string(),
+    service_date: z.string(),
+    shipping_address: z.string(),
+    shipping_carrier: z.string(),
+    shipping_date: z.string(),
+    shipping_tracking_number: z.string(),
+    uncategorized_text: z.string(),
+  })
+  .partial()
+  .strict();
+
+app.patch('/disputes/:id/evidence', requireRole('analyst'), (req, res) => {
+  const schema = z.object({ evidence: evidenceEditSchema, note: z.string().max(2000).optional() }).strict();
+  const parsed = schema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_evidence_edit', details: parsed.error.flatten() });
+
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  if (dispute.submitted) return res.status(409).json({ error: 'already_submitted' });
+  if (!dispute.currentEvidenceVersion) return res.status(409).json({ error: 'no_stored_evidence' });
+
+  const updated = editDisputeEvidence(dispute.id, parsed.data.evidence, {
+    keyId: req.principal!.keyId,
+    actor: actorOf(req),
+    note: parsed.data.note,
+  });
+  if (!updated) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({ dispute: updated, approval: approvalState(updated, settingsFor(updated.merchantId)) });
+});
+
+app.post('/disputes/:id/request-changes', requireRole('approver'), (req, res) => {
+  const parsed = z.object({ note: z.string().min(1).max(2000) }).safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'note_required' });
+
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  if (dispute.submitted) return res.status(409).json({ error: 'already_submitted' });
+  if (!dispute.currentEvidenceVersion) return res.status(409).json({ error: 'no_stored_evidence' });
+
+  const updated = addApprovalEvent(dispute.id, {
+    action: 'changes_requested',
+    keyId: req.principal!.keyId,
+    actor: actorOf(req),
+    note: parsed.data.note,
+  });
+  if (!updated) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({ approval: approvalState(updated, settingsFor(updated.merchantId)) });
+});
+
+app.post('/disputes/:id/approve', requireRole('approver'), (req, res) => {
+  const note = typeof req.body?.note === 'string' ? req.body.note.slice(0, 2000) : undefined;
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  if (dispute.submitted) return res.status(409).json({ error: 'already_submitted' });
+
+  const keyId = req.principal!.keyId;
+  const blocker = approvalBlocker(dispute, approvalState(dispute, settingsFor(dispute.merchantId)), keyId);
+  if (blocker) return res.status(blocker === 'maker_cannot_approve' ? 403 : 409).json({ error: blocker });
+
+  const updated = addApprovalEvent(dispute.id, { action: 'approved', keyId, actor: actorOf(req), note });
+  if (!updated) return res.status(404).json({ error: 'dispute_not_found' });
+  return res.json({ approval: approvalState(updated, settingsFor(updated.merchantId)) });
+});
+
+// Manual retry endpoint
+app.post('/jobs/run-submissions', requireRole('approver'), async (req, res) => {
+  await runAutoRetrySweep(req.principal?.merchantId);
+  return res.json({ ok: true });
+});
+
+app.post('/disputes/:id/retry-submit', requireRole('approver'), async (req, res) => {
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+
+  const out = await attemptSubmit(dispute.id, actorOf(req));
+  if (!out.ok && out.message !== 'already_submitted') {
+    return res.status(500).json({ error: 'submit_failed', message: out.message });
+  }
+  return res.json({ ok: true, message: out.message });
+});
+
+app.post('/disputes/:id/deflect', requireRole('approver'), async (req, res) => {
+  const body = z
+    .object({ amount: z.number().int().positive().optional(), dryRun: z.boolean().default(false) })
+    .safeParse(req.body || {});
+  if (!body.success) return res.status(400).json({ error: 'invalid_refund_request', details: body.error.flatten() });
+  const dispute = getDisputeFor(req, req.params.id);
+  if (!dispute) return res.status(404).json({ error: 'dispute_not_found' });
+  if (!dispute.chargeId) return res.status(400).json({ error: 'missing_charge_id' });
+  if (dispute.deflected) return res.json({ ok: true, message: 'already_deflected' });
+
+  const stripe = stripeFor(findMerchantById(dispute.merchantId));
+  if (!stripe) return res.status(409).json({ error: 'merchant_disconnected' });
+
+  try {
+    const out = await refundWithPolicy(stripe, {
+      key: `deflect:${dispute.id}`,
+      merchantId: dispute.merchantId,
+      settings: settingsFor(dispute.merchantId),
+      chargeId: dispute.chargeId,
+      dispute,
+      amount: body.data.amount,
+      currency: dispute.currency,
+      source: 'deflection',
+      actor: actorOf(req),
+      metadata: {
+        dispute_id: dispute.id,
+        source: 'autopilot_deflection',
+      },
+      dryRun: body.data.dryRun,
+    });
+    if (!out.decision.allowed) {
+      return res.status(409).json({ error: 'refund_blocked', reason: out.decision.reason, decision: out.decision });
+    }
+    if (!out.refund) return res.json({ ok: true, dryRun: true, decision: out.decision });
+    const refund = out.refund;
+
+    recordAudit({
+      merchantId: dispute.merchantId,
+      actor: actorOf(req),
+      action: 'refund.created',
+      entityType: 'dispute',
+      entityId: dispute.id,
+      diff: {
+        refund: {
+          before: null,
+          after: { id: refund.id, chargeId: dispute.chargeId, amount: refund.amount, currency: refund.currency, source: 'autopilot_deflection' },
+        },
+      },
+    });
+    markDeflected(dispute.id, `Proactive refund ${refund.id} issued before representment.`, actorOf(req));
+    return res.json({ ok: true, refundId: refund.id, amount: refund.amount, partial: out.decision.partial });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ error: 'deflection_failed', message: (err as Error).message, category: classifyStripeError(err) });
+  }
+});
+
+// Refund ledger and what is left of the merchant's refund budgets today and this month.
+app.get('/api/merchants/:merchantId/refunds', requireRole('viewer'), (req, res) => {
+  const merchant = findMerchantById(req.params.merchantId);
+  if (!merchant || !canAccessMerchant(req, merchant.id)) return res.status(404).json({ error: 'merchant_not_found' });
+  return res.json({
+    budget: refundBudget(merchant.id, merchant.settings),
+    dryRun: !!merchant.settings.refundDryRun,
+    refunds: listRefunds(merchant.id),
+  });
+});
+
+// Start Stripe OAuth (Connect)
+app.get('/auth/stripe/start', (req, res) => {
+  if (!env.STRIPE_CLIENT_ID) return res.status(400).send('Missing STRIPE_CLIENT_ID in environment');
+  const merchantName = typeof req.query.merchantName === 'string' ? req.query.merchantName : 'Merchant';
+  const state = Buffer.from(JSON.stringify({ merchantName, ts: Date.now() })).toString('base64url');
+  const redirectUri = `${env.APP_BASE_URL}/auth/stripe/callback`;
+  const url = `https://connect.stripe.com/oauth/authorize?response_type=code&client_id=${encodeURIComponent(
+    env.STRIPE_CLIENT_ID,
+  )}&scope=read_write&state=${encodeURIComponent(state)}&redirect_uri=${encodeURIComponent(redirectUri)}`;
+  res.redirect(url);
+});
+
+app.get('/auth/stripe/callback', async (req, res) => {
+  try {
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+    const stateRaw = typeof req.query.state === 'string' ? req.query.state : '';
+    if (!code) return res.status(400).send('Missing code');
+
+    const state = stateRaw
+      ? (JSON.parse(Buffer.from(stateRaw, 'base64url').toString('utf8')) as { merchantName?: string })
+      : {};
+
+    const tokenResp = await platformStripe().oauth.token({ grant_type: 'authorization_code', code });
+    const merchantId = tokenResp.stripe_user_id || `acct_unknown_${Date.now()}`;
+
+    upsertMerchant(
+      {
+        id: merchantId,
+        name: state.merchantName || merchantId,
+        stripeAccountId: tokenResp.stripe_user_id || merchantId,
+        stripeAccessToken: tokenResp.access_token || '',
+        status: 'connected',
+        disconnectedAt: undefined,
+        createdAt: new Date().toISOString(),
+        settings: defaultMerchantSettings(),
+        evidenceProfile: defaultEvidenceProfile(),
+      },
+      'stripe_connect',
+    );
+
+    return res.redirect('/portal.html?connected=1');
+  } catch (err) {
+    console.error('Stripe OAuth callback error', err);
+    return res.status(500).send('OAuth exchange failed');
+  }
+});
+
+async function attemptSubmit(disputeId: string, actor: string) {
+  const dispute = getDispute(disputeId);
+  if (!dispute) return { ok: false, message: 'dispute_not_found' };
+
+  const readiness = getSubmissionReadiness(disputeId);
+  if (!readiness.ready) return { ok: false, message: readiness.reason };
+
+  const stripe = stripeFor(findMerchantById(dispute.merchantId));
+  if (!stripe) return { ok: false, message: 'merchant_disconnected' };
+
+  // Resubmit the stored packet as-is so a retry never overwrites fields buildEvidencePackage wrote
+  // and Stripe ends up holding exactly the version we recorded.
+  const version = currentEvidence(dispute);
+  if (!version) return { ok: false, message: 'no_stored_evidence' };
+
+  try {
+    await stripe.disputes.update(dispute.id, { evidence: version.evidence, submit: true });
+    markSubmitted(dispute.id, actor, version.version);
+    updateDisputeWorkflow(dispute.id, { workflowStatus: 'submitted' }, actor);
+    addSubmissionAttempt(dispute.id, {
+      at: new Date().toISOString(),
+      success: true,
+      message: `Retry submitted evidence v${version.version}.`,
+    });
+    return { ok: true, message: 'submitted' };
+  } catch (err) {
+    const msg = (err as Error).message;
+    const category = classifyStripeError(err);
+    const at = new Date().toISOString();
+    const failed = addSubmissionAttempt(dispute.id, { at, success: false, message: msg, category });
+    if (failed) await notify(failed.merchantId, 'submission.failed', `${failed.id}:${at}`, disputeEventData(failed));
+    // Readiness rules saying no, revoked access, rejected evidence or a passed deadline won't change
+    // on retry; other Stripe failures might.
+    if (isPermanentStripeError(err)) return { ok: false, message: msg, category };
+    return { ok: false, message: msg, category, retryable: true };
+  }
+}
+
+function delayExpiry(dispute: DisputeRecord, settings: MerchantSettings) {
+  return new Date(((dispute.disputeCreatedAt || 0) + (settings.submissionDelayMinutes || 0) * 60 + 1) * 1000);
+}
+
+function scheduleSubmit(dispute: DisputeRecord, runAt: Date) {
+  return scheduleJob({
+    type: 'dispute.submit',
+    key: dispute.id,
+    runAt,
+    merchantId: dispute.merchantId,
+    payload: { disputeId: dispute.id },
+  });
+}
+
+// Puts a dispute's future work on the job queue: the auto-submit held back by the delay window,
+// and the reminder 48h before evidence is due.
+function scheduleDisputeJobs(dispute: DisputeRecord) {
+  if (dispute.submitted || isDisputeClosed(dispute.status)) return;
+  if (getSubmissionReadiness(dispute.id).reason === 'submission_delay_window_active') {
+    scheduleSubmit(dispute, delayExpiry(dispute, settingsFor(dispute.merchantId)));
+  }
+  if (dispute.dueBy) {
+    scheduleJob({
+      type: 'dispute.due_reminder',
+      key: `${dispute.id}:${dispute.dueBy}`,
+      runAt: new Date(Math.max(Date.now(), (dispute.dueBy - 48 * 60 * 60) * 1000)),
+      merchantId: dispute.merchantId,
+      payload: { disputeId: dispute.id, dueBy: dispute.dueBy },
+    });
+  }
+}
+
+// Open disputes that are ready to submit, minus those whose submit job already used up its retries.
+function queueReadySubmissions(merchantId?: string, now = new Date()) {
+  const ready = listDisputes(merchantId).filter(
+    (d) => getSubmissionReadiness(d.id).ready && getJob(`dispute.submit:${d.id}`)?.status !== 'failed',
+  );
+  return ready.map((d) => scheduleSubmit(d, now));
+}
+
+/** Queues every ready dispute for submission and runs those jobs now. */
+export async function runAutoRetrySweep(merchantId?: string) {
+  for (const job of queueReadySubmissions(merchantId)) {
+    const claimed = job && claimJob(job.id);
+    if (claimed) await runJob(claimed);
+  }
+}
+
+registerJobHandler('dispute.submit', async (job) => {
+  const disputeId = String(job.payload.disputeId);
+  const dispute = getDispute(disputeId);
+  if (dispute && getSubmissionReadiness(disputeId).reason === 'submission_delay_window_active') {
+    return { runAt: delayExpiry(dispute, settingsFor(dispute.merchantId)) };
+  }
+  const out = await attemptSubmit(disputeId, 'job_scheduler');
+  if (out.ok || out.message === 'already_submitted') return { message: out.message };
+  if ('retryable' in out) throw new Error(out.message);
+  return { cancel: true, message: out.message };
+});
+
+registerJobHandler('dispute.due_reminder', async (job) => {
+  const dispute = getDispute(String(job.payload.disputeId));
+  if (!dispute || dispute.submitted || isDisputeClosed(dispute.status)) {
+    return { cancel: true, message: 'no_longer_due' };
+  }
+  if (dispute.dueBy !== job.payload.dueBy) return { cancel: true, message: 'deadline_changed' };
+  const key = `${dispute.id}:${dispute.dueBy}`;
+  const sent = await notify(dispute.merchantId, 'dispute.due_soon', key, disputeEventData(dispute));
+  return { message: `${sent.length} notifications` };
+});
+
+registerJobHandler('submissions.sweep', async () => ({ message: `${queueReadySubmissions().length} queued` }));
+registerJobHandler('notifications.sweep', async () => runNotificationSweep());
+registerJobHandler('notification.send', async (job) => {
+  const { event, key, data } = job.payload as { event: NotificationEvent; key: string; data: Record<string, unknown> };
+  const sent = await notify(job.merchantId, event, key, data);
+  return { message: `${sent.length} notifications` };
+});
+registerJobHandler('ratio.monitor', async () => ({ message: `${(await runRatioMonitorSweep()).length} alerts` }));
+registerJobHandler('alerts.reconcile', async () => {
+  const { deflected, disputed, duplicates } = runAlertReconciliation();
+  return { message: `${deflected} deflected, ${disputed} disputed, ${duplicates} duplicates` };
+});
+
+registerJobHandler('invoices.close', async () => ({ message: `${runBillingClose().length} invoices drafted` }));
+
+/** Drafts last period's invoice for every merchant that doesn't have one yet. */
+export function runBillingClose(now = new Date()) {
+  return listMerchants().flatMap((merchant) => closeBillingPeriod(merchant, now) || []);
+}
+
+/** Reconciles every merchant's alerts against the disputes that have arrived. */
+export function runAlertReconciliation(now = new Date()) {
+  const total: ReconcileSummary = { checked: 0, deflected: 0, disputed: 0, duplicates: 0, voided: 0 };
+  for (const merchant of listMerchants()) {
+    const summary = reconcileAlerts(merchant.id, merchant.settings, now);
+    for (const key of Object.keys(total) as (keyof ReconcileSummary)[]) total[key] += summary[key];
+  }
+  return total;
+}
+
+async function notifyRatioAlerts(alerts: RatioAlertRecord[]) {
+  for (const alert of alerts) {
+    await notify(alert.merchantId, 'ratio.threshold_crossed', alert.id, ratioAlertEventData(alert));
+  }
+}
+
+// Warns once per deadline about unsubmitted disputes due within 48h, then retries failed deliveries.
+export async function runNotificationSweep(now = new Date()) {
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const dueSoon = listDisputes().filter(
+    (d) =>
+      !d.submitted &&
+      !isDisputeClosed(d.status) &&
+      d.dueBy &&
+      d.dueBy > nowSec &&
+      d.dueBy - nowSec <= 48 * 60 * 60,
+  );
+  for (const d of dueSoon) await notify(d.merchantId, 'dispute.due_soon', `${d.id}:${d.dueBy}`, disputeEventData(d));
+  await retryDueDeliveries(now);
+}
+
+// Refreshes transaction volumes for every connected merchant and returns the alerts that fired.
+export async function runRatioMonitorSweep(now = new Date()) {
+  const fired: RatioAlertRecord[] = [];
+  for (const merchant of listMerchants()) {
+    const stripe = stripeFor(merchant);
+    if (!stripe) continue;
+    try {
+      const { alerts } = await monitorNetworkRatios(stripe, merchant.id, now);
+      await notifyRatioAlerts(alerts);
+      fired.push(...alerts);
+    } catch (err) {
+      console.error(`ratio monitor failed for ${merchant.id}`, err);
+    }
+  }
+  return fired;
+}
+
+// Rebuilds the evidence for a dispute from the merchant profile, charge details and attachments,
+// pushes it to Stripe and auto-submits when the merchant's rules allow it.
+async function syncDisputeEvidence(
+  dispute: Stripe.Dispute,
+  merchant: MerchantRecord | undefined,
+  stripe: Stripe,
+  stripeAccountId: string | undefined,
+  actor: string,
+  event?: Stripe.Event,
+) {
+  const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id;
+
+  let customerEmail = '';
+  let customerName = '';
+  let chargeStatementDescriptor = '';
+  const charge = chargeId ? await stripe.charges.retrieve(chargeId) : undefined;
+  if (charge) {
+    customerEmail = charge.billing_details?.email || '';
+    customerName = charge.billing_details?.name || '';
+    chargeStatementDescriptor =
+      charge.calculated_statement_descriptor ||
+      charge.statement_descriptor ||
+      charge.statement_descriptor_suffix ||
+      '';
+  }
+
+  // Profile texts may carry placeholders; fill them from this dispute and charge.
+  const rawProfile = merchant?.evidenceProfile || defaultEvidenceProfile();
+  const templateContext = buildTemplateContext({
+    dispute: { ...dispute, dueBy: dispute.evidence_details?.due_by ?? undefined },
+    charge,
+    merchant,
+    profile: rawProfile,
+  });
+  const { profile, warnings: templateWarnings } = renderEvidenceProfile(rawProfile, templateContext);
+  const evidence = evidenceFilesFor({ id: dispute.id, merchantId: merchant?.id });
+  const ce3 =
+    charge && dispute.reason === 'fraudulent'
+      ? await assessCe3(stripe, dispute, charge, {
+          productDescription: profile.productDescriptionTemplate,
+          merchandiseOrServices: profile.businessType === 'info_coaching' ? 'services' : 'merchandise',
+        })
+      : undefined;
+  const built = buildEvidencePackage({
+    dispute,
+    customerEmail,
+    customerName,
+    productDescription: profile.productDescriptionTemplate,
+    termsUrl: profile.termsUrl,
+    refundPolicyUrl: profile.refundPolicyUrl,
+    cancellationPolicyUrl: profile.cancellationPolicyUrl,
+    accessLog: profile.deliveryProofTemplate,
+    supportInteraction: `${profile.supportPolicyTemplate || ''}\n${profile.onboardingProofTemplate || ''}`.trim(),
+    statementDescriptor: chargeStatementDescriptor || merchant?.settings.statementDescriptor,
+    supportEmail: merchant?.settings.supportEmail,
+    supportPhone: merchant?.settings.supportPhone,
+    supportUrl: merchant?.settings.supportUrl,
+    files: evidence.files,
+    scoringOverrides: merchant?.settings.scoringOverrides,
+    visaCe3: ce3?.evidence,
+  });
+
+  if (ce3) built.summary.push(`Visa CE 3.0: ${ce3.assessment.note}`);
+  if (templateWarnings.length) built.summary.push(`Template warnings: ${templateWarnings.join(' ')}`);
+
+  if (evidence.totalBytes > MAX_EVIDENCE_BYTES) {
+    built.summary.push('Attached files exceed the 4.5 MB Stripe accepts per dispute; remove or shrink some to submit.');
+  }
+
+  const settings = merchant?.settings || defaultMerchantSettings();
+  if (settings.statementDescriptor) {
+    if (!chargeStatementDescriptor) {
+      built.summary.push('No statement descriptor detected on charge. Configure descriptor to reduce unrecognized transaction disputes.');
+    } else if (!chargeStatementDescriptor.toLowerCase().includes(settings.statementDescriptor.toLowerCase())) {
+      built.summary.push(
+        `Descriptor mismatch: expected similar to "${settings.statementDescriptor}", got "${chargeStatementDescriptor}".`,
+      );
+    }
+  }
+
+  const reasonAllowed = settings.autoSubmitReasons.length
+    ? settings.autoSubmitReasons.includes(dispute.reason)
+    : true;
+  const manualReviewRequired = dispute.amount >= settings.manualReviewAmountThreshold;
+  const nowSec = Math.floor(Date.now() / 1000);
+  const delayWindowSec = (settings.submissionDelayMinutes || 0) * 60;
+  const delaySatisfied = delayWindowSec <= 0 || nowSec - dispute.created >= delayWindowSec;
+
+  const existing = getDispute(dispute.id);
+  const draft = existing?.evidenceDraft;
+  if (draft) built.payload.evidence = applyNarrative(built.payload.evidence, draft.narrativeField, draft.narrative);
+  built.payload.evidence = { ...built.payload.evidence, ...existing?.evidenceEdits };
+  const payload = built.payload.evidence;
+  const evidenceVersions = withEvidenceVersion(existing?.evidenceVersions, payload, built.score, actor);
+  const current = evidenceVersions[evidenceVersions.length - 1];
+
+  // Disputes that need sign-off only go out automatically once this exact version is approved.
+  const approval = approvalState(
+    {
+      amount: dispute.amount,
+      manualReviewRequired,
+      currentEvidenceVersion: current.version,
+      approvalHistory: existing?.approvalHistory,
+    },
+    settings,
+  );
+  const shouldAutoSubmit =
+    settings.autoSubmitEnabled &&
+    reasonAllowed &&
+    built.score >= settings.minEvidenceScore &&
+    (approval.status === 'approved' || (!approval.required && approval.status !== 'changes_requested')) &&
+    delaySatisfied &&
+    evidence.totalBytes <= MAX_EVIDENCE_BYTES;
+
+  built.payload.submit = shouldAutoSubmit;
+
+  await stripe.disputes.update(dispute.id, built.payload);
+  current.sentAt = new Date().toISOString();
+
+  upsertDispute(
+    {
+      id: dispute.id,
+      merchantId: merchant?.id,
+      stripeAccountId,
+      chargeId,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      ...disputeLifecycle(existing, dispute, event),
+      dueBy: dispute.evidence_details?.due_by ?? undefined,
+      disputeCreatedAt: existing?.disputeCreatedAt ?? dispute.created,
+      network:
+        dispute.payment_method_details?.card?.brand || charge?.payment_method_details?.card?.brand || existing?.network,
+      updatedAt: new Date().toISOString(),
+      submitted: shouldAutoSubmit || !!existing?.submitted,
+      deflected: existing?.deflected,
+      deflectionReason: existing?.deflectionReason,
+      deflectedAt: existing?.deflectedAt,
+      evidenceScore: built.score,
+      manualReviewRequired,
+      evidenceSummary: built.summary,
+      scoreBreakdown: built.breakdown,
+      ce3: ce3?.assessment ?? existing?.ce3,
+      evidenceVersions,
+      currentEvidenceVersion: current.version,
+      owner: existing?.owner,
+      workflowStatus:
+        existing?.workflowStatus ||
+        (shouldAutoSubmit ? 'submitted' : manualReviewRequired ? 'in_progress' : 'new'),
+      nextActionAt: existing?.nextActionAt,
+      internalNotes: existing?.internalNotes,
+      submissionAttempts: [
+        ...(existing?.submissionAttempts || []),
+        {
+          at: new Date().toISOString(),
+          success: true,
+          message: shouldAutoSubmit ? 'Auto-submitted successfully.' : 'Evidence updated; pending review.',
+        },
+      ].slice(-20),
+    },
+    actor,
+  );
+
+  if (shouldAutoSubmit) markSubmitted(dispute.id, actor, current.version);
+  const record = getDispute(dispute.id);
+  if (record) scheduleDisputeJobs(record);
+}
+
+// Status and balance changes that leave evidence alone: submitted evidence under review, closures and
+// funds withdrawn or reinstated.
+function recordDisputeState(
+  dispute: Stripe.Dispute,
+  event: Stripe.Event,
+  merchant: MerchantRecord | undefined,
+  stripeAccountId: string | undefined,
+) {
+  const existing = getDispute(dispute.id);
+  const lifecycle = disputeLifecycle(existing, dispute, event);
+  const closed = isDisputeClosed(lifecycle.status);
+  const submitted = !acceptsEvidence(lifecycle.status) || (existing?.submitted ?? false);
+  upsertDispute(
+    {
+      id: dispute.id,
+      merchantId: existing?.merchantId ?? merchant?.id,
+      stripeAccountId,
+      chargeId: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      ...lifecycle,
+      dueBy: dispute.evidence_details?.due_by ?? undefined,
+      disputeCreatedAt: existing?.disputeCreatedAt ?? dispute.created,
+      network: dispute.payment_method_details?.card?.brand || existing?.network,
+      updatedAt: new Date().toISOString(),
+      submitted,
+      deflected: existing?.deflected,
+      deflectionReason: existing?.deflectionReason,
+      deflectedAt: existing?.deflectedAt,
+      evidenceScore: existing?.evidenceScore ?? 0,
+      manualReviewRequired: existing?.manualReviewRequired ?? false,
+      evidenceSummary: existing?.evidenceSummary ?? [],
+      owner: existing?.owner,
+      workflowStatus: closed ? 'closed' : submitted ? 'submitted' : existing?.workflowStatus || 'new',
+      nextActionAt: existing?.nextActionAt,
+      internalNotes: existing?.internalNotes,
+      submissionAttempts: existing?.submissionAttempts ?? [],
+    },
+    'stripe_webhook',
+  );
+  return getDispute(dispute.id);
+}
+
+// Applies one Stripe event to local state. Throws on failure so the ledger records the error.
+async function processStripeEvent(event: Stripe.Event) {
+  const stripeAccountId = event.account;
+  const merchant = findMerchantByStripeAccountId(stripeAccountId);
+
+  if (event.type === 'account.application.deauthorized') {
+    if (merchant) disconnectMerchant(merchant.id, 'stripe_webhook');
+    return;
+  }
+
+  const stripeForMerchant = stripeFor(merchant);
+  if (!stripeForMerchant) return;
+
+  if (event.type === 'charge.dispute.created' || event.type === 'charge.dispute.updated') {
+    const dispute = event.data.object as Stripe.Dispute;
+    // Stripe rejects evidence once it has been submitted or the dispute has closed, so those updates only
+    // add to the history.
+    if (acceptsEvidence(dispute.status) && !getDispute(dispute.id)?.submitted) {
+      await syncDisputeEvidence(dispute, merchant, stripeForMerchant, stripeAccountId, 'stripe_webhook', event);
+    } else {
+      recordDisputeState(dispute, event, merchant, stripeAccountId);
+    }
+    const record = getDispute(dispute.id);
+    if (record && event.type === 'charge.dispute.created') {
+      queueNotification(record.merchantId, 'dispute.created', record.id, disputeEventData(record));
+    }
+    if (record?.manualReviewRequired && !record.submitted) {
+      queueNotification(record.merchantId, 'dispute.manual_review', record.id, disputeEventData(record));
+    }
+  }
+
+  if (event.type === 'charge.dispute.closed') {
+    const closed = recordDisputeState(event.data.object as Stripe.Dispute, event, merchant, stripeAccountId);
+    if (closed) queueNotification(closed.merchantId, 'dispute.closed', closed.id, disputeEventData(closed));
+  }
+
+  if (event.type === 'charge.dispute.funds_withdrawn' || event.type === 'charge.dispute.funds_reinstated') {
+    recordDisputeState(event.data.object as Stripe.Dispute, event, merchant, stripeAccountId);
+  }
+
+  if (event.type === 'radar.early_fraud_warning.created' || event.type === 'radar.early_fraud_warning.updated') {
+    const warning = event.data.object as Stripe.Radar.EarlyFraudWarning;
+    if (merchant) await ingestEarlyFraudWarning(stripeForMerchant, merchant, warning);
+  }
+}
+
+app.post('/webhooks/stripe', async (req, res) => {
+  const sig = req.header('stripe-signature');
+  if (!sig) return res.status(400).send('Missing stripe-signature');
+
+  let event: Stripe.Event;
+  try {
+    event = Stripe.webhooks.constructEvent(req.body, sig, env.STRIPE_WEBHOOK_SECRET);
+  } catch (err) {
+    return res.status(400).send(`Webhook Error: ${(err as Error).message}`);
+  }
+
+  const merchant = findMerchantByStripeAccountId(event.account);
+  const claim = claimWebhookEvent(event, merchant?.id);
+  if (claim === 'processed') return res.json({ received: true, duplicate: true });
+  // Another delivery is still working on it; a non-2xx makes Stripe retry in case that one fails.
+  if (claim === 'in_flight') return res.status(409).json({ error: 'event_in_progress' });
+
+  try {
+    await processStripeEvent(event);
+    markWebhookEventProcessed(event.id);
+    return res.json({ received: true });
+  } catch (err) {
+    console.error('Webhook handler error', err);
+    markWebhookEventFailed(event.id, (err as Error).message);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+app.get('/api/jobs', requireRole('admin'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const status = z
+    .enum(['scheduled', 'running', 'succeeded', 'failed', 'cancelled'])
+    .optional()
+    .safeParse(req.query.status);
+  if (!status.success) return res.status(400).json({ error: 'invalid_status' });
+  const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+  return res.json({ jobs: listJobs(merchantId, { status: status.data, type }) });
+});
+
+function jobFor(req: express.Request) {
+  const job = getJob(req.params.id);
+  return job && canAccessMerchant(req, job.merchantId) ? job : undefined;
+}
+
+app.get('/api/jobs/:id', requireRole('admin'), (req, res) => {
+  const job = jobFor(req);
+  if (!job) return res.status(404).json({ error: 'job_not_found' });
+  return res.json({ job });
+});
+
+// Runs a job now, e.g. a submission that used up its retries once the cause is fixed.
+app.post('/api/jobs/:id/run', requireRole('admin'), async (req, res) => {
+  const job = jobFor(req);
+  if (!job) return res.status(404).json({ error: 'job_not_found' });
+  const claimed = claimJob(job.id);
+  if (!claimed) return res.status(409).json({ error: 'job_running' });
+  return res.json({ job: await runJob(claimed) });
+});
+
+app.post('/api/jobs/:id/cancel', requireRole('admin'), (req, res) => {
+  const job = jobFor(req);
+  if (!job) return res.status(404).json({ error: 'job_not_found' });
+  if (job.status !== 'scheduled') return res.status(409).json({ error: 'job_not_scheduled' });
+  return res.json({ job: cancelJob(job.id) });
+});
+
+// Circuit breaker state per connected account, as seen by this instance.
+app.get('/api/stripe-health', requireRole('admin'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const account = merchantId ? findMerchantById(merchantId)?.stripeAccountId : undefined;
+  const accounts = stripeAccountHealth().filter((a) => !merchantId || a.account === account);
+  return res.json({ accounts });
+});
+
+app.get('/api/webhook-events', requireRole('admin'), (req, res) => {
+  const { merchantId, forbidden } = requestedMerchant(req);
+  if (forbidden) return res.status(403).json({ error: 'merchant_forbidden' });
+  const status = z.enum(['received', 'processed', 'failed']).optional().safeParse(req.query.status);
+  if (!status.success) return res.status(400).json({ error: 'invalid_status' });
+  const events = listWebhookEvents({ merchantId, status: status.data }).map(({ payload: _payload, ...rest }) => rest);
+  return res.json({ events });
+});
+
+app.post('/api/webhook-events/:id/replay', requireRole('admin'), async (req, res) => {
+  const stored = getWebhookEvent(req.params.id);
+  if (!stored || !canAccessMerchant(req, stored.merchantId)) {
+    return res.status(404).json({ error: 'webhook_event_not_found' });
+  }
+
+  beginWebhookReplay(stored.id);
+  try {
+    await processStripeEvent(stored.payload as Stripe.Event);
+    return res.json({ ok: true, event: markWebhookEventProcessed(stored.id) });
+  } catch (err) {
+    const message = (err as Error).message;
+    markWebhookEventFailed(stored.id, message);
+    return res.status(500).json({ error: 'replay_failed', message });
+  }
+});
@@ -0,0 +1,135 @@
+import { recordAudit } from './audit';
+import { reportingCurrencyOf } from './currency';
+import { getStore } from './storage';
+import type { AlertOutcome, AlertRecord, DeflectionChargeRecord, MerchantSettings } from './types';
+
+// A chargeback an alert failed to stop normally lands within days of it. A refunded alert with no
+// dispute on its charge after this long counts as a deflection and is billed.
+export const DEFLECTION_CONFIRM_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReconcileSummary = {
+  checked: number;
+  deflected: number;
+  disputed: number;
+  duplicates: number;
+  voided: number;
+};
+
+// Once a dispute has arrived, or another alert came first, nothing later changes the outcome.
+const FINAL: AlertOutcome[] = ['dispute_arrived_anyway', 'duplicate'];
+
+export function listDeflectionCharges(merchantId?: string) {
+  return getStore()
+    .deflectionCharges.list(merchantId)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+/** Count and fees of billable deflections per currency. */
+export function deflectionTotals(merchantId?: string) {
+  const totals: Record<string, { count: number; fees: number }> = {};
+  for (const charge of getStore().deflectionCharges.list(merchantId)) {
+    if (charge.status !== 'billable') continue;
+    const total = (totals[charge.currency] ||= { count: 0, fees: 0 });
+    total.count += 1;
+    total.fees += charge.fee;
+  }
+  return totals;
+}
+
+function settle(alert: AlertRecord, outcome: AlertOutcome, now: Date, disputeId?: string) {
+  getStore().alerts.put({ ...alert, outcome, outcomeDisputeId: disputeId, outcomeAt: now.toISOString() });
+}
+
+function bill(alert: AlertRecord & { chargeId: string }, settings: MerchantSettings, now: Date) {
+  const { deflectionCharges } = getStore();
+  if (deflectionCharges.get(alert.id)) return;
+  const charge: DeflectionChargeRecord = {
+    id: alert.id,
+    merchantId: alert.merchantId,
+    chargeId: alert.chargeId,
+    source: alert.source,
+    fee: settings.alertDeflectionFeeCents,
+    currency: reportingCurrencyOf(settings).currency,
+    status: 'billable',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  deflectionCharges.put(charge);
+  recordAudit({
+    merchantId: alert.merchantId,
+    actor: 'alert_reconciliation',
+    action: 'deflection.billed',
+    entityType: 'charge',
+    entityId: alert.chargeId,
+    diff: { deflectionFee: { before: null, after: { alertId: alert.id, fee: charge.fee, currency: charge.currency } } },
+  });
+}
+
+function voidCharge(alert: AlertRecord & { chargeId: string }, disputeId: string, now: Date) {
+  const { deflectionCharges } = getStore();
+  const charge = deflectionCharges.get(alert.id);
+  if (charge?.status !== 'billable') return false;
+  deflectionCharges.put({
+    ...charge,
+    status: 'voided',
+    voidedReason: `dispute_arrived:${disputeId}`,
+    updatedAt: now.toISOString(),
+  });
+  recordAudit({
+    merchantId: alert.merchantId,
+    actor: 'alert_reconciliation',
+    action: 'deflection.voided',
+    entityType: 'charge',
+    entityId: alert.chargeId,
+    diff: { deflectionFee: { before: 'billable', after: 'voided' } },
+  });
+  return true;
+}
+
+/**
+ * Settles the merchant's alerts against the disputes that arrived since. The first alert on a
+ * charge is the one that counts; later alerts on it, from any provider, are `duplicate`. A
+ * chargeback on the charge (an inquiry doesn't count; deflecting those is what alerts are for)
+ * makes the alert `dispute_arrived_anyway` and voids its fee. A refunded or network-resolved
+ * alert with no chargeback after DEFLECTION_CONFIRM_DAYS is `deflected_successfully` and billed
+ * `alertDeflectionFeeCents` once. Alerts that weren't refunded stay open until a chargeback
+ * arrives.
+ */
+export function reconcileAlerts(merchantId: string, settings: MerchantSettings, now = new Date()) {
+  const { alerts, disputes } = getStore();
+  const summary: ReconcileSummary = { checked: 0, deflected: 0, disputed: 0, duplicates: 0, voided: 0 };
+  const confirmedBefore = now.getTime() - DEFLECTION_CONFIRM_DAYS * DAY_MS;
+  const seen = new Set<string>();
+  const ordered = alerts.list(merchantId).sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+
+  for (const alert of ordered) {
+    if (!alert.chargeId) continue;
+    const first = !seen.has(alert.chargeId) && !alert.duplicateOf;
+    seen.add(alert.chargeId);
+    if (alert.outcome && FINAL.includes(alert.outcome)) continue;
+    const withCharge = alert as AlertRecord & { chargeId: string };
+    summary.checked += 1;
+
+    getStore().transaction(() => {
+      if (!first) {
+        settle(alert, 'duplicate', now);
+        summary.duplicates += 1;
+        return;
+      }
+      const dispute = disputes.find({ chargeId: alert.chargeId }).find((d) => !d.status.startsWith('warning_'));
+      if (dispute) {
+        settle(alert, 'dispute_arrived_anyway', now, dispute.id);
+        if (voidCharge(withCharge, dispute.id, now)) summary.voided += 1;
+        summary.disputed += 1;
+        return;
+      }
+      if (alert.outcome || !(alert.refunded || alert.resolvedByNetwork)) return;
+      if (Date.parse(alert.createdAt) > confirmedBefore) return;
+      settle(alert, 'deflected_successfully', now);
+      bill(withCharge, settings, now);
+      summary.deflected += 1;
+    });
+  }
+  return summary;
+}
@@ -0,0 +1,320 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type Stripe from 'stripe';
+import { z } from 'zod';
+import { diffRecords, recordAudit } from './audit';
+import { fromMajorUnits, minorUnitDigits, toMajorUnits } from './currency';
+import { decryptSecret, encryptSecret } from './secrets';
+import { getStore } from './storage';
+import type { AlertAcknowledgement, AlertProviderConfigRecord, AlertProviderName, AlertRecord } from './types';
+
+export const alertProviderNames: AlertProviderName[] = ['verifi', 'ethoca'];
+
+export const VERIFI_SIGNATURE_HEADER = 'x-verifi-signature';
+export const VERIFI_TIMESTAMP_HEADER = 'x-verifi-timestamp';
+export const ETHOCA_KEY_HEADER = 'x-ethoca-api-key';
+// Verifi signatures older than this are rejected, so a captured request can't be replayed later.
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// How far either side of the alerted transaction time a charge search looks.
+const MATCH_WINDOW_SECONDS = 3 * 24 * 60 * 60;
+
+/** One alert from any provider, in the fields ingestion needs. */
+export type InboundAlert = {
+  source: AlertProviderName;
+  externalAlertId: string;
+  alertType: string;
+  /** Minor units. */
+  amount: number;
+  currency: string;
+  /** Merchant reference echoed back by the provider: a Stripe charge or PaymentIntent id when set at checkout. */
+  reference?: string;
+  cardLast4?: string;
+  /** Unix seconds. */
+  transactionAt?: number;
+  arn?: string;
+  resolvedByNetwork: boolean;
+  /** False when the provider only informs us and a refund is no longer ours to make. */
+  refundable: boolean;
+};
+
+export type AlertProviderResult = {
+  alert: InboundAlert;
+  ack: AlertAcknowledgement;
+  refundId?: string;
+  amount?: number;
+};
+
+type AlertProvider = {
+  verify(headers: IncomingHttpHeaders, body: Buffer, secret: string, now: Date): boolean;
+  /** Throws a ZodError for payloads that don't match the provider's format. */
+  parse(body: unknown): InboundAlert[];
+  /** The response body the provider expects for the alerts in one request. */
+  acknowledge(results: AlertProviderResult[]): unknown;
+};
+
+function header(headers: IncomingHttpHeaders, name: string) {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Compares digests so neither the length nor the content of the secret leaks through timing.
+function safeEqual(a: string, b: string) {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+const seconds = (iso?: string) =>
+  iso && !Number.isNaN(Date.parse(iso)) ? Math.floor(Date.parse(iso) / 1000) : undefined;
+
+/** `hex(HMAC-SHA256(secret, "<timestamp>.<raw body>"))`, sent in x-verifi-signature. */
+export function signVerifiPayload(secret: string, body: string, timestamp: number) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Verifi posts one case per request. RDR cases arrive already decided by the merchant's RDR
+// rules: RESOLVED means the issuer credited the cardholder and the merchant is debited, so a
+// Stripe refund would pay twice; any other status goes on to a chargeback. CDRN cases leave the
+// refund to the merchant.
+const verifiCase = z.object({
+  eventType: z.enum(['RDR', 'CDRN']),
+  caseId: z.string().min(1),
+  caseStatus: z.string().optional(),
+  merchantOrderId: z.string().optional(),
+  reasonCode: z.string().optional(),
+  transaction: z.object({
+    amount: z.string().regex(/^\d+(\.\d+)?$/),
+    currency: z.string().length(3),
+    date: z.string().optional(),
+    cardLast4: z
+      .string()
+      .regex(/^\d{4}$/)
+      .optional(),
+    arn: z.string().optional(),
+  }),
+});
+
+const verifiResponses: Record<AlertAcknowledgement['outcome'], string> = {
+  refunded: 'REFUNDED',
+  declined: 'DECLINED',
+  already_disputed: 'ALREADY_DISPUTED',
+  already_refunded: 'ALREADY_REFUNDED',
+  resolved_by_network: 'ACKNOWLEDGED',
+};
+
+const verifi: AlertProvider = {
+  verify(headers, body, secret, now) {
+    const signature = header(headers, VERIFI_SIGNATURE_HEADER);
+    const timestamp = Number(header(headers, VERIFI_TIMESTAMP_HEADER));
+    if (!signature || !Number.isFinite(timestamp)) return false;
+    if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+    return safeEqual(signature, signVerifiPayload(secret, body.toString('utf8'), timestamp));
+  },
+  parse(body) {
+    const c = verifiCase.parse(body);
+    const currency = c.transaction.currency.toLowerCase();
+    const resolved = c.eventType === 'RDR' && c.caseStatus?.toUpperCase() === 'RESOLVED';
+    return [
+      {
+        source: 'verifi',
+        externalAlertId: c.caseId,
+        alertType: c.eventType.toLowerCase(),
+        amount: fromMajorUnits(Number(c.transaction.amount), currency),
+        currency,
+        reference: c.merchantOrderId,
+        cardLast4: c.transaction.cardLast4,
+        transactionAt: seconds(c.transaction.date),
+        arn: c.transaction.arn,
+        resolvedByNetwork: resolved,
+        refundable: c.eventType === 'CDRN',
+      },
+    ];
+  },
+  acknowledge([result]) {
+    const { alert, ack } = result;
+    return {
+      caseId: alert.externalAlertId,
+      response: verifiResponses[ack.outcome],
+      reason: ack.reason,
+      refund: result.refundId
+        ? {
+            reference: result.refundId,
+            amount: toMajorUnits(result.amount ?? alert.amount, alert.currency).toFixed(
+              minorUnitDigits(alert.currency),
+            ),
+            currency: alert.currency.toUpperCase(),
+          }
+        : undefined,
+    };
+  },
+};
+
+// Ethoca batches alerts and authenticates with a shared API key. Amounts are in major units.
+const ethocaAlert = z.object({
+  alertId: z.string().min(1),
+  alertType: z.string().min(1),
+  amount: z.number().positive(),
+  currency: z.string().length(3),
+  transactionTimestamp: z.string().optional(),
+  cardNumber: z.string().optional(),
+  merchantReference: z.string().optional(),
+  arn: z.string().optional(),
+});
+const ethocaBatch = z.object({ alerts: z.array(ethocaAlert).min(1).max(100) });
+
+const ethocaOutcomes: Record<AlertAcknowledgement['outcome'], string> = {
+  refunded: 'RESOLVED',
+  declined: 'MISSED',
+  already_disputed: 'UNRESOLVED_DISPUTE',
+  already_refunded: 'PREVIOUSLY_REFUNDED',
+  resolved_by_network: 'RESOLVED',
+};
+
+const ethoca: AlertProvider = {
+  verify(headers, _body, secret) {
+    const key = header(headers, ETHOCA_KEY_HEADER);
+    return !!key && safeEqual(key, secret);
+  },
+  parse(body) {
+    return ethocaBatch.parse(body).alerts.map((a) => {
+      const currency = a.currency.toLowerCase();
+      const last4 = a.cardNumber?.replace(/\D/g, '').slice(-4);
+      return {
+        source: 'ethoca' as const,
+        externalAlertId: a.alertId,
+        alertType: a.alertType.toLowerCase(),
+        amount: fromMajorUnits(a.amount, currency),
+        currency,
+        reference: a.merchantReference,
+        cardLast4: last4?.length === 4 ? last4 : undefined,
+        transactionAt: seconds(a.transactionTimestamp),
+        arn: a.arn,
+        resolvedByNetwork: false,
+        refundable: true,
+      };
+    });
+  },
+  acknowledge(results) {
+    return {
+      responses: results.map(({ alert, ack, refundId, amount }) => ({
+        alertId: alert.externalAlertId,
+        outcome: ack.reason === 'charge_not_found' ? 'NOTFOUND' : ethocaOutcomes[ack.outcome],
+        refundStatus: refundId || ack.outcome === 'already_refunded' ? 'REFUNDED' : 'NOT_REFUNDED',
+        amountRefunded: refundId ? toMajorUnits(amount ?? alert.amount, alert.currency) : undefined,
+        comments: ack.reason,
+      })),
+    };
+  },
+};
+
+export const alertProviders: Record<AlertProviderName, AlertProvider> = { verifi, ethoca };
+
+/**
+ * Finds the Stripe charge an alert is about: the merchant reference when it is a charge or
+ * PaymentIntent id, otherwise the only charge with the same amount, currency and card last 4
+ * within three days of the transaction. Undefined when there is no single match.
+ */
+export async function matchAlertCharge(stripe: Stripe, alert: InboundAlert) {
+  const reference = alert.reference || '';
+  if (/^(ch|py)_/.test(reference)) return reference;
+  if (reference.startsWith('pi_')) {
+    const intent = await stripe.paymentIntents.retrieve(reference);
+    const charge = intent.latest_charge;
+    return typeof charge === 'string' ? charge : charge?.id;
+  }
+  if (!alert.cardLast4 || !alert.transactionAt) return undefined;
+  const query = [
+    `amount:${alert.amount}`,
+    `currency:'${alert.currency}'`,
+    `payment_method_details.card.last4:'${alert.cardLast4}'`,
+    `created>=${alert.transactionAt - MATCH_WINDOW_SECONDS}`,
+    `created<=${alert.transactionAt + MATCH_WINDOW_SECONDS}`,
+  ].join(' AND ');
+  const { data } = await stripe.charges.search({ query, limit: 2 });
+  return data.length === 1 ? data[0].id : undefined;
+}
+
+export function toPublicAlertProvider(config: AlertProviderConfigRecord) {
+  const { secret: _secret, ...rest } = config;
+  return rest;
+}
+
+export function getAlertProvider(merchantId: string, provider: AlertProviderName) {
+  return getStore().alertProviders.get(`${merchantId}:${provider}`);
+}
+
+export function listAlertProviders(merchantId: string) {
+  return getStore().alertProviders.list(merchantId);
+}
+
+export function alertProviderSecret(config: AlertProviderConfigRecord) {
+  return decryptSecret(config.secret);
+}
+
+function providerAudit(
+  action: string,
+  actor: string,
+  before?: AlertProviderConfigRecord,
+  after?: AlertProviderConfigRecord,
+) {
+  const config = (after || before)!;
+  const diff = diffRecords(before && toPublicAlertProvider(before), after && toPublicAlertProvider(after));
+  // The secret itself never reaches the log, only the fact that it changed.
+  if (before && after && before.secret !== after.secret) diff.secret = { before: 'previous', after: 'rotated' };
+  recordAudit({
+    merchantId: config.merchantId,
+    actor,
+    action,
+    entityType: 'merchant',
+    entityId: config.merchantId,
+    diff: Object.fromEntries(
+      Object.entries(diff).map(([key, change]) => [`alertProvider.${config.provider}.${key}`, change]),
+    ),
+  });
+}
+
+/**
+ * Sets up or updates a merchant's feed from `provider`. Without a `secret` a new one is generated
+ * for a new feed; the plaintext secret is returned here only, when it was set or generated.
+ */
+export function saveAlertProvider(
+  merchantId: string,
+  provider: AlertProviderName,
+  input: { secret?: string; enabled?: boolean },
+  actor: string,
+) {
+  const existing = getAlertProvider(merchantId, provider);
+  const secret = input.secret || (existing ? undefined : `asec_${randomBytes(24).toString('base64url')}`);
+  const now = new Date().toISOString();
+  const config = getStore().alertProviders.put({
+    id: `${merchantId}:${provider}`,
+    merchantId,
+    provider,
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    secret: secret ? encryptSecret(secret) : existing!.secret,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  });
+  providerAudit(existing ? 'alert_provider.updated' : 'alert_provider.created', actor, existing, config);
+  return { config, secret };
+}
+
+export function removeAlertProvider(merchantId: string, provider: AlertProviderName, actor: string) {
+  const existing = getAlertProvider(merchantId, provider);
+  if (!existing) return false;
+  getStore().alertProviders.remove(existing.id);
+  providerAudit('alert_provider.removed', actor, existing);
+  return true;
+}
+
+/** What to tell the provider about an alert once it has been ingested. */
+export function acknowledgementFor(alert: AlertRecord, refundable: boolean): AlertAcknowledgement {
+  if (alert.resolvedByNetwork) return { outcome: 'resolved_by_network' };
+  if (alert.refunded) return { outcome: 'refunded' };
+  if (!alert.chargeId) return { outcome: 'declined', reason: 'charge_not_found' };
+  if (alert.refundBlockedReason === 'dispute_state') return { outcome: 'already_disputed' };
+  if (alert.refundBlockedReason === 'charge_refunded') return { outcome: 'already_refunded' };
+  return {
+    outcome: 'declined',
+    reason: alert.refundBlockedReason || (refundable ? 'auto_refund_disabled' : 'not_refundable'),
+  };
+}
@@ -0,0 +1,122 @@
+import { convertAmount, type ReportingCurrency } from './currency';
+import type { DisputeRecord } from './types';
+
+export type Interval = 'day' | 'week' | 'month';
+
+export type TimeseriesBucket = {
+  start: string;
+  end: string;
+  created: number;
+  won: number;
+  lost: number;
+  deflected: number;
+  /** Won amounts in the reporting currency's minor units. */
+  recoveredAmount: number;
+  /** Won out of decided (won + lost) disputes; null while nothing in the bucket has closed. */
+  winRate: number | null;
+  /** Disputes created per expected transaction in the bucket, as a percentage. */
+  disputeRatioPct: number | null;
+};
+
+export const MAX_BUCKETS = 400;
+const AVG_DAYS_PER_MONTH = 30.44;
+
+/** Start of the UTC bucket containing `date`; weeks start on Monday. */
+export function bucketStart(date: Date, interval: Interval) {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (interval === 'month') d.setUTCDate(1);
+  return d;
+}
+
+function nextBucket(start: Date, interval: Interval) {
+  const d = new Date(start);
+  if (interval === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  if (interval === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  if (interval === 'month') d.setUTCMonth(d.getUTCMonth() + 1);
+  return d;
+}
+
+/** Default look-back when no `from` is given: 30 days, 12 weeks or 12 months. */
+export function defaultFrom(to: Date, interval: Interval) {
+  const d = bucketStart(to, interval);
+  if (interval === 'day') d.setUTCDate(d.getUTCDate() - 29);
+  if (interval === 'week') d.setUTCDate(d.getUTCDate() - 7 * 11);
+  if (interval === 'month') d.setUTCMonth(d.getUTCMonth() - 11);
+  return d;
+}
+
+export function bucketCount(from: Date, to: Date, interval: Interval) {
+  let count = 0;
+  for (let d = bucketStart(from, interval); d <= to && count <= MAX_BUCKETS; d = nextBucket(d, interval)) count++;
+  return count;
+}
+
+/**
+ * Buckets disputes by the date Stripe opened them (not by when we last touched the record), so
+ * outcomes are credited to the cohort the dispute was opened in. The ratio spreads the merchant's
+ * monthly transaction count evenly over days.
+ */
+export function disputeTimeseries(
+  disputes: DisputeRecord[],
+  options: { interval: Interval; from: Date; to: Date; reporting: ReportingCurrency; monthlyTransactionCount?: number },
+) {
+  const { interval, from, to, reporting, monthlyTransactionCount } = options;
+  const buckets: (TimeseriesBucket & { startMs: number; endMs: number })[] = [];
+  for (let d = bucketStart(from, interval); d <= to;) {
+    const end = nextBucket(d, interval);
+    buckets.push({
+      start: d.toISOString(),
+      end: end.toISOString(),
+      startMs: d.getTime(),
+      endMs: end.getTime(),
+      created: 0,
+      won: 0,
+      lost: 0,
+      deflected: 0,
+      recoveredAmount: 0,
+      winRate: null,
+      disputeRatioPct: null,
+    });
+    d = end;
+  }
+
+  const unconvertedCurrencies = new Set<string>();
+  let undated = 0;
+  for (const dispute of disputes) {
+    if (!dispute.disputeCreatedAt) {
+      undated++;
+      continue;
+    }
+    const at = dispute.disputeCreatedAt * 1000;
+    const bucket = buckets.find((b) => at >= b.startMs && at < b.endMs);
+    if (!bucket || at > to.getTime()) continue;
+    bucket.created++;
+    if (dispute.deflected) bucket.deflected++;
+    if (dispute.status === 'lost') bucket.lost++;
+    if (dispute.status === 'won') {
+      bucket.won++;
+      const recovered = convertAmount(dispute.amount || 0, dispute.currency || 'usd', reporting);
+      if (recovered === undefined) unconvertedCurrencies.add(dispute.currency.toLowerCase());
+      else bucket.recoveredAmount += recovered;
+    }
+  }
+
+  return {
+    buckets: buckets.map(({ startMs, endMs, ...bucket }) => {
+      const decided = bucket.won + bucket.lost;
+      const expectedTransactions = monthlyTransactionCount
+        ? (monthlyTransactionCount * (endMs - startMs)) / (AVG_DAYS_PER_MONTH * 24 * 60 * 60 * 1000)
+        : 0;
+      return {
+        ...bucket,
+        winRate: decided ? Number(((bucket.won / decided) * 100).toFixed(1)) : null,
+        disputeRatioPct: expectedTransactions
+          ? Number(((bucket.created / expectedTransactions) * 100).toFixed(2))
+          : null,
+      };
+    }),
+    unconvertedCurrencies: [...unconvertedCurrencies],
+    undated,
+  };
+}
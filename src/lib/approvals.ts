@@ -0,0 +1,63 @@
+import type { ApprovalEvent, DisputeRecord, MerchantSettings } from './types';
+
+export type ApprovalStatus = 'not_required' | 'pending' | 'changes_requested' | 'approved';
+
+export type ApprovalState = {
+  status: ApprovalStatus;
+  required: boolean;
+  approvalsNeeded: number;
+  /** Reviewers who approved the current evidence version since the last change request. */
+  approvedBy: { keyId: string; actor: string; at: string }[];
+  evidenceVersion?: number;
+};
+
+type ApprovalInput = Pick<
+  DisputeRecord,
+  'amount' | 'manualReviewRequired' | 'currentEvidenceVersion' | 'approvalHistory'
+>;
+
+/**
+ * Derives where a dispute stands in review. Sign-offs are tied to an evidence version, so any edit
+ * or rebuild that changes the evidence needs fresh approval, and a change request voids the
+ * approvals given before it.
+ */
+export function approvalState(
+  dispute: ApprovalInput,
+  settings: Pick<MerchantSettings, 'approvalRequired' | 'dualApprovalAmountThreshold'>,
+): ApprovalState {
+  const required = !!settings.approvalRequired || dispute.manualReviewRequired;
+  const threshold = settings.dualApprovalAmountThreshold ?? Infinity;
+  const approvalsNeeded = dispute.amount >= threshold ? 2 : 1;
+  const version = dispute.currentEvidenceVersion;
+
+  const events = (dispute.approvalHistory || []).filter((e) => e.evidenceVersion === version);
+  const lastChangeRequest = events.map((e) => e.action).lastIndexOf('changes_requested');
+  const approvedBy: ApprovalState['approvedBy'] = [];
+  for (const e of events.slice(lastChangeRequest + 1)) {
+    if (e.action === 'approved' && !approvedBy.some((a) => a.keyId === e.keyId)) {
+      approvedBy.push({ keyId: e.keyId, actor: e.actor, at: e.at });
+    }
+  }
+
+  const status: ApprovalStatus =
+    approvedBy.length >= approvalsNeeded
+      ? 'approved'
+      : lastChangeRequest >= 0 && !approvedBy.length
+        ? 'changes_requested'
+        : required
+          ? 'pending'
+          : 'not_required';
+  return { status, required, approvalsNeeded, approvedBy, evidenceVersion: version };
+}
+
+/** Whoever edited the current evidence version can't also be the one to sign it off. */
+export function approvalBlocker(dispute: ApprovalInput, state: ApprovalState, keyId: string) {
+  if (!dispute.currentEvidenceVersion) return 'no_stored_evidence';
+  if (state.status === 'approved') return 'already_approved';
+  if (state.approvedBy.some((a) => a.keyId === keyId)) return 'already_approved_by_you';
+  const edits = (dispute.approvalHistory || []).filter(
+    (e: ApprovalEvent) => e.action === 'edited' && e.evidenceVersion === dispute.currentEvidenceVersion,
+  );
+  if (edits.some((e) => e.keyId === keyId)) return 'maker_cannot_approve';
+  return undefined;
+}
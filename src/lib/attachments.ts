@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import type Stripe from 'stripe';
+import { recordAudit } from './audit';
+import { getStore } from './storage';
+import type { AttachmentKind, AttachmentRecord } from './types';
+
+export const attachmentKinds: AttachmentKind[] = [
+  'receipt',
+  'customer_communication',
+  'customer_signature',
+  'shipping_documentation',
+  'service_documentation',
+  'refund_policy',
+  'cancellation_policy',
+  'duplicate_charge_documentation',
+  'uncategorized_file',
+];
+
+// Stripe accepts PDF, JPEG and PNG dispute evidence and rejects submissions whose files add up
+// to more than 4.5 MB, so a single file can never be larger than that either.
+export const attachmentContentTypes = ['application/pdf', 'image/jpeg', 'image/png'];
+export const MAX_EVIDENCE_BYTES = 4.5 * 1024 * 1024;
+
+export type EvidenceFiles = Partial<Record<AttachmentKind, string>>;
+
+/**
+ * Uploads a file to Stripe with the client of the account that owns the dispute (files are
+ * scoped to the account that uploaded them) and records it. Without a disputeId the file is a
+ * merchant asset that gets attached to every dispute lacking its own file of that kind.
+ */
+export async function uploadAttachment(
+  stripe: Stripe,
+  input: Pick<AttachmentRecord, 'merchantId' | 'disputeId' | 'kind' | 'filename' | 'contentType'> & { data: Buffer },
+  actor = 'system',
+) {
+  const file = await stripe.files.create({
+    purpose: 'dispute_evidence',
+    file: { data: input.data, name: input.filename, type: input.contentType },
+  });
+
+  const record: AttachmentRecord = {
+    id: `att_${randomUUID()}`,
+    merchantId: input.merchantId,
+    disputeId: input.disputeId,
+    kind: input.kind,
+    filename: input.filename,
+    contentType: input.contentType,
+    size: input.data.length,
+    stripeFileId: file.id,
+    uploadedBy: actor,
+    createdAt: new Date().toISOString(),
+  };
+
+  getStore().transaction(() => {
+    getStore().attachments.put(record);
+    auditAttachment(record, 'attachment.added', actor);
+  });
+  return record;
+}
+
+function auditAttachment(record: AttachmentRecord, action: string, actor: string) {
+  const summary = { id: record.id, kind: record.kind, filename: record.filename, stripeFileId: record.stripeFileId };
+  recordAudit({
+    merchantId: record.merchantId,
+    actor,
+    action,
+    entityType: record.disputeId ? 'dispute' : 'merchant',
+    entityId: record.disputeId || record.merchantId || record.id,
+    diff: {
+      attachment: action === 'attachment.removed' ? { before: summary, after: null } : { before: null, after: summary },
+    },
+  });
+}
+
+export function getAttachment(id: string) {
+  const record = getStore().attachments.get(id);
+  return record && !record.removedAt ? record : undefined;
+}
+
+/** Dispute uploads when disputeId is given, otherwise the merchant's reusable assets. */
+export function listAttachments(filter: { merchantId?: string; disputeId?: string }) {
+  const { attachments } = getStore();
+  const items = filter.disputeId
+    ? attachments.find({ disputeId: filter.disputeId })
+    : attachments.list(filter.merchantId).filter((a) => !a.disputeId);
+  return items.filter((a) => !a.removedAt).sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+/**
+ * Detaches a file from future evidence. Stripe files can't be deleted, and evidence already sent
+ * keeps referencing it, so the record is kept and only marked removed.
+ */
+export function removeAttachment(id: string, actor = 'system') {
+  const { attachments } = getStore();
+  return getStore().transaction(() => {
+    const record = attachments.get(id);
+    if (!record || record.removedAt) return undefined;
+    const next = attachments.put({ ...record, removedAt: new Date().toISOString() });
+    auditAttachment(next, 'attachment.removed', actor);
+    return next;
+  });
+}
+
+/**
+ * Picks one file per evidence field. The dispute's own uploads win over merchant assets and
+ * newer uploads win over older ones.
+ */
+export function evidenceFilesFor(dispute: { id: string; merchantId?: string }) {
+  const candidates = [
+    ...listAttachments({ disputeId: dispute.id }),
+    ...(dispute.merchantId ? listAttachments({ merchantId: dispute.merchantId }) : []),
+  ];
+  const files: EvidenceFiles = {};
+  const used: AttachmentRecord[] = [];
+  for (const attachment of candidates) {
+    if (files[attachment.kind]) continue;
+    files[attachment.kind] = attachment.stripeFileId;
+    used.push(attachment);
+  }
+  return { files, attachments: used, totalBytes: used.reduce((sum, a) => sum + a.size, 0) };
+}
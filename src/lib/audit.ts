@@ -0,0 +1,36 @@
+import { randomUUID } from 'crypto';
+import { getStore } from './storage';
+import type { AuditEntry } from './types';
+
+// Fields that never belong in the audit trail, either because they are secrets or because
+// they change on every write and would drown out the real diff. Evidence payloads and score
+// breakdowns are tracked through currentEvidenceVersion and evidenceScore instead.
+const IGNORED_FIELDS = new Set(['stripeAccessToken', 'updatedAt', 'evidenceVersions', 'scoreBreakdown']);
+
+export function diffRecords(before: object | undefined, after: object | undefined): AuditEntry['diff'] {
+  const b = (before || {}) as Record<string, unknown>;
+  const a = (after || {}) as Record<string, unknown>;
+  const diff: AuditEntry['diff'] = {};
+  for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(b[key]) !== JSON.stringify(a[key])) diff[key] = { before: b[key], after: a[key] };
+  }
+  return diff;
+}
+
+/**
+ * Appends an audit entry. Entries with an empty diff are skipped so no-op writes
+ * (e.g. a webhook retry carrying identical data) don't clutter the timeline.
+ */
+export function recordAudit(entry: Omit<AuditEntry, 'id' | 'at'>) {
+  if (!Object.keys(entry.diff).length) return undefined;
+  return getStore().audit.put({ id: `audit_${randomUUID()}`, at: new Date().toISOString(), ...entry });
+}
+
+export function listAudit(filter: { entityId?: string; merchantId?: string; since?: string } = {}) {
+  const { audit } = getStore();
+  let items = filter.entityId ? audit.find({ entityId: filter.entityId }) : audit.list(filter.merchantId);
+  if (filter.entityId && filter.merchantId) items = items.filter((e) => e.merchantId === filter.merchantId);
+  if (filter.since) items = items.filter((e) => e.at >= (filter.since as string));
+  return items.sort((a, b) => (a.at < b.at ? 1 : -1));
+}
@@ -0,0 +1,116 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { getStore } from './storage';
+import type { ApiKeyRecord, Role } from './types';
+
+export type Principal = {
+  keyId: string;
+  name: string;
+  role: Role;
+  /** Set when the key is scoped to a single merchant. */
+  merchantId?: string;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+const roles: Role[] = ['viewer', 'analyst', 'approver', 'admin'];
+
+function hashKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function createApiKey(input: { name: string; role: Role; merchantId?: string }) {
+  const key = `sda_${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: `key_${randomUUID()}`,
+    merchantId: input.merchantId,
+    name: input.name,
+    role: input.role,
+    keyHash: hashKey(key),
+    createdAt: new Date().toISOString(),
+  };
+  getStore().apiKeys.put(record);
+  return { key, record };
+}
+
+export function listApiKeys(merchantId?: string) {
+  return getStore()
+    .apiKeys.list(merchantId)
+    .map(({ keyHash: _keyHash, ...rest }) => rest);
+}
+
+export function revokeApiKey(id: string) {
+  const { apiKeys } = getStore();
+  return getStore().transaction(() => {
+    const record = apiKeys.get(id);
+    if (!record) return undefined;
+    return apiKeys.put({ ...record, revokedAt: record.revokedAt || new Date().toISOString() });
+  });
+}
+
+function resolvePrincipal(key: string): Principal | undefined {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (adminKey) {
+    const a = Buffer.from(hashKey(adminKey), 'hex');
+    const b = Buffer.from(hashKey(key), 'hex');
+    if (timingSafeEqual(a, b)) return { keyId: 'env_admin', name: 'admin', role: 'admin' };
+  }
+  const record = getStore().apiKeys.find({ keyHash: hashKey(key) })[0];
+  if (!record || record.revokedAt) return undefined;
+  return { keyId: record.id, name: record.name, role: record.role, merchantId: record.merchantId };
+}
+
+/** Attaches req.principal when a valid `Authorization: Bearer <key>` header is present. */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const header = req.header('authorization');
+  if (!header) return next();
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  const principal = match ? resolvePrincipal(match[1].trim()) : undefined;
+  if (!principal) return res.status(401).json({ error: 'invalid_api_key' });
+  req.principal = principal;
+  return next();
+}
+
+/**
+ * Route guard. Roles are ordered, so `requireRole('analyst')` also admits approvers and admins.
+ * `platform: true` additionally rejects merchant-scoped keys.
+ */
+export function requireRole(role: Role, opts: { platform?: boolean } = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = req.principal;
+    if (!principal) return res.status(401).json({ error: 'unauthenticated' });
+    if (roles.indexOf(principal.role) < roles.indexOf(role)) {
+      return res.status(403).json({ error: 'forbidden', requiredRole: role });
+    }
+    if (opts.platform && principal.merchantId) return res.status(403).json({ error: 'platform_key_required' });
+    return next();
+  };
+}
+
+/**
+ * Resolves which merchant a request may act on. Merchant-scoped keys are pinned to their own
+ * merchant; asking for any other merchant returns `forbidden`.
+ */
+export function scopeMerchant(req: Request, requested?: string): { merchantId?: string; forbidden: boolean } {
+  const pinned = req.principal?.merchantId;
+  if (!pinned) return { merchantId: requested, forbidden: false };
+  if (requested && requested !== pinned) return { merchantId: pinned, forbidden: true };
+  return { merchantId: pinned, forbidden: false };
+}
+
+export function canAccessMerchant(req: Request, merchantId?: string) {
+  const pinned = req.principal?.merchantId;
+  return !pinned || pinned === merchantId;
+}
+
+export function actorOf(req: Request) {
+  const principal = req.principal;
+  if (!principal) return 'anonymous';
+  return principal.merchantId ? `${principal.name} (${principal.merchantId})` : principal.name;
+}
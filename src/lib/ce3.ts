@@ -0,0 +1,185 @@
+import type Stripe from 'stripe';
+import type { Ce3Assessment } from './types';
+
+type VisaCe3 = Stripe.DisputeUpdateParams.Evidence.EnhancedEvidence.VisaCompellingEvidence3;
+
+const DAY = 24 * 60 * 60;
+// Visa only accepts prior transactions between 120 and 365 days old at the time of the dispute.
+export const CE3_MIN_AGE_DAYS = 120;
+export const CE3_MAX_AGE_DAYS = 365;
+export const CE3_MIN_PRIOR_CHARGES = 2;
+
+// Charges don't carry the purchase IP, device or the merchant's own account id, so these are read
+// from charge metadata written at checkout. The first key present wins.
+export const ce3MetadataKeys = {
+  ip: ['customer_ip', 'ip_address', 'purchase_ip'],
+  device: ['device_id', 'device_fingerprint'],
+  account: ['customer_account_id', 'account_id', 'user_id'],
+};
+
+type Identity = {
+  ip?: string;
+  device?: string;
+  account?: string;
+  email?: string;
+  shipping?: Stripe.Address;
+};
+
+function fromMetadata(charge: Stripe.Charge, keys: string[]) {
+  const key = keys.find((k) => charge.metadata?.[k]);
+  return key ? charge.metadata[key].trim() : undefined;
+}
+
+function identityOf(charge: Stripe.Charge): Identity {
+  return {
+    ip: fromMetadata(charge, ce3MetadataKeys.ip),
+    device: fromMetadata(charge, ce3MetadataKeys.device),
+    account: fromMetadata(charge, ce3MetadataKeys.account),
+    email: charge.billing_details?.email || charge.receipt_email || undefined,
+    shipping: charge.shipping?.address || undefined,
+  };
+}
+
+function addressKey(address?: Stripe.Address) {
+  if (!address?.line1) return undefined;
+  return [address.line1, address.postal_code, address.country].map((p) => (p || '').trim().toLowerCase()).join('|');
+}
+
+/**
+ * Data elements a prior charge shares with the disputed one. Visa requires at least two, one of
+ * which must be the IP address or device id.
+ */
+function matchedElements(disputed: Identity, prior: Identity) {
+  const matched: string[] = [];
+  if (disputed.ip && disputed.ip === prior.ip) matched.push('ip');
+  if (disputed.device && disputed.device === prior.device) matched.push('device');
+  if (disputed.account && disputed.account === prior.account) matched.push('account');
+  const shipping = addressKey(disputed.shipping);
+  if (shipping && shipping === addressKey(prior.shipping)) matched.push('shipping_address');
+  return matched;
+}
+
+function qualifies(matched: string[]) {
+  return matched.length >= 2 && (matched.includes('ip') || matched.includes('device'));
+}
+
+function idOf(value: string | { id: string } | null) {
+  return typeof value === 'string' ? value : value?.id;
+}
+
+// Same card (by fingerprint) when available, otherwise the same Stripe customer.
+async function priorCharges(stripe: Stripe, charge: Stripe.Charge, from: number, to: number) {
+  const fingerprint = charge.payment_method_details?.card?.fingerprint;
+  const customer = idOf(charge.customer);
+  if (fingerprint) {
+    const query = `payment_method_details.card.fingerprint:'${fingerprint}' AND created>=${from} AND created<=${to}`;
+    return (await stripe.charges.search({ query, limit: 100 })).data;
+  }
+  if (customer) return (await stripe.charges.list({ customer, created: { gte: from, lte: to }, limit: 100 })).data;
+  return undefined;
+}
+
+function transaction(identity: Identity, productDescription?: string) {
+  return {
+    customer_account_id: identity.account,
+    customer_device_id: identity.device,
+    customer_email_address: identity.email,
+    customer_purchase_ip: identity.ip,
+    product_description: productDescription,
+    shipping_address: identity.shipping && {
+      line1: identity.shipping.line1 || undefined,
+      line2: identity.shipping.line2 || undefined,
+      city: identity.shipping.city || undefined,
+      state: identity.shipping.state || undefined,
+      postal_code: identity.shipping.postal_code || undefined,
+      country: identity.shipping.country || undefined,
+    },
+  };
+}
+
+type Ce3Context = { productDescription?: string; merchandiseOrServices: 'merchandise' | 'services' };
+
+/**
+ * Checks a fraud dispute against the Visa Compelling Evidence 3.0 criteria using the connected
+ * account's charge history. When it qualifies, also returns the enhanced_evidence block to send.
+ */
+export async function assessCe3(
+  stripe: Stripe,
+  dispute: Stripe.Dispute,
+  charge: Stripe.Charge,
+  context: Ce3Context,
+): Promise<{ assessment: Ce3Assessment; evidence?: VisaCe3 }> {
+  // Stripe lists the enhanced programs a dispute can use; non-Visa disputes never include CE 3.0.
+  if (
+    dispute.enhanced_eligibility_types &&
+    !dispute.enhanced_eligibility_types.includes('visa_compelling_evidence_3')
+  ) {
+    return {
+      assessment: {
+        eligible: false,
+        note: 'Stripe reports this dispute is not eligible for Visa CE 3.0.',
+        qualifyingCharges: [],
+        checkedAt: new Date().toISOString(),
+      },
+    };
+  }
+  return assessCe3At(stripe, charge, dispute.created, context);
+}
+
+/**
+ * The CE 3.0 check as of `at` (Unix seconds), for a charge that has no dispute yet, e.g. one with
+ * an Early Fraud Warning.
+ */
+export async function assessCe3At(
+  stripe: Stripe,
+  charge: Stripe.Charge,
+  at: number,
+  context: Ce3Context,
+): Promise<{ assessment: Ce3Assessment; evidence?: VisaCe3 }> {
+  const checkedAt = new Date().toISOString();
+  const result = (note: string, qualifyingCharges: Ce3Assessment['qualifyingCharges'] = []) => ({
+    assessment: { eligible: false, note, qualifyingCharges, checkedAt },
+  });
+
+  const from = at - CE3_MAX_AGE_DAYS * DAY;
+  const to = at - CE3_MIN_AGE_DAYS * DAY;
+  const candidates = await priorCharges(stripe, charge, from, to);
+  if (!candidates) return result('No card fingerprint or customer on the charge to find prior transactions.');
+
+  const disputed = identityOf(charge);
+  const qualifying = candidates
+    .filter((c) => c.id !== charge.id && c.status === 'succeeded' && !c.disputed && !c.refunded)
+    .filter((c) => c.created >= from && c.created <= to)
+    .map((c) => ({ charge: c, matched: matchedElements(disputed, identityOf(c)) }))
+    .filter((c) => qualifies(c.matched))
+    .sort((a, b) => b.charge.created - a.charge.created);
+
+  const summary = qualifying.map((q) => ({ chargeId: q.charge.id, created: q.charge.created, matched: q.matched }));
+  if (qualifying.length < CE3_MIN_PRIOR_CHARGES) {
+    return result(
+      `Found ${qualifying.length} prior undisputed charge(s) 120-365 days old matching on IP/device plus one more ` +
+        `element; Visa CE 3.0 needs ${CE3_MIN_PRIOR_CHARGES}.`,
+      summary,
+    );
+  }
+
+  const used = qualifying.slice(0, CE3_MIN_PRIOR_CHARGES);
+  return {
+    assessment: {
+      eligible: true,
+      note: `Qualifies for Visa CE 3.0 with prior charges ${used.map((q) => q.charge.id).join(', ')}.`,
+      qualifyingCharges: summary,
+      checkedAt,
+    },
+    evidence: {
+      disputed_transaction: {
+        ...transaction(disputed, context.productDescription),
+        merchandise_or_services: context.merchandiseOrServices,
+      },
+      prior_undisputed_transactions: used.map((q) => ({
+        charge: q.charge.id,
+        ...transaction(identityOf(q.charge), q.charge.description || context.productDescription),
+      })),
+    },
+  };
+}
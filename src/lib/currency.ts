@@ -0,0 +1,80 @@
+import type { MerchantSettings } from './types';
+
+// Stripe amounts are integers in the currency's minor unit. Most currencies have two decimals;
+// these don't (https://docs.stripe.com/currencies#minor-units).
+const ZERO_DECIMAL = new Set([
+  'bif',
+  'clp',
+  'djf',
+  'gnf',
+  'jpy',
+  'kmf',
+  'krw',
+  'mga',
+  'pyg',
+  'rwf',
+  'ugx',
+  'vnd',
+  'vuv',
+  'xaf',
+  'xof',
+  'xpf',
+]);
+const THREE_DECIMAL = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+
+export function minorUnitDigits(currency: string) {
+  const c = currency.toLowerCase();
+  return ZERO_DECIMAL.has(c) ? 0 : THREE_DECIMAL.has(c) ? 3 : 2;
+}
+
+export function toMajorUnits(amount: number, currency: string) {
+  return amount / 10 ** minorUnitDigits(currency);
+}
+
+export function fromMajorUnits(amount: number, currency: string) {
+  return Math.round(amount * 10 ** minorUnitDigits(currency));
+}
+
+export function formatAmount(amount: number, currency: string, locale?: string) {
+  const digits = minorUnitDigits(currency);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toMajorUnits(amount, currency));
+}
+
+/**
+ * The currency totals are reported in. `rates` maps other currencies to how many major units of
+ * the reporting currency one of their major units is worth.
+ */
+export type ReportingCurrency = { currency: string; rates: Record<string, number> };
+
+export function reportingCurrencyOf(
+  settings?: Partial<Pick<MerchantSettings, 'reportingCurrency' | 'exchangeRates'>>,
+): ReportingCurrency {
+  return {
+    currency: (settings?.reportingCurrency || 'usd').toLowerCase(),
+    rates: settings?.exchangeRates || {},
+  };
+}
+
+/**
+ * Converts an amount in `currency` minor units to the reporting currency's minor units using the
+ * local rate table. Returns undefined when there is no rate, so callers can flag it instead of
+ * silently adding mismatched units.
+ */
+export function convertAmount(amount: number, currency: string, reporting: ReportingCurrency) {
+  const from = currency.toLowerCase();
+  if (from === reporting.currency) return amount;
+  const rate = reporting.rates[from];
+  if (!rate) return undefined;
+  return fromMajorUnits(toMajorUnits(amount, from) * rate, reporting.currency);
+}
+
+/** Major units of the reporting currency, or of the amount's own currency when there is no rate. */
+export function majorValue(amount: number, currency: string, reporting: ReportingCurrency) {
+  const converted = convertAmount(amount, currency, reporting);
+  return converted === undefined ? toMajorUnits(amount, currency) : toMajorUnits(converted, reporting.currency);
+}
@@ -0,0 +1,34 @@
+export type DiffLine = { op: 'equal' | 'add' | 'remove'; text: string };
+
+/**
+ * Line diff of two texts via longest common subsequence. Drafts are a few dozen lines at most,
+ * so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ op: 'remove', text: a[i++] });
+    } else {
+      out.push({ op: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ op: 'remove', text: a[i++] });
+  while (j < b.length) out.push({ op: 'add', text: b[j++] });
+  return out;
+}
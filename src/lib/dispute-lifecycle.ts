@@ -0,0 +1,154 @@
+import type Stripe from 'stripe';
+import { convertAmount, type ReportingCurrency } from './currency';
+import type { DisputeBalanceTransaction, DisputeRecord, DisputeStatus, DisputeStatusChange } from './types';
+
+const CLOSED_STATUSES: DisputeStatus[] = ['won', 'lost', 'warning_closed'];
+
+/**
+ * Inquiries (`warning_*`) come before any chargeback: no funds are withdrawn and card networks don't
+ * count them toward dispute ratios. An inquiry that escalates continues as a `needs_response` dispute.
+ */
+export function isInquiry(status: string) {
+  return status.startsWith('warning_');
+}
+
+/** Evidence can only be built and sent while Stripe is waiting for a response. */
+export function acceptsEvidence(status: string) {
+  return status === 'needs_response' || status === 'warning_needs_response';
+}
+
+/** Won, lost, or an inquiry closed without becoming a chargeback. Nothing more can be submitted. */
+export function isDisputeClosed(status: string) {
+  return (CLOSED_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Adds `status` as of `at` to the history. Events can arrive out of order, so the entry is placed
+ * by time and repeats of the stage before it are dropped.
+ */
+export function withStatusChange(
+  history: DisputeStatusChange[] = [],
+  status: DisputeStatus,
+  at: number,
+  eventId?: string,
+) {
+  const entries = [...history, { status, at, eventId }].sort((a, b) => a.at - b.at);
+  return entries.filter((entry, i) => i === 0 || entry.status !== entries[i - 1].status);
+}
+
+function balanceTransactionOf(bt: Stripe.BalanceTransaction): DisputeBalanceTransaction {
+  const reinstated = bt.reporting_category === 'dispute_reversal' || (!bt.reporting_category && bt.amount > 0);
+  return {
+    id: bt.id,
+    kind: reinstated ? 'reinstatement' : 'withdrawal',
+    amount: bt.amount,
+    fee: bt.fee,
+    net: bt.net,
+    currency: bt.currency,
+    createdAt: bt.created,
+  };
+}
+
+/**
+ * Status, stage history and balance transactions for a dispute as Stripe reports it in `event`
+ * (or as fetched now). Records saved before histories were kept start from their stored status.
+ */
+export function disputeLifecycle(
+  existing: DisputeRecord | undefined,
+  dispute: Stripe.Dispute,
+  event?: Pick<Stripe.Event, 'id' | 'created'>,
+  now = new Date(),
+) {
+  let history = existing?.statusHistory;
+  if (existing && !history?.length) {
+    history = [{ status: existing.status, at: existing.disputeCreatedAt ?? dispute.created }];
+  }
+  const at = history?.length ? (event?.created ?? Math.floor(now.getTime() / 1000)) : dispute.created;
+  const statusHistory = withStatusChange(history, dispute.status, at, event?.id);
+
+  const byId = new Map((existing?.balanceTransactions || []).map((bt) => [bt.id, bt]));
+  for (const bt of dispute.balance_transactions || []) {
+    if (typeof bt !== 'string') byId.set(bt.id, balanceTransactionOf(bt));
+  }
+  return {
+    status: statusHistory[statusHistory.length - 1].status,
+    statusHistory,
+    balanceTransactions: [...byId.values()].sort((a, b) => a.createdAt - b.createdAt),
+  };
+}
+
+/** Seconds spent in each stage. An open dispute's current stage runs until `now`; closed stages aren't timed. */
+export function timeInStage(history: DisputeStatusChange[] = [], now = new Date()) {
+  const seconds: Partial<Record<DisputeStatus, number>> = {};
+  history.forEach((entry, i) => {
+    if (isDisputeClosed(entry.status)) return;
+    const end = history[i + 1]?.at ?? Math.floor(now.getTime() / 1000);
+    seconds[entry.status] = (seconds[entry.status] || 0) + Math.max(0, end - entry.at);
+  });
+  return seconds;
+}
+
+export type FundsTotals = { withdrawn: number; reinstated: number; fees: number; net: number };
+
+/** What the disputes' withdrawals, reinstatements and fees did to the balance, per settlement currency. */
+export function fundsImpact(balanceTransactions: DisputeBalanceTransaction[]) {
+  const byCurrency: Record<string, FundsTotals> = {};
+  for (const bt of balanceTransactions) {
+    const totals = (byCurrency[bt.currency] ||= { withdrawn: 0, reinstated: 0, fees: 0, net: 0 });
+    if (bt.kind === 'withdrawal') totals.withdrawn += -bt.amount;
+    else totals.reinstated += bt.amount;
+    totals.fees += bt.fee;
+    totals.net += bt.net;
+  }
+  return byCurrency;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+/**
+ * Time-in-stage across disputes (average and median seconds per stage) and their net cash
+ * impact, per currency and in the reporting currency. Currencies without a rate are listed in
+ * `unconvertedCurrencies` and left out of `netImpact`.
+ */
+export function lifecycleReport(disputes: DisputeRecord[], reporting: ReportingCurrency, now = new Date()) {
+  const durations: Partial<Record<DisputeStatus, number[]>> = {};
+  for (const dispute of disputes) {
+    for (const [status, seconds] of Object.entries(timeInStage(dispute.statusHistory, now))) {
+      (durations[status as DisputeStatus] ||= []).push(seconds);
+    }
+  }
+  const stages = Object.fromEntries(
+    Object.entries(durations).map(([status, values]) => [
+      status,
+      {
+        disputes: values.length,
+        avgSeconds: Math.round(values.reduce((sum, v) => sum + v, 0) / values.length),
+        medianSeconds: median(values),
+      },
+    ]),
+  );
+
+  const funds = fundsImpact(disputes.flatMap((d) => d.balanceTransactions || []));
+  let netImpact = 0;
+  const unconvertedCurrencies: string[] = [];
+  for (const [currency, totals] of Object.entries(funds)) {
+    const converted = convertAmount(totals.net, currency, reporting);
+    if (converted === undefined) unconvertedCurrencies.push(currency);
+    else netImpact += converted;
+  }
+  return {
+    stages,
+    funds,
+    netImpact,
+    reportingCurrency: reporting.currency,
+    unconvertedCurrencies,
+    inquiries: disputes.filter((d) => d.statusHistory?.some((s) => isInquiry(s.status))).length,
+    chargebacks: disputes.filter((d) => d.statusHistory?.some((s) => !isInquiry(s.status))).length,
+    fundsWithdrawn: disputes.filter((d) => d.balanceTransactions?.some((bt) => bt.kind === 'withdrawal')).length,
+    fundsReinstated: disputes.filter((d) => d.balanceTransactions?.some((bt) => bt.kind === 'reinstatement')).length,
+  };
+}
@@ -0,0 +1,163 @@
+import type Stripe from 'stripe';
+import { recordAudit } from './audit';
+import { assessCe3At } from './ce3';
+import { convertAmount, reportingCurrencyOf } from './currency';
+import { refundWithPolicy } from './refund-policy';
+import { getStore } from './storage';
+import type { EarlyFraudWarningRecord, EfwDecision, MerchantRecord } from './types';
+
+/** Radar's `fraud_type` values. */
+export const efwFraudTypes = [
+  'card_never_received',
+  'fraudulent_card_application',
+  'made_with_counterfeit_card',
+  'made_with_lost_card',
+  'made_with_stolen_card',
+  'misc',
+  'unauthorized_use_of_card',
+];
+
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id);
+
+export function listEarlyFraudWarnings(merchantId?: string) {
+  return getStore()
+    .earlyFraudWarnings.list(merchantId)
+    .sort((a, b) => b.warnedAt - a.warnedAt);
+}
+
+/**
+ * Refund or fight, by the merchant's policy. A warning is the cheapest point to refund: no
+ * chargeback fee yet and nothing on the dispute ratio. It is fought instead (left to become a
+ * dispute) when the fraud type isn't one the merchant refunds, the charge is above the refund
+ * limit, or a Visa charge already qualifies for CE 3.0 and is likely to be won. CE 3.0 is checked
+ * last because it searches the card's charge history.
+ */
+export async function decideEarlyFraudWarning(
+  stripe: Stripe,
+  warning: EarlyFraudWarningRecord,
+  charge: Stripe.Charge,
+  merchant: MerchantRecord,
+  now = new Date(),
+): Promise<EfwDecision> {
+  const { settings } = merchant;
+  const decidedAt = now.toISOString();
+  if (!warning.actionable) return { action: 'none', reason: 'not_actionable', decidedAt };
+
+  const reportingAmount = convertAmount(charge.amount, charge.currency, reportingCurrencyOf(settings));
+  const decision = (action: EfwDecision['action'], reason: string, ce3Eligible?: boolean): EfwDecision => ({
+    action,
+    reason,
+    reportingAmount,
+    ce3Eligible,
+    decidedAt,
+  });
+
+  if (!(settings.efwRefundFraudTypes ?? efwFraudTypes).includes(warning.fraudType)) {
+    return decision('fight', 'fraud_type');
+  }
+  const limit = settings.efwRefundMaxAmount ?? 0;
+  if (limit) {
+    if (reportingAmount === undefined) return decision('fight', 'exchange_rate');
+    if (reportingAmount > limit) return decision('fight', 'amount_above_limit');
+  }
+
+  if ((settings.efwFightCe3Eligible ?? true) && warning.cardBrand === 'visa') {
+    const { assessment } = await assessCe3At(stripe, charge, warning.warnedAt, {
+      merchandiseOrServices: merchant.evidenceProfile.businessType === 'info_coaching' ? 'services' : 'merchandise',
+    });
+    if (assessment.eligible) return decision('fight', 'ce3_eligible', true);
+    return decision('refund', 'policy', false);
+  }
+  return decision('refund', 'policy');
+}
+
+/**
+ * Stores a warning from a `radar.early_fraud_warning.*` event, decides it once and carries out a
+ * refund decision through the refund policy. Later events for the same warning only update it.
+ */
+export async function ingestEarlyFraudWarning(
+  stripe: Stripe,
+  merchant: MerchantRecord,
+  warning: Stripe.Radar.EarlyFraudWarning,
+  now = new Date(),
+) {
+  const { earlyFraudWarnings } = getStore();
+  const chargeId = idOf(warning.charge)!;
+  const existing = earlyFraudWarnings.get(warning.id);
+  const charge =
+    typeof warning.charge === 'string' ? await stripe.charges.retrieve(chargeId) : (warning.charge as Stripe.Charge);
+
+  const record: EarlyFraudWarningRecord = {
+    ...existing,
+    id: warning.id,
+    merchantId: merchant.id,
+    chargeId,
+    paymentIntentId: idOf(warning.payment_intent),
+    fraudType: warning.fraud_type,
+    actionable: warning.actionable,
+    amount: charge.amount,
+    currency: charge.currency,
+    cardBrand: charge.payment_method_details?.card?.brand || existing?.cardBrand,
+    warnedAt: warning.created,
+    createdAt: existing?.createdAt || now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  if (existing?.decision) return earlyFraudWarnings.put(record);
+
+  record.decision = await decideEarlyFraudWarning(stripe, record, charge, merchant, now);
+  recordAudit({
+    merchantId: merchant.id,
+    actor: 'efw_policy',
+    action: 'efw.decided',
+    entityType: 'charge',
+    entityId: chargeId,
+    diff: {
+      earlyFraudWarning: { before: null, after: { id: warning.id, fraudType: record.fraudType, ...record.decision } },
+    },
+  });
+
+  if (record.decision.action === 'refund') {
+    if (!merchant.settings.efwAutoRefundEnabled) {
+      record.refundBlockedReason = 'auto_refund_disabled';
+    } else {
+      const out = await refundWithPolicy(
+        stripe,
+        {
+          key: `efw:${warning.id}`,
+          merchantId: merchant.id,
+          settings: merchant.settings,
+          chargeId,
+          source: 'efw',
+          actor: 'efw_policy',
+          metadata: { source: 'early_fraud_warning', early_fraud_warning: warning.id },
+        },
+        now,
+      );
+      if (out.refund) {
+        record.refundId = out.refund.id;
+        recordAudit({
+          merchantId: merchant.id,
+          actor: 'efw_policy',
+          action: 'refund.created',
+          entityType: 'charge',
+          entityId: chargeId,
+          diff: {
+            refund: {
+              before: null,
+              after: {
+                id: out.refund.id,
+                chargeId,
+                amount: out.refund.amount,
+                currency: out.refund.currency,
+                source: 'early_fraud_warning',
+              },
+            },
+          },
+        });
+      } else {
+        record.refundBlockedReason = out.decision.reason || 'dry_run';
+      }
+    }
+  }
+  return earlyFraudWarnings.put(record);
+}
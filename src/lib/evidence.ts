@@ -1,4 +1,8 @@
 import Stripe from 'stripe';
+import type { EvidenceFiles } from './attachments';
+import { formatAmount } from './currency';
+import { scoreEvidence } from './scoring';
+import type { EvidenceDraft, MerchantSettings, NarrativeField, ScoreBreakdownItem, ScoreField } from './types';
 
 function trim(v?: string | null): string {
   return (v || '').trim();
@@ -21,37 +25,37 @@ export type EvidenceInput = {
   supportEmail?: string;
   supportPhone?: string;
   supportUrl?: string;
+  /** Uploaded Stripe file ids keyed by evidence field. */
+  files?: EvidenceFiles;
+  scoringOverrides?: MerchantSettings['scoringOverrides'];
+  /** Visa CE 3.0 block, only set when the dispute qualified. */
+  visaCe3?: Stripe.DisputeUpdateParams.Evidence.EnhancedEvidence.VisaCompellingEvidence3;
 };
 
 export type BuiltEvidence = {
   payload: Stripe.DisputeUpdateParams;
   score: number;
+  breakdown: ScoreBreakdownItem[];
   summary: string[];
 };
 
-export type EvidenceDraft = {
-  headline: string;
-  narrative: string;
-  checklist: string[];
-  suggestedAttachments: string[];
-};
+export type { EvidenceDraft };
 
-function scoreEvidence(i: EvidenceInput, summary: string[]): number {
-  let score = 0;
-  if (i.customerName) score += 10;
-  if (i.customerEmail) score += 10;
-  if (i.productDescription) score += 15;
-  if (i.supportInteraction) score += 15;
-  if (i.termsUrl) score += 10;
-  if (i.refundPolicyUrl) score += 10;
-  if (i.cancellationPolicyUrl) score += 10;
-  if (i.accessLog) score += 10;
-  if (i.shippingTrackingNumber) score += 10;
-  if (i.statementDescriptor) score += 5;
-  if (i.supportEmail || i.supportPhone || i.supportUrl) score += 5;
-
-  summary.push(`Evidence score: ${Math.min(100, score)}/100`);
-  return Math.min(100, score);
+// Signals the scoring engine can see on this input.
+function presentFields(i: EvidenceInput): Set<ScoreField> {
+  const present = new Set<ScoreField>(Object.keys(i.files || {}) as ScoreField[]);
+  if (i.customerName) present.add('customerName');
+  if (i.customerEmail) present.add('customerEmail');
+  if (i.productDescription) present.add('productDescription');
+  if (i.supportInteraction) present.add('supportInteraction');
+  if (i.termsUrl) present.add('termsUrl');
+  if (i.refundPolicyUrl) present.add('refundPolicyUrl');
+  if (i.cancellationPolicyUrl) present.add('cancellationPolicyUrl');
+  if (i.accessLog) present.add('accessLog');
+  if (i.shippingCarrier && i.shippingTrackingNumber) present.add('shippingTracking');
+  if (i.statementDescriptor) present.add('statementDescriptor');
+  if (i.supportEmail || i.supportPhone || i.supportUrl) present.add('supportChannels');
+  return present;
 }
 
 function reasonSpecificSummary(reason: string): string[] {
@@ -82,12 +86,21 @@ export function buildEvidencePackage(input: EvidenceInput): BuiltEvidence {
       product_description: trim(input.productDescription),
       service_date: trim(input.shippingDate),
       access_activity_log: trim(input.accessLog),
-      customer_communication: trim(input.supportInteraction),
       uncategorized_text: `Automated evidence packet generated for reason=${reason}`,
+      ...input.files,
+      ...(input.visaCe3 && { enhanced_evidence: { visa_compelling_evidence_3: input.visaCe3 } }),
     },
     submit: false,
   };
 
+  // customer_communication only takes a file id, so typed support notes go in the free-text field.
+  if (input.supportInteraction) {
+    base.evidence = {
+      ...base.evidence,
+      uncategorized_text: `${base.evidence?.uncategorized_text}\nCustomer support: ${trim(input.supportInteraction)}`,
+    };
+  }
+
   if (input.termsUrl) {
     base.evidence = {
       ...base.evidence,
@@ -134,8 +147,42 @@ export function buildEvidencePackage(input: EvidenceInput): BuiltEvidence {
     };
   }
 
-  const score = scoreEvidence(input, summary);
-  return { payload: base, score, summary };
+  const files = Object.keys(input.files || {});
+  if (files.length) summary.push(`Attached files: ${files.join(', ')}.`);
+
+  const scored = scoreEvidence(reason, presentFields(input), input.scoringOverrides);
+  if (scored.missingRequired.length) summary.push(`Missing must-have evidence: ${scored.missingRequired.join('; ')}.`);
+  summary.push(`Evidence score: ${scored.score}/100`);
+  return { payload: base, score: scored.score, breakdown: scored.breakdown, summary };
+}
+
+// Reasons with a dedicated rebuttal field; the rest carry the narrative in uncategorized_text.
+const narrativeFields: Record<string, NarrativeField> = {
+  subscription_canceled: 'cancellation_rebuttal',
+  credit_not_processed: 'refund_refusal_explanation',
+  duplicate: 'duplicate_charge_explanation',
+};
+
+export function narrativeFieldFor(reason: string): NarrativeField {
+  return narrativeFields[reason] || 'uncategorized_text';
+}
+
+/**
+ * Writes a saved draft narrative into the evidence. In uncategorized_text it goes ahead of the
+ * packet notes (policy URLs, support channels) rather than replacing them; `previous` is the
+ * narrative applied last time, stripped first so re-saving doesn't stack copies.
+ */
+export function applyNarrative(
+  evidence: Stripe.DisputeUpdateParams.Evidence | undefined,
+  field: NarrativeField,
+  narrative: string,
+  previous?: string,
+): Stripe.DisputeUpdateParams.Evidence {
+  if (field !== 'uncategorized_text') return { ...evidence, [field]: narrative.trim() };
+  const prior = previous?.trim();
+  let rest = evidence?.uncategorized_text || '';
+  if (prior && rest.startsWith(prior)) rest = rest.slice(prior.length).replace(/^\n\n/, '');
+  return { ...evidence, uncategorized_text: [narrative.trim(), rest].filter(Boolean).join('\n\n') };
 }
 
 export function generateEvidenceDraft(input: {
@@ -152,6 +199,8 @@ export function generateEvidenceDraft(input: {
   onboardingProof?: string;
   deliveryProof?: string;
   supportPolicy?: string;
+  /** The merchant's rendered narrative for this reason; replaces the built-in one. */
+  reasonText?: string;
 }): EvidenceDraft {
   const reasonTemplates: Record<string, string> = {
     fraudulent:
@@ -167,15 +216,14 @@ export function generateEvidenceDraft(input: {
   };
 
   const headline = `Evidence draft for ${input.disputeId} (${input.reason})`;
-  const amountText = new Intl.NumberFormat(undefined, {
-    style: 'currency',
-    currency: (input.currency || 'usd').toUpperCase(),
-  }).format((input.amount || 0) / 100);
+  const amountText = formatAmount(input.amount || 0, input.currency || 'usd');
   const dueText = input.dueBy ? new Date(input.dueBy * 1000).toISOString() : 'unknown deadline';
 
   const narrative = [
     `Dispute amount: ${amountText}. Evidence due by: ${dueText}.`,
-    reasonTemplates[input.reason] || 'This charge is valid and supported by customer communications, policy disclosures, and service fulfillment records.',
+    input.reasonText ||
+      reasonTemplates[input.reason] ||
+      'This charge is valid and supported by customer communications, policy disclosures, and service fulfillment records.',
     input.productDescription ? `Product context: ${input.productDescription}` : '',
     input.evidenceSummary?.length ? `Current evidence notes: ${input.evidenceSummary.join(' ')}` : '',
   ]
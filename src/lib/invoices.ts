@@ -0,0 +1,286 @@
+import { randomBytes } from 'crypto';
+import { recordAudit } from './audit';
+import { convertAmount, minorUnitDigits, reportingCurrencyOf, toMajorUnits } from './currency';
+import { monthKey, previousMonth } from './network-ratios';
+import { PDF_LINE_WIDTH, textPdf } from './pdf';
+import { getStore } from './storage';
+import type { InvoiceLine, InvoiceRecord, InvoiceStatus, MerchantRecord } from './types';
+
+// Issued invoices are final: they can be paid or voided, and a voided period is billed again from
+// a new draft.
+const transitions: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['issued', 'void'],
+  issued: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+/** Start and (exclusive) end of a `YYYY-MM` billing period. */
+export function periodBounds(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return { start: new Date(Date.UTC(year, month - 1, 1)), end: new Date(Date.UTC(year, month, 1)) };
+}
+
+export function listInvoices(merchantId?: string) {
+  return getStore()
+    .invoices.list(merchantId)
+    .sort((a, b) => (a.period === b.period ? (a.createdAt < b.createdAt ? 1 : -1) : a.period < b.period ? 1 : -1));
+}
+
+export function getInvoice(id: string) {
+  return getStore().invoices.get(id);
+}
+
+const activeInvoice = (merchantId: string, period: string) =>
+  getStore()
+    .invoices.find({ merchantId, period })
+    .find((i) => i.status !== 'void');
+
+// What earlier invoices already charged for, so nothing is billed twice. Voided invoices don't count.
+function billedItems(merchantId: string, excludeId?: string) {
+  const fees = new Map<string, InvoiceLine>();
+  const reversed = new Set<string>();
+  for (const invoice of getStore().invoices.list(merchantId)) {
+    if (invoice.status === 'void' || invoice.id === excludeId) continue;
+    for (const line of invoice.lines) {
+      if (!line.reference) continue;
+      if (line.kind === 'deflection_reversal') reversed.add(line.reference);
+      else fees.set(line.reference, line);
+    }
+  }
+  return { fees, reversed };
+}
+
+const formatMinor = (amount: number, currency: string) =>
+  toMajorUnits(amount, currency).toFixed(minorUnitDigits(currency));
+
+/**
+ * Builds the invoice lines for a closed period: a recovery fee for each won dispute and a fee for
+ * each confirmed deflection not billed before, a reversal for billed deflections voided since,
+ * and a credit that brings fees down to recovered / `roiGuaranteeMultiplier` when the guarantee
+ * isn't met.
+ */
+function computeInvoice(merchant: MerchantRecord, period: string, excludeId?: string) {
+  const { settings } = merchant;
+  const reporting = reportingCurrencyOf(settings);
+  const end = periodBounds(period).end.toISOString();
+  const { fees, reversed } = billedItems(merchant.id, excludeId);
+  const lines: InvoiceLine[] = [];
+  const unconverted: string[] = [];
+  let recoveredAmount = 0;
+
+  const won = getStore()
+    .disputes.list(merchant.id)
+    .filter((d) => d.status === 'won' && d.updatedAt < end && !fees.has(d.id))
+    .sort((a, b) => (a.updatedAt < b.updatedAt ? -1 : 1));
+  for (const dispute of won) {
+    const converted = convertAmount(dispute.amount, dispute.currency, reporting);
+    if (converted === undefined) {
+      unconverted.push(dispute.id);
+      continue;
+    }
+    recoveredAmount += converted;
+    lines.push({
+      kind: 'recovery_fee',
+      reference: dispute.id,
+      chargeId: dispute.chargeId,
+      description: `Recovery fee ${settings.recoveryFeePct}% on won dispute ${dispute.id}`,
+      baseAmount: dispute.amount,
+      baseCurrency: dispute.currency,
+      amount: Math.round(converted * (settings.recoveryFeePct / 100)),
+    });
+  }
+
+  const deflections = getStore()
+    .deflectionCharges.list(merchant.id)
+    .filter((c) => c.updatedAt < end)
+    .sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+  for (const charge of deflections) {
+    const billed = fees.get(charge.id);
+    if (charge.status === 'voided' && billed && !reversed.has(charge.id)) {
+      lines.push({
+        kind: 'deflection_reversal',
+        reference: charge.id,
+        chargeId: charge.chargeId,
+        description: `Reversal: chargeback arrived after deflection ${charge.id}`,
+        amount: -billed.amount,
+      });
+      continue;
+    }
+    if (charge.status !== 'billable' || billed) continue;
+    const converted = convertAmount(charge.fee, charge.currency, reporting);
+    if (converted === undefined) {
+      unconverted.push(charge.id);
+      continue;
+    }
+    lines.push({
+      kind: 'deflection_fee',
+      reference: charge.id,
+      chargeId: charge.chargeId,
+      description: `Deflection fee, ${charge.source} alert on ${charge.chargeId}`,
+      amount: converted,
+    });
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const multiplier = settings.roiGuaranteeMultiplier;
+  const roi = subtotal > 0 ? Number((recoveredAmount / subtotal).toFixed(2)) : 0;
+  const roiGuaranteeMet = !multiplier || subtotal <= 0 || recoveredAmount >= subtotal * multiplier;
+  const credit = roiGuaranteeMet ? 0 : subtotal - Math.floor(recoveredAmount / multiplier);
+  if (credit > 0) {
+    const recovered = formatMinor(recoveredAmount, reporting.currency);
+    lines.push({
+      kind: 'roi_credit',
+      description: `ROI guarantee credit: fees capped at 1/${multiplier} of ${recovered} recovered`,
+      amount: -credit,
+    });
+  }
+
+  return {
+    currency: reporting.currency,
+    lines,
+    subtotal,
+    credit,
+    total: subtotal - credit,
+    recoveryFeePct: settings.recoveryFeePct,
+    alertDeflectionFeeCents: settings.alertDeflectionFeeCents,
+    roiGuaranteeMultiplier: multiplier,
+    recoveredAmount,
+    roi,
+    roiGuaranteeMet,
+    unconverted,
+  };
+}
+
+function invoiceAudit(invoice: InvoiceRecord, action: string, actor: string, before: unknown, after: unknown) {
+  recordAudit({
+    merchantId: invoice.merchantId,
+    actor,
+    action,
+    entityType: 'merchant',
+    entityId: invoice.merchantId,
+    diff: { [`invoice.${invoice.id}`]: { before, after } },
+  });
+}
+
+/**
+ * Drafts the merchant's invoice for a closed period, or recomputes the period's existing draft.
+ * Fails with `period_open` before the period ends and `invoice_issued` once it has been issued.
+ */
+export function draftInvoice(merchant: MerchantRecord, period: string, actor: string, now = new Date()) {
+  if (periodBounds(period).end > now) return { error: 'period_open' as const };
+  return getStore().transaction(() => {
+    const existing = activeInvoice(merchant.id, period);
+    if (existing && existing.status !== 'draft') return { error: 'invoice_issued' as const, invoice: existing };
+    const timestamp = now.toISOString();
+    const invoice = getStore().invoices.put({
+      id: existing?.id || `inv_${randomBytes(8).toString('hex')}`,
+      merchantId: merchant.id,
+      period,
+      status: 'draft',
+      ...computeInvoice(merchant, period, existing?.id),
+      createdAt: existing?.createdAt || timestamp,
+      updatedAt: timestamp,
+    });
+    invoiceAudit(
+      invoice,
+      existing ? 'invoice.recomputed' : 'invoice.drafted',
+      actor,
+      existing ? { total: existing.total } : null,
+      { period, status: 'draft', total: invoice.total, currency: invoice.currency },
+    );
+    return { invoice };
+  });
+}
+
+/** Drafts the invoice for the period before `now` unless that period has one or nothing to bill. */
+export function closeBillingPeriod(merchant: MerchantRecord, now = new Date()) {
+  const period = previousMonth(monthKey(now));
+  if (activeInvoice(merchant.id, period) || !computeInvoice(merchant, period).lines.length) return undefined;
+  const out = draftInvoice(merchant, period, 'billing_close', now);
+  return 'invoice' in out ? out.invoice : undefined;
+}
+
+/** Moves an invoice along draft → issued → paid, or to void. Lines and amounts never change here. */
+export function transitionInvoice(id: string, to: InvoiceStatus, actor: string, reason?: string, now = new Date()) {
+  return getStore().transaction(() => {
+    const invoice = getInvoice(id);
+    if (!invoice) return { error: 'invoice_not_found' as const };
+    if (!transitions[invoice.status].includes(to)) {
+      return { error: 'invalid_transition' as const, from: invoice.status, to };
+    }
+    const timestamp = now.toISOString();
+    const updated = getStore().invoices.put({
+      ...invoice,
+      status: to,
+      updatedAt: timestamp,
+      ...(to === 'issued' && { issuedAt: timestamp }),
+      ...(to === 'paid' && { paidAt: timestamp }),
+      ...(to === 'void' && { voidedAt: timestamp, voidReason: reason }),
+    });
+    invoiceAudit(updated, `invoice.${to === 'void' ? 'voided' : to}`, actor, invoice.status, to);
+    return { invoice: updated };
+  });
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per line item; the `amount` column adds up to the invoice total. */
+export function invoiceCsv(invoice: InvoiceRecord) {
+  const header = [
+    'invoice_id',
+    'period',
+    'status',
+    'kind',
+    'reference',
+    'charge_id',
+    'description',
+    'base_amount',
+    'base_currency',
+    'amount',
+    'currency',
+  ];
+  const rows = invoice.lines.map((line) => [
+    invoice.id,
+    invoice.period,
+    invoice.status,
+    line.kind,
+    line.reference,
+    line.chargeId,
+    line.description,
+    line.baseAmount === undefined ? undefined : formatMinor(line.baseAmount, line.baseCurrency || invoice.currency),
+    line.baseCurrency?.toUpperCase(),
+    formatMinor(line.amount, invoice.currency),
+    invoice.currency.toUpperCase(),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function invoicePdf(invoice: InvoiceRecord, merchantName: string) {
+  const currency = invoice.currency.toUpperCase();
+  const label = (text: string) => text.slice(0, PDF_LINE_WIDTH - 16).padEnd(PDF_LINE_WIDTH - 16);
+  const row = (text: string, amount: number) => `${label(text)}  ${formatMinor(amount, invoice.currency).padStart(14)}`;
+  const rule = '-'.repeat(PDF_LINE_WIDTH);
+  return textPdf([
+    `INVOICE ${invoice.id}`,
+    '',
+    `Merchant:  ${merchantName} (${invoice.merchantId})`,
+    `Period:    ${invoice.period}`,
+    `Status:    ${invoice.status}${invoice.issuedAt ? `, issued ${invoice.issuedAt.slice(0, 10)}` : ''}`,
+    `Currency:  ${currency}`,
+    '',
+    `${label('Description')}  ${'Amount'.padStart(14)}`,
+    rule,
+    ...invoice.lines.filter((line) => line.kind !== 'roi_credit').map((line) => row(line.description, line.amount)),
+    rule,
+    row('Subtotal', invoice.subtotal),
+    ...(invoice.credit ? [row(`ROI guarantee credit (${invoice.roiGuaranteeMultiplier}x)`, -invoice.credit)] : []),
+    row(`Total (${currency})`, invoice.total),
+    '',
+    `Recovered ${formatMinor(invoice.recoveredAmount, invoice.currency)} ${currency}; ROI ${invoice.roi}x ` +
+      `against a ${invoice.roiGuaranteeMultiplier}x guarantee.`,
+  ]);
+}
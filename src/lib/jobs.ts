@@ -0,0 +1,244 @@
+import { randomBytes } from 'crypto';
+import os from 'os';
+import { getStore } from './storage';
+import type { JobRecord, JobStatus } from './types';
+
+/**
+ * What a handler can report besides plain success. Throwing means "try again later" with
+ * backoff; `cancel` ends the job without retrying (the work no longer applies); `runAt` puts it
+ * back on the schedule without counting an attempt.
+ */
+export type JobOutcome = { message?: string; cancel?: boolean; runAt?: Date } | void;
+
+export type JobHandler = (job: JobRecord) => Promise<JobOutcome>;
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 6;
+// A job still marked running after this long belongs to a worker that died; anyone may take it.
+const LEASE_MS = 5 * 60 * 1000;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const HISTORY_LIMIT = 10;
+
+export const workerId = `${os.hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+/** 30s, 1m, 2m, 4m ... capped at an hour. */
+export function backoffMs(attempts: number) {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Schedules `type` work identified by `key`. Scheduling it again moves the run time of a job
+ * that hasn't started; a job that already succeeded is left alone so the work isn't repeated,
+ * while failed or cancelled ones start over.
+ */
+export function scheduleJob(input: {
+  type: string;
+  key: string;
+  runAt: Date;
+  merchantId?: string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+  everyMs?: number;
+}) {
+  const { jobs } = getStore();
+  const id = `${input.type}:${input.key}`;
+  return getStore().transaction(() => {
+    const existing = jobs.get(id);
+    if (existing?.status === 'running' || (existing?.status === 'succeeded' && !existing.everyMs)) return existing;
+    const now = new Date().toISOString();
+    return jobs.put({
+      id,
+      type: input.type,
+      merchantId: input.merchantId,
+      payload: input.payload || {},
+      status: 'scheduled',
+      runAt: input.runAt.toISOString(),
+      everyMs: input.everyMs,
+      attempts: existing?.status === 'scheduled' ? existing.attempts : 0,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      lastError: existing?.lastError,
+      lastResult: existing?.lastResult,
+      history: existing?.history || [],
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+  });
+}
+
+/** Recurring job every `everyMs`, or cancels it when `everyMs` is unset (the feature was switched off). */
+export function scheduleRecurringJob(type: string, everyMs: number | undefined, now = new Date()) {
+  if (!everyMs) return cancelJob(`${type}:recurring`);
+  const existing = getJob(`${type}:recurring`);
+  if (existing?.everyMs === everyMs && (existing.status === 'scheduled' || existing.status === 'running')) {
+    return existing;
+  }
+  return scheduleJob({ type, key: 'recurring', runAt: now, everyMs });
+}
+
+export function getJob(id: string) {
+  return getStore().jobs.get(id);
+}
+
+export function listJobs(merchantId?: string, filter: { status?: JobStatus; type?: string } = {}) {
+  return getStore()
+    .jobs.list(merchantId)
+    .filter((j) => !filter.status || j.status === filter.status)
+    .filter((j) => !filter.type || j.type === filter.type)
+    .sort((a, b) => (a.runAt < b.runAt ? -1 : 1));
+}
+
+export function cancelJob(id: string) {
+  const { jobs } = getStore();
+  return getStore().transaction(() => {
+    const job = jobs.get(id);
+    if (!job || job.status !== 'scheduled') return job;
+    const now = new Date().toISOString();
+    return jobs.put({ ...job, status: 'cancelled', lastResult: 'cancelled', updatedAt: now, finishedAt: now });
+  });
+}
+
+function claimable(job: JobRecord, now: string) {
+  if (job.status === 'scheduled') return job.runAt <= now;
+  return job.status === 'running' && !!job.lockedUntil && job.lockedUntil <= now;
+}
+
+/** Takes the lease on up to `limit` due jobs. Runs in one transaction, so two workers never both get a job. */
+export function claimDueJobs(worker = workerId, now = new Date(), limit = 20) {
+  const { jobs } = getStore();
+  const at = now.toISOString();
+  return getStore().transaction(() => {
+    const due = [...jobs.find({ status: 'scheduled' }), ...jobs.find({ status: 'running' })]
+      .filter((job) => claimable(job, at))
+      .sort((a, b) => (a.runAt < b.runAt ? -1 : 1))
+      .slice(0, limit);
+    return due.map((job) =>
+      jobs.put({
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedBy: worker,
+        lockedUntil: new Date(now.getTime() + LEASE_MS).toISOString(),
+        updatedAt: at,
+      }),
+    );
+  });
+}
+
+/** Claims one job now, whatever its run time; for manual runs from the API. */
+export function claimJob(id: string, worker = workerId, now = new Date()) {
+  const { jobs } = getStore();
+  return getStore().transaction(() => {
+    const job = jobs.get(id);
+    if (!job || (job.status === 'running' && !claimable(job, now.toISOString()))) return undefined;
+    return jobs.put({
+      ...job,
+      status: 'running',
+      attempts: job.status === 'scheduled' ? job.attempts + 1 : 1,
+      lockedBy: worker,
+      lockedUntil: new Date(now.getTime() + LEASE_MS).toISOString(),
+      updatedAt: now.toISOString(),
+    });
+  });
+}
+
+function settle(job: JobRecord, worker: string, now: Date, success: boolean, message: string, outcome: JobOutcome) {
+  const { jobs } = getStore();
+  return getStore().transaction(() => {
+    const current = jobs.get(job.id);
+    // The lease ran out and another worker took over; its result wins.
+    if (!current || current.lockedBy !== worker || current.status !== 'running') return current;
+    const at = now.toISOString();
+    const history = [...current.history, { at, worker, success, message }].slice(-HISTORY_LIMIT);
+    const base = { ...current, history, lockedBy: undefined, lockedUntil: undefined, updatedAt: at };
+
+    let next: Pick<JobRecord, 'status' | 'runAt' | 'attempts'> & Partial<JobRecord>;
+    if (current.everyMs) {
+      next = { status: 'scheduled', runAt: new Date(now.getTime() + current.everyMs).toISOString(), attempts: 0 };
+    } else if (outcome?.runAt) {
+      next = { status: 'scheduled', runAt: outcome.runAt.toISOString(), attempts: current.attempts - 1 };
+    } else if (success) {
+      const status = outcome?.cancel ? 'cancelled' : 'succeeded';
+      next = { status, runAt: current.runAt, attempts: current.attempts, finishedAt: at };
+    } else if (current.attempts >= current.maxAttempts) {
+      next = { status: 'failed', runAt: current.runAt, attempts: current.attempts, finishedAt: at };
+    } else {
+      next = {
+        status: 'scheduled',
+        runAt: new Date(now.getTime() + backoffMs(current.attempts)).toISOString(),
+        attempts: current.attempts,
+      };
+    }
+    return jobs.put({
+      ...base,
+      ...next,
+      lastResult: success ? message : current.lastResult,
+      lastError: success ? current.lastError : message,
+    });
+  });
+}
+
+/** Runs a claimed job through its handler and records the outcome. Never throws. */
+export async function runJob(job: JobRecord, worker = workerId) {
+  const handler = handlers.get(job.type);
+  if (!handler) return settle(job, worker, new Date(), false, `no handler for ${job.type}`, undefined);
+  try {
+    const outcome = await handler(job);
+    return settle(job, worker, new Date(), true, outcome?.message || 'ok', outcome);
+  } catch (err) {
+    return settle(job, worker, new Date(), false, (err as Error).message, undefined);
+  }
+}
+
+/**
+ * Restarts the lease on a job this worker still holds, so one claimed early in a pass doesn't expire
+ * while the jobs before it run. Returns undefined once another worker has taken it over.
+ */
+export function renewJobLease(job: JobRecord, worker = workerId, now = new Date()) {
+  const { jobs } = getStore();
+  return getStore().transaction(() => {
+    const current = jobs.get(job.id);
+    if (!current || current.lockedBy !== worker || current.status !== 'running') return undefined;
+    return jobs.put({
+      ...current,
+      lockedUntil: new Date(now.getTime() + LEASE_MS).toISOString(),
+      updatedAt: now.toISOString(),
+    });
+  });
+}
+
+/** One pass of the worker: claims what's due and runs it in order. Returns how many ran. */
+export async function runDueJobs(worker = workerId, now = new Date()) {
+  let ran = 0;
+  for (const job of claimDueJobs(worker, now)) {
+    const leased = renewJobLease(job, worker);
+    if (!leased) continue;
+    await runJob(leased, worker);
+    ran++;
+  }
+  return ran;
+}
+
+/** Polls for due jobs until stopped. Passes never overlap within one process. */
+export function startJobWorker(pollMs = 5000) {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  const tick = async () => {
+    try {
+      await runDueJobs();
+    } catch (err) {
+      console.error('job worker pass failed', err);
+    }
+    if (!stopped) timer = setTimeout(tick, pollMs);
+  };
+  timer = setTimeout(tick, 0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
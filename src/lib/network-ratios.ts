@@ -0,0 +1,252 @@
+import type Stripe from 'stripe';
+import { recordAudit } from './audit';
+import { isInquiry } from './dispute-lifecycle';
+import { getStore } from './storage';
+import type { DisputeRecord, RatioAlertRecord, TransactionVolumeRecord } from './types';
+
+export type CardNetwork = 'visa' | 'mastercard';
+
+export type ThresholdLevel = { level: string; label: string; ratioPct: number; minDisputes: number };
+
+export type NetworkProgram = {
+  program: string;
+  /** Which month's transactions the month's disputes are divided by. */
+  window: 'same_month' | 'previous_month';
+  levels: ThresholdLevel[];
+};
+
+// Visa folded VDMP into VAMP in 2025; acquirers still use the old VDMP levels as early warnings.
+// VAMP counts fraud reports (TC40) as well as disputes, but TC40s don't reach Stripe, so only
+// disputes are counted here. Mastercard divides this month's chargebacks by last month's
+// transactions.
+export const networkPrograms: Record<CardNetwork, NetworkProgram> = {
+  visa: {
+    program: 'VAMP',
+    window: 'same_month',
+    levels: [
+      { level: 'early_warning', label: 'VDMP early warning', ratioPct: 0.65, minDisputes: 75 },
+      { level: 'standard', label: 'VDMP standard', ratioPct: 0.9, minDisputes: 100 },
+      { level: 'excessive', label: 'VAMP excessive', ratioPct: 1.5, minDisputes: 1500 },
+    ],
+  },
+  mastercard: {
+    program: 'ECM',
+    window: 'previous_month',
+    levels: [
+      { level: 'early_warning', label: 'Chargeback Monitored Merchant', ratioPct: 1.0, minDisputes: 100 },
+      { level: 'excessive', label: 'Excessive Chargeback Merchant', ratioPct: 1.5, minDisputes: 100 },
+      { level: 'high_excessive', label: 'High Excessive Chargeback Merchant', ratioPct: 3.0, minDisputes: 300 },
+    ],
+  },
+};
+
+export type NetworkRatio = {
+  network: CardNetwork;
+  program: string;
+  window: NetworkProgram['window'];
+  disputes: number;
+  transactions: number;
+  ratioPct: number;
+  projectedDisputes: number;
+  projectedTransactions: number;
+  projectedRatioPct: number;
+  /** Highest level reached so far, and the highest the month-end projection reaches. */
+  reached?: ThresholdLevel;
+  projected?: ThresholdLevel;
+};
+
+// Charges from the last minute are left for the next refresh so none are counted twice.
+const SETTLE_SECONDS = 60;
+
+export function monthKey(date: Date) {
+  return date.toISOString().slice(0, 7);
+}
+
+function monthBounds(month: string) {
+  const [year, m] = month.split('-').map(Number);
+  return { start: Date.UTC(year, m - 1, 1) / 1000, end: Date.UTC(year, m, 1) / 1000 };
+}
+
+export function previousMonth(month: string) {
+  const { start } = monthBounds(month);
+  return monthKey(new Date((start - 1) * 1000));
+}
+
+/**
+ * Counts the merchant's succeeded card charges for a month by brand. Finished months are counted
+ * once; the current month only pages through charges created since the last refresh.
+ */
+export async function refreshTransactionVolume(
+  stripe: Stripe,
+  merchantId: string,
+  month: string,
+  now = new Date(),
+): Promise<TransactionVolumeRecord> {
+  const { transactionVolumes } = getStore();
+  const id = `${merchantId}:${month}`;
+  const existing = transactionVolumes.get(id);
+  if (existing?.complete) return existing;
+
+  const { start, end } = monthBounds(month);
+  const from = existing?.countedUntil ?? start - 1;
+  const until = Math.min(end - 1, Math.floor(now.getTime() / 1000) - SETTLE_SECONDS);
+  const counts = { ...existing?.counts };
+
+  let startingAfter: string | undefined;
+  for (;;) {
+    const page = await stripe.charges.list({
+      created: { gt: from, lte: until },
+      limit: 100,
+      ...(startingAfter && { starting_after: startingAfter }),
+    });
+    for (const charge of page.data) {
+      if (charge.status !== 'succeeded') continue;
+      const brand = charge.payment_method_details?.card?.brand || 'other';
+      counts[brand] = (counts[brand] || 0) + 1;
+    }
+    if (!page.has_more || !page.data.length) break;
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+
+  return transactionVolumes.put({
+    id,
+    merchantId,
+    month,
+    counts,
+    countedUntil: Math.max(from, until),
+    complete: until >= end - 1,
+    refreshedAt: now.toISOString(),
+  });
+}
+
+export function storedTransactionVolume(merchantId: string, month: string) {
+  return getStore().transactionVolumes.get(`${merchantId}:${month}`);
+}
+
+function pct(count: number, total: number) {
+  return total ? Number(((count / total) * 100).toFixed(3)) : 0;
+}
+
+function highestLevel(levels: ThresholdLevel[], ratioPct: number, disputes: number) {
+  return levels.filter((l) => ratioPct >= l.ratioPct && disputes >= l.minDisputes).pop();
+}
+
+/**
+ * Ratios per network for `month` using each network's count window, plus a straight-line
+ * projection to month end from how far through the month `now` is.
+ */
+export function computeNetworkRatios(input: {
+  month: string;
+  now: Date;
+  disputes: DisputeRecord[];
+  volume?: Pick<TransactionVolumeRecord, 'counts'>;
+  previousVolume?: Pick<TransactionVolumeRecord, 'counts'>;
+}): NetworkRatio[] {
+  const { start, end } = monthBounds(input.month);
+  const nowSec = input.now.getTime() / 1000;
+  const elapsed = Math.min(1, Math.max((nowSec - start) / (end - start), 1 / 31));
+
+  return (Object.entries(networkPrograms) as [CardNetwork, NetworkProgram][]).map(([network, program]) => {
+    // Inquiries don't count toward any program until they escalate to a chargeback.
+    const disputes = input.disputes.filter(
+      (d) =>
+        d.network === network &&
+        !isInquiry(d.status) &&
+        d.disputeCreatedAt &&
+        d.disputeCreatedAt >= start &&
+        d.disputeCreatedAt < end,
+    ).length;
+    const sameMonth = program.window === 'same_month';
+    const transactions = (sameMonth ? input.volume : input.previousVolume)?.counts[network] || 0;
+    const projectedDisputes = Math.round(disputes / elapsed);
+    // A previous-month denominator is already final; a same-month one grows with the month.
+    const projectedTransactions = sameMonth ? Math.round(transactions / elapsed) : transactions;
+    const ratioPct = pct(disputes, transactions);
+    const projectedRatioPct = pct(projectedDisputes, projectedTransactions);
+    return {
+      network,
+      program: program.program,
+      window: program.window,
+      disputes,
+      transactions,
+      ratioPct,
+      projectedDisputes,
+      projectedTransactions,
+      projectedRatioPct,
+      reached: highestLevel(program.levels, ratioPct, disputes),
+      projected: highestLevel(program.levels, projectedRatioPct, projectedDisputes),
+    };
+  });
+}
+
+/**
+ * Records an alert the first time in a month a level is projected or reached, and returns only
+ * the new ones. A projection to the level already reached isn't alerted separately.
+ */
+export function recordRatioAlerts(merchantId: string, month: string, ratios: NetworkRatio[], now = new Date()) {
+  const { ratioAlerts } = getStore();
+  const fired: RatioAlertRecord[] = [];
+  for (const ratio of ratios) {
+    const candidates: [RatioAlertRecord['kind'], ThresholdLevel | undefined][] = [
+      ['reached', ratio.reached],
+      ['projected', ratio.projected !== ratio.reached ? ratio.projected : undefined],
+    ];
+    for (const [kind, level] of candidates) {
+      if (!level) continue;
+      const id = `${merchantId}:${month}:${ratio.network}:${level.level}:${kind}`;
+      if (ratioAlerts.get(id)) continue;
+      const alert = ratioAlerts.put({
+        id,
+        merchantId,
+        month,
+        network: ratio.network,
+        program: ratio.program,
+        level: level.level,
+        kind,
+        ratioPct: ratio.ratioPct,
+        projectedRatioPct: ratio.projectedRatioPct,
+        thresholdPct: level.ratioPct,
+        disputes: ratio.disputes,
+        transactions: ratio.transactions,
+        firedAt: now.toISOString(),
+      });
+      recordAudit({
+        merchantId,
+        actor: 'ratio_monitor',
+        action: `ratio.threshold_${kind}`,
+        entityType: 'merchant',
+        entityId: merchantId,
+        diff: { [`${ratio.network}.${level.level}`]: { before: null, after: ratio.projectedRatioPct } },
+      });
+      fired.push(alert);
+    }
+  }
+  return fired;
+}
+
+export function listRatioAlerts(merchantId: string) {
+  return getStore()
+    .ratioAlerts.list(merchantId)
+    .sort((a, b) => (a.firedAt < b.firedAt ? 1 : -1));
+}
+
+/** Brings this month's and last month's volumes up to date, then checks them against the thresholds. */
+export async function monitorNetworkRatios(stripe: Stripe, merchantId: string, now = new Date()) {
+  const month = monthKey(now);
+  const previous = previousMonth(month);
+  const previousVolume = await refreshTransactionVolume(stripe, merchantId, previous, now);
+  const volume = await refreshTransactionVolume(stripe, merchantId, month, now);
+  const disputes = getStore().disputes.list(merchantId);
+  const ratios = computeNetworkRatios({ month, now, disputes, volume, previousVolume });
+  return { month, volume, previousVolume, ratios, alerts: recordRatioAlerts(merchantId, month, ratios, now) };
+}
+
+/** Ratios from the volumes counted so far, without calling Stripe; undefined until a first refresh. */
+export function latestNetworkRatios(merchantId: string, now = new Date()) {
+  const month = monthKey(now);
+  const volume = storedTransactionVolume(merchantId, month);
+  const previousVolume = storedTransactionVolume(merchantId, previousMonth(month));
+  if (!volume && !previousVolume) return undefined;
+  const disputes = getStore().disputes.list(merchantId);
+  return computeNetworkRatios({ month, now, disputes, volume, previousVolume });
+}
@@ -0,0 +1,427 @@
+import { createHmac, randomBytes } from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { diffRecords, recordAudit } from './audit';
+import { formatAmount } from './currency';
+import { scheduleJob } from './jobs';
+import { decryptSecret, encryptSecret } from './secrets';
+import { sendMail, smtpConfigFromEnv } from './smtp';
+import { getStore } from './storage';
+import type {
+  DisputeRecord,
+  NotificationAttempt,
+  NotificationChannelKind,
+  NotificationChannelRecord,
+  NotificationDeliveryRecord,
+  NotificationEvent,
+  RatioAlertRecord,
+} from './types';
+
+export const notificationEvents: NotificationEvent[] = [
+  'dispute.created',
+  'dispute.manual_review',
+  'dispute.due_soon',
+  'submission.failed',
+  'dispute.closed',
+  'ratio.threshold_crossed',
+];
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// 1m, 4m, 16m, 64m between attempts.
+const RETRY_BASE_MS = 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+export const SIGNATURE_HEADER = 'x-autopilot-signature';
+
+const notificationConfig = { allowPrivateUrls: false };
+
+/** `allowPrivateUrls` lets channels reach loopback and private networks, e.g. a local sink in development. */
+export function configureNotifications(next: Partial<typeof notificationConfig>) {
+  Object.assign(notificationConfig, next);
+}
+
+// Merchants choose channel URLs, so they must not reach the platform's own network or cloud metadata.
+const privateRanges = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  privateRanges.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  privateRanges.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string) {
+  return privateRanges.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Checks every address the host resolves to. Literal IPs resolve to themselves.
+async function assertPublicHost(url: string) {
+  if (notificationConfig.allowPrivateUrls) return;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(host, { all: true });
+  } catch {
+    throw new Error('host_not_found');
+  }
+  if (addresses.some((a) => isPrivateAddress(a.address))) throw new Error('destination_not_allowed');
+}
+
+/** Stripe-style signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. */
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** What the API returns: the URL's host only, and never the signing secret. */
+export function toPublicChannel(channel: NotificationChannelRecord) {
+  const { url, signingSecret, ...rest } = channel;
+  let host: string | undefined;
+  try {
+    host = url ? new URL(decryptSecret(url)).host : undefined;
+  } catch {
+    host = undefined;
+  }
+  return { ...rest, urlHost: host, hasSigningSecret: !!signingSecret };
+}
+
+export function listChannels(merchantId: string) {
+  return getStore().notificationChannels.list(merchantId);
+}
+
+export function getChannel(id: string) {
+  return getStore().notificationChannels.get(id);
+}
+
+type ChannelInput = {
+  kind: NotificationChannelKind;
+  name: string;
+  events: NotificationEvent[];
+  enabled?: boolean;
+  to?: string[];
+  url?: string;
+};
+
+// Audited through the public form, so URLs show as hosts and secrets never reach the log.
+function channelAudit(
+  action: string,
+  actor: string,
+  before?: NotificationChannelRecord,
+  after?: NotificationChannelRecord,
+) {
+  const channel = (after || before)!;
+  const diff = diffRecords(before && toPublicChannel(before), after && toPublicChannel(after));
+  recordAudit({
+    merchantId: channel.merchantId,
+    actor,
+    action,
+    entityType: 'merchant',
+    entityId: channel.merchantId,
+    diff: Object.fromEntries(Object.entries(diff).map(([key, change]) => [`channel.${key}`, change])),
+  });
+}
+
+/** Creates a channel. HTTP channels get a signing secret, returned here once and stored encrypted. */
+export function createChannel(merchantId: string, input: ChannelInput, actor: string) {
+  const now = new Date().toISOString();
+  const signingSecret = input.kind === 'http' ? `nsec_${randomBytes(24).toString('base64url')}` : undefined;
+  const channel = getStore().notificationChannels.put({
+    id: `nch_${randomBytes(8).toString('hex')}`,
+    merchantId,
+    kind: input.kind,
+    name: input.name,
+    events: input.events,
+    enabled: input.enabled ?? true,
+    to: input.kind === 'email' ? input.to : undefined,
+    url: input.kind !== 'email' && input.url ? encryptSecret(input.url) : undefined,
+    signingSecret: signingSecret && encryptSecret(signingSecret),
+    createdAt: now,
+    updatedAt: now,
+  });
+  channelAudit('notification_channel.created', actor, undefined, channel);
+  return { channel, signingSecret };
+}
+
+export function updateChannel(id: string, patch: Partial<Omit<ChannelInput, 'kind'>>, actor: string) {
+  const existing = getChannel(id);
+  if (!existing) return undefined;
+  const channel = getStore().notificationChannels.put({
+    ...existing,
+    ...(patch.name !== undefined && { name: patch.name }),
+    ...(patch.events !== undefined && { events: patch.events }),
+    ...(patch.enabled !== undefined && { enabled: patch.enabled }),
+    ...(patch.to !== undefined && existing.kind === 'email' && { to: patch.to }),
+    ...(patch.url !== undefined && existing.kind !== 'email' && { url: encryptSecret(patch.url) }),
+    updatedAt: new Date().toISOString(),
+  });
+  channelAudit('notification_channel.updated', actor, existing, channel);
+  return channel;
+}
+
+export function removeChannel(id: string, actor: string) {
+  const existing = getChannel(id);
+  if (!existing) return false;
+  getStore().notificationChannels.remove(id);
+  channelAudit('notification_channel.removed', actor, existing);
+  return true;
+}
+
+type Message = { subject: string; text: string };
+
+function day(unixSeconds?: number) {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString().slice(0, 10) : 'unknown';
+}
+
+export function disputeEventData(dispute: DisputeRecord) {
+  return {
+    disputeId: dispute.id,
+    reason: dispute.reason,
+    amount: dispute.amount,
+    currency: dispute.currency,
+    status: dispute.status,
+    dueBy: dispute.dueBy,
+    network: dispute.network,
+    manualReviewRequired: dispute.manualReviewRequired,
+    submitted: dispute.submitted,
+    latestError: dispute.latestError,
+  };
+}
+
+export function ratioAlertEventData(alert: RatioAlertRecord) {
+  const { id, merchantId, ...rest } = alert;
+  return { alertId: id, ...rest };
+}
+
+// Event data is stored as loose JSON (and comes back that way from the delivery log), so fields are narrowed here.
+const str = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+const num = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+export function describeEvent(event: NotificationDeliveryRecord['event'], data: Record<string, unknown>): Message {
+  const currency = str(data.currency);
+  const amount = currency ? formatAmount(num(data.amount) || 0, currency, 'en-US') : '';
+  const disputeId = str(data.disputeId);
+  const dueBy = num(data.dueBy);
+  const dispute = `${str(data.reason)} dispute ${disputeId} (${amount})`;
+  switch (event) {
+    case 'dispute.created':
+      return {
+        subject: `New dispute: ${amount} ${str(data.reason)}`,
+        text: `New ${dispute}. Evidence due ${day(dueBy)}.`,
+      };
+    case 'dispute.manual_review':
+      return {
+        subject: `Manual review needed: ${disputeId}`,
+        text: `The ${dispute} is above the manual review threshold and won't be submitted automatically. Evidence due ${day(dueBy)}.`,
+      };
+    case 'dispute.due_soon':
+      return {
+        subject: `Evidence due ${day(dueBy)}: ${disputeId}`,
+        text: `Evidence for the ${dispute} is due ${dueBy ? new Date(dueBy * 1000).toISOString() : 'soon'} and hasn't been submitted.`,
+      };
+    case 'submission.failed':
+      return {
+        subject: `Submission failed: ${disputeId}`,
+        text: `Submitting evidence for the ${dispute} failed: ${str(data.latestError) || 'unknown error'}.`,
+      };
+    case 'dispute.closed':
+      return {
+        subject: `Dispute ${str(data.status)}: ${disputeId}`,
+        text: `The ${dispute} closed as ${str(data.status)}.`,
+      };
+    case 'ratio.threshold_crossed': {
+      const ratio = str(data.kind === 'projected' ? data.projectedRatioPct : data.ratioPct);
+      const verb = data.kind === 'projected' ? 'is projected to cross' : 'crossed';
+      const network = str(data.network);
+      const threshold = str(data.thresholdPct);
+      return {
+        subject: `${network} chargeback ratio ${verb} ${threshold}%`,
+        text: `${network} (${str(data.program)}) chargeback ratio ${verb} the ${str(data.level)} threshold of ${threshold}% for ${str(data.month)}: ${ratio}% (${str(data.disputes)} disputes / ${str(data.transactions)} transactions so far).`,
+      };
+    }
+    default:
+      return { subject: 'Test notification', text: 'This is a test notification from stripe-dispute-autopilot.' };
+  }
+}
+
+// Redirects aren't followed (they could point anywhere) and count as failures. Network errors are
+// reduced to `timeout` or `connection_failed`: delivery attempts are shown to merchants, and the raw
+// errors would tell them which hosts and ports answer.
+async function post(url: string, body: string, headers: Record<string, string> = {}) {
+  await assertPublicHost(url);
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+  } catch (err) {
+    console.warn(`notification POST to ${new URL(url).host} failed`, err);
+    throw new Error((err as Error).name === 'TimeoutError' ? 'timeout' : 'connection_failed');
+  }
+  if (!res.ok) throw Object.assign(new Error(`HTTP ${res.status}`), { statusCode: res.status });
+  return res.status;
+}
+
+async function send(channel: NotificationChannelRecord, delivery: NotificationDeliveryRecord) {
+  const { text } = describeEvent(delivery.event, delivery.payload);
+  if (channel.kind === 'email') {
+    const smtp = smtpConfigFromEnv();
+    if (!smtp) throw new Error('smtp_not_configured');
+    await sendMail(smtp, { to: channel.to || [], subject: delivery.subject, text });
+    return undefined;
+  }
+  const url = channel.url && decryptSecret(channel.url);
+  if (!url) throw new Error('channel_url_missing');
+  if (channel.kind === 'chat') {
+    // Slack-compatible incoming webhook body; Mattermost, Rocket.Chat and Teams workflows accept it too.
+    return post(url, JSON.stringify({ text: `*${delivery.subject}*\n${text}` }));
+  }
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    merchantId: delivery.merchantId,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const secret = channel.signingSecret ? decryptSecret(channel.signingSecret) : '';
+  return post(url, body, { [SIGNATURE_HEADER]: signPayload(secret, body) });
+}
+
+/** One delivery attempt; schedules the next with exponential backoff until attempts run out. */
+export async function attemptDelivery(delivery: NotificationDeliveryRecord, now = new Date()) {
+  const { notificationDeliveries } = getStore();
+  const channel = getChannel(delivery.channelId);
+  let attempt: NotificationAttempt;
+  try {
+    if (!channel) throw new Error('channel_removed');
+    const statusCode = await send(channel, delivery);
+    attempt = { at: now.toISOString(), success: true, message: 'delivered', statusCode };
+  } catch (err) {
+    const statusCode = (err as { statusCode?: number }).statusCode;
+    attempt = { at: now.toISOString(), success: false, message: (err as Error).message, statusCode };
+  }
+
+  const attempts = [...delivery.attempts, attempt].slice(-MAX_DELIVERY_ATTEMPTS);
+  const exhausted = delivery.attempts.length + 1 >= MAX_DELIVERY_ATTEMPTS || !channel;
+  return notificationDeliveries.put({
+    ...delivery,
+    attempts,
+    status: attempt.success ? 'delivered' : exhausted ? 'failed' : 'pending',
+    nextAttemptAt:
+      attempt.success || exhausted
+        ? undefined
+        : new Date(now.getTime() + RETRY_BASE_MS * 4 ** delivery.attempts.length).toISOString(),
+    deliveredAt: attempt.success ? attempt.at : undefined,
+  });
+}
+
+/**
+ * Sends `event` to every enabled channel of the merchant subscribed to it. `key` identifies the
+ * occurrence (e.g. the dispute id), so repeated calls for the same thing notify once per channel.
+ * Never throws: failures are recorded on the delivery and retried by `retryDueDeliveries`.
+ */
+export async function notify(
+  merchantId: string | undefined,
+  event: NotificationEvent,
+  key: string,
+  data: Record<string, unknown>,
+) {
+  if (!merchantId) return [];
+  const { notificationDeliveries } = getStore();
+  const channels = listChannels(merchantId).filter((c) => c.enabled && c.events.includes(event));
+  const sent: NotificationDeliveryRecord[] = [];
+  for (const channel of channels) {
+    const id = `${channel.id}:${event}:${key}`;
+    if (notificationDeliveries.get(id)) continue;
+    const delivery = notificationDeliveries.put({
+      id,
+      merchantId,
+      channelId: channel.id,
+      event,
+      subject: describeEvent(event, data).subject,
+      payload: data,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date().toISOString(),
+    });
+    try {
+      sent.push(await attemptDelivery(delivery));
+    } catch (err) {
+      console.error(`notification ${id} failed`, err);
+    }
+  }
+  return sent;
+}
+
+/**
+ * `notify` from the job queue, for callers that shouldn't wait on channels (the Stripe webhook must
+ * answer quickly). The job id carries the occurrence key, so queueing it again is a no-op.
+ */
+export function queueNotification(
+  merchantId: string | undefined,
+  event: NotificationEvent,
+  key: string,
+  data: Record<string, unknown>,
+) {
+  if (!merchantId) return undefined;
+  return scheduleJob({
+    type: 'notification.send',
+    key: `${event}:${key}`,
+    runAt: new Date(),
+    merchantId,
+    payload: { event, key, data },
+  });
+}
+
+export async function sendTestNotification(channel: NotificationChannelRecord) {
+  const delivery = getStore().notificationDeliveries.put({
+    id: `${channel.id}:notification.test:${Date.now()}`,
+    merchantId: channel.merchantId,
+    channelId: channel.id,
+    event: 'notification.test',
+    subject: describeEvent('notification.test', {}).subject,
+    payload: {},
+    status: 'pending',
+    attempts: [],
+    createdAt: new Date().toISOString(),
+  });
+  return attemptDelivery(delivery);
+}
+
+export async function retryDueDeliveries(now = new Date()) {
+  const due = getStore()
+    .notificationDeliveries.find({ status: 'pending' })
+    .filter((d) => d.nextAttemptAt && d.nextAttemptAt <= now.toISOString())
+    .slice(0, 100);
+  for (const delivery of due) await attemptDelivery(delivery, now);
+  return due.length;
+}
+
+export function listDeliveries(merchantId?: string, filter: { status?: string; channelId?: string } = {}) {
+  return getStore()
+    .notificationDeliveries.list(merchantId)
+    .filter((d) => !filter.status || d.status === filter.status)
+    .filter((d) => !filter.channelId || d.channelId === filter.channelId)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+export function getDelivery(id: string) {
+  return getStore().notificationDeliveries.get(id);
+}
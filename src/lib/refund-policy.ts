@@ -0,0 +1,278 @@
+import type Stripe from 'stripe';
+import { convertAmount, reportingCurrencyOf } from './currency';
+import { getStore } from './storage';
+import type { DisputeRecord, MerchantSettings, RefundRecord } from './types';
+
+// Refunding only closes an inquiry. Once a chargeback is filed the funds are already gone, so a
+// refund would pay the customer twice (Stripe refuses it for open disputes anyway).
+export const REFUNDABLE_DISPUTE_STATUSES = ['warning_needs_response', 'warning_under_review'];
+
+// A refund still pending after this long belongs to a process that died mid-call. Retrying it
+// with the same idempotency key returns whatever Stripe did the first time.
+const PENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type RefundCheck = { check: string; ok: boolean; detail: string };
+
+export type BudgetUsage = { limit: number; used: number; remaining?: number };
+
+export type RefundBudget = {
+  currency: string;
+  maxRefundAmount: number;
+  daily: BudgetUsage;
+  monthly: BudgetUsage;
+};
+
+export type RefundDecision = {
+  allowed: boolean;
+  /** The first check that failed. */
+  reason?: string;
+  chargeId: string;
+  amount?: number;
+  currency: string;
+  /** Refunds less than what is left on the charge. */
+  partial: boolean;
+  reportingAmount?: number;
+  checks: RefundCheck[];
+  budget: RefundBudget;
+};
+
+export type RefundRequest = {
+  /** Idempotency key for the refund, and its id in the ledger. */
+  key: string;
+  merchantId?: string;
+  settings: MerchantSettings;
+  chargeId: string;
+  dispute?: DisputeRecord;
+  /** Minor units; the rest of the charge when unset. */
+  amount?: number;
+  currency?: string;
+  source: RefundRecord['source'];
+  actor: string;
+  metadata: Record<string, string>;
+  dryRun?: boolean;
+};
+
+export type RefundOutcome = {
+  decision: RefundDecision;
+  /** Set when the request or the merchant's settings asked for a dry run; nothing was refunded. */
+  dryRun: boolean;
+  refund?: Stripe.Refund;
+  record?: RefundRecord;
+};
+
+export function listRefunds(merchantId?: string) {
+  return getStore()
+    .refunds.list(merchantId)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+function usage(limit: number, used: number): BudgetUsage {
+  return { limit, used, remaining: limit ? Math.max(0, limit - used) : undefined };
+}
+
+function isStale(record: RefundRecord, now: Date) {
+  return record.status === 'pending' && now.getTime() - Date.parse(record.updatedAt) > PENDING_TIMEOUT_MS;
+}
+
+/** Refunds issued (or in flight) in the UTC day and month of `now`, against the merchant's limits. */
+export function refundBudget(
+  merchantId: string | undefined,
+  settings: MerchantSettings,
+  now = new Date(),
+  exclude?: string,
+) {
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  let daily = 0;
+  let monthly = 0;
+  for (const record of getStore().refunds.list(merchantId)) {
+    if (record.status === 'failed' || record.id === exclude || !record.createdAt.startsWith(month)) continue;
+    const value = record.reportingAmount ?? record.amount;
+    monthly += value;
+    if (record.createdAt.startsWith(day)) daily += value;
+  }
+  return {
+    currency: reportingCurrencyOf(settings).currency,
+    maxRefundAmount: settings.maxRefundAmount || 0,
+    daily: usage(settings.dailyRefundBudget || 0, daily),
+    monthly: usage(settings.monthlyRefundBudget || 0, monthly),
+  } satisfies RefundBudget;
+}
+
+function limitChecks(budget: RefundBudget, reportingAmount: number | undefined): RefundCheck[] {
+  const limited = budget.maxRefundAmount || budget.daily.limit || budget.monthly.limit;
+  if (!limited) return [];
+  if (reportingAmount === undefined) {
+    return [{ check: 'exchange_rate', ok: false, detail: `No rate to count the refund in ${budget.currency}` }];
+  }
+  const checks: RefundCheck[] = [];
+  if (budget.maxRefundAmount) {
+    checks.push({
+      check: 'max_refund_amount',
+      ok: reportingAmount <= budget.maxRefundAmount,
+      detail: `${reportingAmount} of at most ${budget.maxRefundAmount}`,
+    });
+  }
+  for (const [name, period] of [
+    ['daily_budget', budget.daily],
+    ['monthly_budget', budget.monthly],
+  ] as const) {
+    if (!period.limit) continue;
+    checks.push({
+      check: name,
+      ok: period.used + reportingAmount <= period.limit,
+      detail: `${period.used} used + ${reportingAmount} of ${period.limit}`,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Decides whether refunding the charge is safe and worth it: the dispute (if any) must still be
+ * an inquiry, the charge must have enough left to refund, and the amount must fit the merchant's
+ * cap and budgets. Reads the charge from Stripe; never refunds.
+ */
+export async function evaluateRefund(
+  stripe: Stripe,
+  input: Omit<RefundRequest, 'key' | 'source' | 'actor' | 'metadata'>,
+  now = new Date(),
+) {
+  const charge = await stripe.charges.retrieve(input.chargeId);
+  const checks: RefundCheck[] = [];
+
+  // Stripe's status is fresher than ours, and covers disputes we never received a webhook for.
+  const latest = charge.disputed
+    ? (await stripe.disputes.list({ charge: input.chargeId, limit: 1 })).data[0]
+    : undefined;
+  const disputeStatus = latest?.status ?? input.dispute?.status;
+  if (disputeStatus) {
+    const ok = REFUNDABLE_DISPUTE_STATUSES.includes(disputeStatus);
+    const effect = ok ? 'a refund closes the inquiry' : 'a refund no longer prevents the chargeback';
+    checks.push({ check: 'dispute_state', ok, detail: `Dispute is ${disputeStatus}; ${effect}` });
+  } else if (charge.disputed) {
+    checks.push({ check: 'dispute_state', ok: false, detail: 'Charge is already disputed' });
+  }
+
+  const alreadyRefunded = charge.amount_refunded || 0;
+  const refundable = charge.amount === undefined ? undefined : charge.amount - alreadyRefunded;
+  checks.push({
+    check: 'charge_refunded',
+    ok: !charge.refunded && refundable !== 0,
+    detail: alreadyRefunded ? `${alreadyRefunded} of ${charge.amount} already refunded` : 'No refunds on the charge',
+  });
+
+  const amount = input.amount ?? refundable ?? input.dispute?.amount;
+  const currency = (charge.currency || input.currency || input.dispute?.currency || 'usd').toLowerCase();
+  if (amount === undefined) {
+    checks.push({ check: 'refundable_amount', ok: false, detail: 'Charge amount unknown' });
+  } else if (refundable !== undefined) {
+    checks.push({ check: 'refundable_amount', ok: amount <= refundable, detail: `${amount} of ${refundable} left` });
+  }
+
+  const reportingAmount =
+    amount === undefined ? undefined : convertAmount(amount, currency, reportingCurrencyOf(input.settings));
+  const budget = refundBudget(input.merchantId, input.settings, now);
+  if (amount !== undefined) checks.push(...limitChecks(budget, reportingAmount));
+
+  const failed = checks.find((c) => !c.ok);
+  return {
+    allowed: !failed,
+    reason: failed?.check,
+    chargeId: input.chargeId,
+    amount,
+    currency,
+    partial: amount !== undefined && refundable !== undefined && amount < refundable,
+    reportingAmount,
+    checks,
+    budget,
+  } satisfies RefundDecision;
+}
+
+// Writes the refund to the ledger as pending, re-checking the budgets in the same transaction so
+// two refunds racing for the last of a budget can't both go through.
+function reserveRefund(request: RefundRequest, decision: RefundDecision, now: Date) {
+  const { refunds } = getStore();
+  return getStore().transaction((): { record?: RefundRecord; reason?: string } => {
+    const existing = refunds.get(request.key);
+    if (existing?.status === 'succeeded') return { record: existing, reason: 'already_refunded' };
+    if (existing?.status === 'pending' && !isStale(existing, now)) {
+      return { record: existing, reason: 'refund_in_progress' };
+    }
+
+    // A stale pending entry is this same refund; don't count it against itself.
+    const budget = refundBudget(request.merchantId, request.settings, now, request.key);
+    const failed = limitChecks(budget, decision.reportingAmount).find((c) => !c.ok);
+    if (failed) return { reason: failed.check };
+
+    const at = now.toISOString();
+    return {
+      record: refunds.put({
+        id: request.key,
+        merchantId: request.merchantId,
+        chargeId: request.chargeId,
+        disputeId: request.dispute?.id,
+        source: request.source,
+        amount: decision.amount!,
+        currency: decision.currency,
+        reportingAmount: decision.reportingAmount,
+        partial: decision.partial,
+        status: 'pending',
+        attempts: existing?.status === 'pending' ? existing.attempts : (existing?.attempts || 0) + 1,
+        actor: request.actor,
+        createdAt: existing?.createdAt || at,
+        updatedAt: at,
+      }),
+    };
+  });
+}
+
+function settleRefund(id: string, patch: Partial<RefundRecord>) {
+  const { refunds } = getStore();
+  return getStore().transaction(() => {
+    const record = refunds.get(id);
+    return record && refunds.put({ ...record, ...patch, updatedAt: new Date().toISOString() });
+  });
+}
+
+/**
+ * Evaluates the refund and, when the policy allows it and this isn't a dry run, issues it through
+ * the ledger. Stripe errors are rethrown after the ledger entry is marked failed.
+ */
+export async function refundWithPolicy(
+  stripe: Stripe,
+  request: RefundRequest,
+  now = new Date(),
+): Promise<RefundOutcome> {
+  const decision = await evaluateRefund(stripe, request, now);
+  const dryRun = !!request.dryRun || !!request.settings.refundDryRun;
+  if (!decision.allowed || dryRun) return { decision, dryRun };
+
+  const reserved = reserveRefund(request, decision, now);
+  if (!reserved.record || reserved.reason) {
+    return { decision: { ...decision, allowed: false, reason: reserved.reason }, dryRun, record: reserved.record };
+  }
+
+  // A retry after a failure gets a fresh key: Stripe rejects a reused key whose parameters changed.
+  const record = reserved.record;
+  const idempotencyKey = record.attempts > 1 ? `${record.id}:${record.attempts}` : record.id;
+  try {
+    const refund = await stripe.refunds.create(
+      {
+        charge: request.chargeId,
+        amount: decision.partial ? decision.amount : undefined,
+        metadata: request.metadata,
+        reason: 'requested_by_customer',
+      },
+      { idempotencyKey },
+    );
+    return {
+      decision,
+      dryRun,
+      refund,
+      record: settleRefund(record.id, { status: 'succeeded', stripeRefundId: refund.id }),
+    };
+  } catch (err) {
+    settleRefund(record.id, { status: 'failed', error: (err as Error).message });
+    throw err;
+  }
+}
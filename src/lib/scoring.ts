@@ -0,0 +1,226 @@
+import type { RequiredField, ScoreBreakdownItem, ScoreField, ScoringOverride } from './types';
+
+export type ScoringProfile = {
+  /** Points a field earns when present; fields not listed don't count for this reason. */
+  weights: Partial<Record<ScoreField, number>>;
+  required: RequiredField[];
+};
+
+export type EvidenceScore = {
+  reason: string;
+  score: number;
+  breakdown: ScoreBreakdownItem[];
+  missingRequired: string[];
+};
+
+// Points deducted for each must-have requirement that isn't met.
+export const MISSING_REQUIRED_PENALTY = 15;
+
+export const scoreFieldLabels: Record<ScoreField, string> = {
+  customerName: 'customer name',
+  customerEmail: 'customer email',
+  productDescription: 'product description',
+  supportInteraction: 'support interaction notes',
+  termsUrl: 'terms URL',
+  refundPolicyUrl: 'refund policy URL',
+  cancellationPolicyUrl: 'cancellation policy URL',
+  accessLog: 'access/activity log',
+  shippingTracking: 'shipping carrier + tracking number',
+  statementDescriptor: 'statement descriptor',
+  supportChannels: 'support contact channels',
+  receipt: 'receipt file',
+  customer_communication: 'customer communication file',
+  customer_signature: 'customer signature file',
+  shipping_documentation: 'shipping documentation file',
+  service_documentation: 'service documentation file',
+  refund_policy: 'refund policy file',
+  cancellation_policy: 'cancellation policy file',
+  duplicate_charge_documentation: 'duplicate charge documentation file',
+  uncategorized_file: 'other supporting file',
+};
+
+export const scoreFields = Object.keys(scoreFieldLabels) as ScoreField[];
+
+// Weights follow what issuers look at for each Stripe reason code. Each profile's weights add up
+// to 100 so the score reads as a percentage; reasons without a profile use `general`.
+export const scoringProfiles: Record<string, ScoringProfile> = {
+  fraudulent: {
+    weights: {
+      customerName: 10,
+      customerEmail: 10,
+      accessLog: 20,
+      customer_signature: 10,
+      receipt: 10,
+      customer_communication: 10,
+      shippingTracking: 5,
+      shipping_documentation: 5,
+      productDescription: 5,
+      statementDescriptor: 5,
+      termsUrl: 5,
+      uncategorized_file: 5,
+    },
+    required: ['customerName', 'customerEmail', ['accessLog', 'customer_signature']],
+  },
+  product_not_received: {
+    weights: {
+      shippingTracking: 20,
+      shipping_documentation: 15,
+      accessLog: 15,
+      service_documentation: 10,
+      productDescription: 10,
+      customer_communication: 10,
+      receipt: 10,
+      customerName: 5,
+      customerEmail: 5,
+    },
+    required: [
+      'productDescription',
+      ['shippingTracking', 'shipping_documentation', 'accessLog', 'service_documentation'],
+    ],
+  },
+  product_unacceptable: {
+    weights: {
+      productDescription: 20,
+      customer_communication: 15,
+      refundPolicyUrl: 15,
+      refund_policy: 10,
+      supportInteraction: 10,
+      service_documentation: 10,
+      receipt: 10,
+      termsUrl: 5,
+      customerName: 5,
+    },
+    required: ['productDescription', ['refundPolicyUrl', 'refund_policy']],
+  },
+  subscription_canceled: {
+    weights: {
+      cancellationPolicyUrl: 20,
+      cancellation_policy: 10,
+      termsUrl: 15,
+      accessLog: 15,
+      customer_communication: 10,
+      supportInteraction: 10,
+      receipt: 10,
+      customerName: 5,
+      customerEmail: 5,
+    },
+    required: [['cancellationPolicyUrl', 'cancellation_policy'], 'termsUrl'],
+  },
+  duplicate: {
+    weights: {
+      duplicate_charge_documentation: 30,
+      receipt: 20,
+      statementDescriptor: 10,
+      productDescription: 10,
+      customer_communication: 10,
+      uncategorized_file: 10,
+      customerName: 5,
+      customerEmail: 5,
+    },
+    required: [['duplicate_charge_documentation', 'receipt']],
+  },
+  credit_not_processed: {
+    weights: {
+      refundPolicyUrl: 20,
+      refund_policy: 15,
+      customer_communication: 15,
+      supportInteraction: 10,
+      receipt: 10,
+      termsUrl: 10,
+      productDescription: 10,
+      customerName: 5,
+      customerEmail: 5,
+    },
+    required: [['refundPolicyUrl', 'refund_policy']],
+  },
+  unrecognized: {
+    weights: {
+      statementDescriptor: 20,
+      productDescription: 15,
+      receipt: 15,
+      customerName: 10,
+      customerEmail: 10,
+      accessLog: 10,
+      supportChannels: 10,
+      customer_communication: 10,
+    },
+    required: ['statementDescriptor'],
+  },
+  general: {
+    weights: {
+      productDescription: 15,
+      customerName: 10,
+      customerEmail: 10,
+      supportInteraction: 10,
+      termsUrl: 10,
+      accessLog: 10,
+      receipt: 10,
+      refundPolicyUrl: 5,
+      cancellationPolicyUrl: 5,
+      statementDescriptor: 5,
+      supportChannels: 5,
+      customer_communication: 5,
+    },
+    required: ['productDescription'],
+  },
+};
+
+/** The built-in profile for a reason with the merchant's override for that reason applied. */
+export function resolveScoringProfile(reason: string, overrides?: Record<string, ScoringOverride>): ScoringProfile {
+  const base = scoringProfiles[reason] || scoringProfiles.general;
+  const override = overrides?.[reason];
+  if (!override) return base;
+  return {
+    weights: { ...base.weights, ...override.weights },
+    required: override.required ?? base.required,
+  };
+}
+
+function describe(requirement: RequiredField) {
+  return Array.isArray(requirement)
+    ? requirement.map((f) => scoreFieldLabels[f]).join(' or ')
+    : scoreFieldLabels[requirement];
+}
+
+/**
+ * Scores the signals present on a dispute against the profile for its reason code. Every
+ * weighted field and every unmet must-have appears in the breakdown, so the score can be
+ * reproduced from it: sum of points, clamped to 0-100.
+ */
+export function scoreEvidence(
+  reason: string,
+  present: Set<ScoreField>,
+  overrides?: Record<string, ScoringOverride>,
+): EvidenceScore {
+  const profile = resolveScoringProfile(reason, overrides);
+  const breakdown: ScoreBreakdownItem[] = [];
+
+  for (const [field, weight] of Object.entries(profile.weights) as [ScoreField, number][]) {
+    if (!weight) continue;
+    const has = present.has(field);
+    breakdown.push({
+      field,
+      present: has,
+      points: has ? weight : 0,
+      note: has
+        ? `${scoreFieldLabels[field]} provided (+${weight})`
+        : `no ${scoreFieldLabels[field]} (up to +${weight})`,
+    });
+  }
+
+  const missingRequired: string[] = [];
+  for (const requirement of profile.required) {
+    const fields = Array.isArray(requirement) ? requirement : [requirement];
+    if (fields.some((f) => present.has(f))) continue;
+    missingRequired.push(describe(requirement));
+    breakdown.push({
+      field: fields.join('|'),
+      present: false,
+      points: -MISSING_REQUIRED_PENALTY,
+      note: `must-have missing: ${describe(requirement)} (-${MISSING_REQUIRED_PENALTY})`,
+    });
+  }
+
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  return { reason, score: Math.max(0, Math.min(100, total)), breakdown, missingRequired };
+}
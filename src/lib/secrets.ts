@@ -0,0 +1,59 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Stored format: enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>, all base64url. The key id lets
+// rotation tell which key sealed a value without trial decryption.
+const PREFIX = 'enc:v1:';
+
+type Key = { id: string; bytes: Buffer };
+
+function parseKey(raw: string): Key {
+  const trimmed = raw.trim();
+  const bytes = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (bytes.length !== 32) throw new Error('Token encryption keys must be 32 bytes (base64 or hex encoded)');
+  return { id: createHash('sha256').update(bytes).digest('hex').slice(0, 8), bytes };
+}
+
+function currentKey(): Key {
+  const raw = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!raw) throw new Error('TOKEN_ENCRYPTION_KEY is not set');
+  return parseKey(raw);
+}
+
+/** Current key first, then any retired keys still listed in TOKEN_ENCRYPTION_OLD_KEYS. */
+function keyring(): Key[] {
+  const old = (process.env.TOKEN_ENCRYPTION_OLD_KEYS || '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean)
+    .map(parseKey);
+  return [currentKey(), ...old];
+}
+
+export function isEncrypted(stored: string) {
+  return stored.startsWith(PREFIX);
+}
+
+export function encryptedWithCurrentKey(stored: string) {
+  return isEncrypted(stored) && stored.slice(PREFIX.length).split(':')[0] === currentKey().id;
+}
+
+export function encryptSecret(plain: string): string {
+  if (!plain) return '';
+  const key = currentKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key.bytes, iv);
+  const ct = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const parts = [iv, cipher.getAuthTag(), ct].map((b) => b.toString('base64url'));
+  return `${PREFIX}${key.id}:${parts.join(':')}`;
+}
+
+/** Values written before encryption was introduced are returned unchanged. */
+export function decryptSecret(stored: string): string {
+  if (!stored || !isEncrypted(stored)) return stored;
+  const [keyId, iv, tag, ct] = stored.slice(PREFIX.length).split(':');
+  const key = keyring().find((k) => k.id === keyId);
+  if (!key) throw new Error(`No encryption key available for key id ${keyId}`);
+  const decipher = createDecipheriv('aes-256-gcm', key.bytes, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ct, 'base64url')), decipher.final()]).toString('utf8');
+}
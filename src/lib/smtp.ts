@@ -0,0 +1,174 @@
+import { randomBytes } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+};
+
+export type MailMessage = { to: string[]; subject: string; text: string };
+
+/** Undefined when SMTP_HOST isn't set, so email channels can report that instead of hanging. */
+export function smtpConfigFromEnv(env = process.env): SmtpConfig | undefined {
+  if (!env.SMTP_HOST) return undefined;
+  const secure = env.SMTP_SECURE === 'true';
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT || (secure ? 465 : 587)),
+    secure,
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || `autopilot@${env.SMTP_HOST}`,
+  };
+}
+
+type Reply = { code: number; text: string };
+
+// Collects multi-line replies ("250-..." continued until "250 ...") from whichever socket is
+// current; STARTTLS swaps the plain socket for the TLS one mid-session.
+function replyReader() {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiter: { resolve: (r: Reply) => void; reject: (e: Error) => void } | undefined;
+  let failure: Error | undefined;
+  let current: net.Socket | undefined;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] === '-') continue;
+      replies.push({ code: Number(line.slice(0, 3)), text: lines.join('\n') });
+      lines = [];
+    }
+    if (waiter && replies.length) {
+      const w = waiter;
+      waiter = undefined;
+      w.resolve(replies.shift()!);
+    }
+  };
+  const onEnd = (err?: Error) => {
+    failure = err instanceof Error ? err : new Error('SMTP connection closed');
+    waiter?.reject(failure);
+    waiter = undefined;
+  };
+
+  return {
+    attach(socket: net.Socket) {
+      current?.off('data', onData).off('error', onEnd).off('close', onEnd);
+      current = socket;
+      socket.on('data', onData).on('error', onEnd).on('close', onEnd);
+    },
+    next() {
+      if (replies.length) return Promise.resolve(replies.shift()!);
+      if (failure) return Promise.reject(failure);
+      return new Promise<Reply>((resolve, reject) => (waiter = { resolve, reject }));
+    },
+  };
+}
+
+// An unreachable host can leave the connect hanging for minutes, so it gets the same limit as each reply.
+function connect(config: SmtpConfig, timeoutMs: number) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const connected = () => {
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, connected)
+      : net.connect({ host: config.host, port: config.port }, connected);
+    const timer = setTimeout(() => socket.destroy(new Error('SMTP connect timeout')), timeoutMs);
+    socket.once('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+function startTls(socket: net.Socket, host: string) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+const oneLine = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+// SMTP_FROM may be a display form like `Autopilot <alerts@example.com>`; the envelope wants the bare address.
+const envelopeAddress = (from: string) => /<([^>]+)>/.exec(from)?.[1] ?? from;
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/** Base64 body, so arbitrary text needs neither 8BITMIME nor dot-stuffing. */
+export function formatMessage(from: string, message: MailMessage, now = new Date()) {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${oneLine(from)}`,
+    `To: ${message.to.map(oneLine).join(', ')}`,
+    `Subject: ${encodeHeader(oneLine(message.subject))}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/** Sends one plain-text message. Rejects with the server's reply when any step is refused. */
+export async function sendMail(config: SmtpConfig, message: MailMessage) {
+  const timeoutMs = config.timeoutMs ?? 15000;
+  let socket = await connect(config, timeoutMs);
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP timeout')));
+  const replies = replyReader();
+  replies.attach(socket);
+
+  const expect = async (codes: number[]) => {
+    const reply = await replies.next();
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    return reply;
+  };
+  const command = (line: string, ...codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes);
+  };
+
+  try {
+    await expect([220]);
+    const features = (await command(`EHLO ${os.hostname()}`, 250)).text;
+    if (!config.secure && /^STARTTLS$/im.test(features)) {
+      await command('STARTTLS', 220);
+      socket = await startTls(socket, config.host);
+      replies.attach(socket);
+      await command(`EHLO ${os.hostname()}`, 250);
+    }
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass || ''}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await command(`MAIL FROM:<${oneLine(envelopeAddress(config.from))}>`, 250);
+    for (const to of message.to) await command(`RCPT TO:<${oneLine(to)}>`, 250, 251);
+    await command('DATA', 354);
+    await command(`${formatMessage(config.from, message)}\r\n.`, 250);
+    await command('QUIT', 221).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import type { Collection, CollectionName, CollectionSpec, Filter, Store } from './storage';
+import type {
+  AlertProviderConfigRecord,
+  AlertRecord,
+  ApiKeyRecord,
+  AttachmentRecord,
+  AuditEntry,
+  DeflectionChargeRecord,
+  DisputeRecord,
+  EarlyFraudWarningRecord,
+  InquiryRecord,
+  InvoiceRecord,
+  JobRecord,
+  MerchantRecord,
+  NotificationChannelRecord,
+  NotificationDeliveryRecord,
+  RatioAlertRecord,
+  RefundRecord,
+  TransactionVolumeRecord,
+  WebhookEventRecord,
+} from './types';
+
+type DbShape = Record<CollectionName, { id: string }[]>;
+
+function matches<T>(record: T, where: Filter<T>) {
+  return Object.entries(where).every(([k, v]) => (record as Record<string, unknown>)[k] === v);
+}
+
+/**
+ * Legacy whole-file store (`data/db.json`). Every top-level call re-reads the file and every
+ * write rewrites it; transactions share one snapshot and write it once at the end.
+ */
+export class JsonFileStore implements Store {
+  merchants: Collection<MerchantRecord>;
+  disputes: Collection<DisputeRecord>;
+  alerts: Collection<AlertRecord>;
+  inquiries: Collection<InquiryRecord>;
+  audit: Collection<AuditEntry>;
+  apiKeys: Collection<ApiKeyRecord>;
+  webhookEvents: Collection<WebhookEventRecord>;
+  attachments: Collection<AttachmentRecord>;
+  transactionVolumes: Collection<TransactionVolumeRecord>;
+  ratioAlerts: Collection<RatioAlertRecord>;
+  notificationChannels: Collection<NotificationChannelRecord>;
+  notificationDeliveries: Collection<NotificationDeliveryRecord>;
+  jobs: Collection<JobRecord>;
+  refunds: Collection<RefundRecord>;
+  alertProviders: Collection<AlertProviderConfigRecord>;
+  deflectionCharges: Collection<DeflectionChargeRecord>;
+  invoices: Collection<InvoiceRecord>;
+  earlyFraudWarnings: Collection<EarlyFraudWarningRecord>;
+
+  private snapshot?: DbShape;
+  private depth = 0;
+  private dirty = false;
+
+  constructor(
+    private readonly file: string,
+    private readonly specs: CollectionSpec[],
+  ) {
+    this.merchants = this.collection('merchants');
+    this.disputes = this.collection('disputes');
+    this.alerts = this.collection('alerts');
+    this.inquiries = this.collection('inquiries');
+    this.audit = this.collection('audit');
+    this.apiKeys = this.collection('apiKeys');
+    this.webhookEvents = this.collection('webhookEvents');
+    this.attachments = this.collection('attachments');
+    this.transactionVolumes = this.collection('transactionVolumes');
+    this.ratioAlerts = this.collection('ratioAlerts');
+    this.notificationChannels = this.collection('notificationChannels');
+    this.notificationDeliveries = this.collection('notificationDeliveries');
+    this.jobs = this.collection('jobs');
+    this.refunds = this.collection('refunds');
+    this.alertProviders = this.collection('alertProviders');
+    this.deflectionCharges = this.collection('deflectionCharges');
+    this.invoices = this.collection('invoices');
+    this.earlyFraudWarnings = this.collection('earlyFraudWarnings');
+  }
+
+  transaction<R>(fn: () => R): R {
+    if (this.depth === 0) this.snapshot = this.read();
+    this.depth += 1;
+    try {
+      const out = fn();
+      if (this.depth === 1 && this.dirty) this.write(this.snapshot as DbShape);
+      return out;
+    } finally {
+      this.depth -= 1;
+      if (this.depth === 0) {
+        this.snapshot = undefined;
+        this.dirty = false;
+      }
+    }
+  }
+
+  close() {}
+
+  private collection<T extends { id: string }>(name: CollectionName): Collection<T> {
+    const spec = this.specs.find((s) => s.name === name) as CollectionSpec<T>;
+    const rows = () => this.transaction(() => (this.snapshot as DbShape)[name] as T[]);
+    return {
+      get: (id) => rows().find((r) => r.id === id),
+      list: (merchantId) => (merchantId ? rows().filter((r) => spec.merchantIdOf(r) === merchantId) : [...rows()]),
+      find: (where) => rows().filter((r) => matches(r, where)),
+      put: (record) =>
+        this.transaction(() => {
+          const items = rows();
+          const idx = items.findIndex((r) => r.id === record.id);
+          if (idx >= 0) items[idx] = record;
+          else items.push(record);
+          this.dirty = true;
+          return record;
+        }),
+      remove: (id) =>
+        this.transaction(() => {
+          const db = this.snapshot as DbShape;
+          db[name] = db[name].filter((r) => r.id !== id);
+          this.dirty = true;
+        }),
+    };
+  }
+
+  private ensure() {
+    const dir = path.dirname(this.file);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    if (!fs.existsSync(this.file)) {
+      const empty = Object.fromEntries(this.specs.map((s) => [s.name, []]));
+      fs.writeFileSync(this.file, JSON.stringify(empty, null, 2));
+    }
+  }
+
+  read(): DbShape {
+    this.ensure();
+    const parsed = JSON.parse(fs.readFileSync(this.file, 'utf8')) as Partial<DbShape>;
+    return Object.fromEntries(this.specs.map((s) => [s.name, parsed[s.name] || []])) as DbShape;
+  }
+
+  private write(db: DbShape) {
+    this.ensure();
+    fs.writeFileSync(this.file, JSON.stringify(db, null, 2));
+  }
+}
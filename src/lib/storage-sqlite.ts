@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Collection, CollectionName, CollectionSpec, Store } from './storage';
+import type {
+  AlertProviderConfigRecord,
+  AlertRecord,
+  ApiKeyRecord,
+  AttachmentRecord,
+  AuditEntry,
+  DeflectionChargeRecord,
+  DisputeRecord,
+  EarlyFraudWarningRecord,
+  InquiryRecord,
+  InvoiceRecord,
+  JobRecord,
+  MerchantRecord,
+  NotificationChannelRecord,
+  NotificationDeliveryRecord,
+  RatioAlertRecord,
+  RefundRecord,
+  TransactionVolumeRecord,
+  WebhookEventRecord,
+} from './types';
+
+type Migration = { id: number; name: string; sql: string };
+
+function documentTable(name: CollectionName) {
+  return `
+    CREATE TABLE ${name} (
+      id TEXT PRIMARY KEY,
+      merchant_id TEXT,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX ${name}_merchant_id ON ${name} (merchant_id);`;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'initial_collections',
+    sql: [documentTable('merchants'), documentTable('disputes'), documentTable('alerts'), documentTable('inquiries')].join('\n'),
+  },
+  {
+    id: 2,
+    name: 'audit_log',
+    sql: `${documentTable('audit')}
+      CREATE TRIGGER audit_no_update BEFORE UPDATE ON audit BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+      CREATE TRIGGER audit_no_delete BEFORE DELETE ON audit BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;`,
+  },
+  {
+    id: 3,
+    name: 'api_keys',
+    sql: documentTable('apiKeys'),
+  },
+  {
+    id: 4,
+    name: 'webhook_events',
+    sql: documentTable('webhookEvents'),
+  },
+  {
+    id: 5,
+    name: 'attachments',
+    sql: documentTable('attachments'),
+  },
+  {
+    id: 6,
+    name: 'transaction_volumes',
+    sql: documentTable('transactionVolumes'),
+  },
+  {
+    id: 7,
+    name: 'ratio_alerts',
+    sql: documentTable('ratioAlerts'),
+  },
+  {
+    id: 8,
+    name: 'notification_channels',
+    sql: documentTable('notificationChannels'),
+  },
+  {
+    id: 9,
+    name: 'notification_deliveries',
+    sql: documentTable('notificationDeliveries'),
+  },
+  {
+    id: 10,
+    name: 'jobs',
+    sql: documentTable('jobs'),
+  },
+  {
+    id: 11,
+    name: 'refunds',
+    sql: documentTable('refunds'),
+  },
+  {
+    id: 12,
+    name: 'alert_providers',
+    sql: documentTable('alertProviders'),
+  },
+  {
+    id: 13,
+    name: 'deflection_charges',
+    sql: documentTable('deflectionCharges'),
+  },
+  {
+    id: 14,
+    name: 'invoices',
+    sql: documentTable('invoices'),
+  },
+  {
+    id: 15,
+    name: 'early_fraud_warnings',
+    sql: documentTable('earlyFraudWarnings'),
+  },
+];
+
+/**
+ * File-based SQLite store. Records are kept as JSON documents keyed by id, with the owning
+ * merchant broken out into its own indexed column so per-merchant listings stay cheap.
+ */
+export class SqliteStore implements Store {
+  merchants: Collection<MerchantRecord>;
+  disputes: Collection<DisputeRecord>;
+  alerts: Collection<AlertRecord>;
+  inquiries: Collection<InquiryRecord>;
+  audit: Collection<AuditEntry>;
+  apiKeys: Collection<ApiKeyRecord>;
+  webhookEvents: Collection<WebhookEventRecord>;
+  attachments: Collection<AttachmentRecord>;
+  transactionVolumes: Collection<TransactionVolumeRecord>;
+  ratioAlerts: Collection<RatioAlertRecord>;
+  notificationChannels: Collection<NotificationChannelRecord>;
+  notificationDeliveries: Collection<NotificationDeliveryRecord>;
+  jobs: Collection<JobRecord>;
+  refunds: Collection<RefundRecord>;
+  alertProviders: Collection<AlertProviderConfigRecord>;
+  deflectionCharges: Collection<DeflectionChargeRecord>;
+  invoices: Collection<InvoiceRecord>;
+  earlyFraudWarnings: Collection<EarlyFraudWarningRecord>;
+
+  private readonly db: Database.Database;
+
+  constructor(
+    file: string,
+    private readonly specs: CollectionSpec[],
+  ) {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+
+    this.merchants = this.collection('merchants');
+    this.disputes = this.collection('disputes');
+    this.alerts = this.collection('alerts');
+    this.inquiries = this.collection('inquiries');
+    this.audit = this.collection('audit');
+    this.apiKeys = this.collection('apiKeys');
+    this.webhookEvents = this.collection('webhookEvents');
+    this.attachments = this.collection('attachments');
+    this.transactionVolumes = this.collection('transactionVolumes');
+    this.ratioAlerts = this.collection('ratioAlerts');
+    this.notificationChannels = this.collection('notificationChannels');
+    this.notificationDeliveries = this.collection('notificationDeliveries');
+    this.jobs = this.collection('jobs');
+    this.refunds = this.collection('refunds');
+    this.alertProviders = this.collection('alertProviders');
+    this.deflectionCharges = this.collection('deflectionCharges');
+    this.invoices = this.collection('invoices');
+    this.earlyFraudWarnings = this.collection('earlyFraudWarnings');
+  }
+
+  transaction<R>(fn: () => R): R {
+    if (this.db.inTransaction) return fn();
+    return this.db.transaction(fn).immediate();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private migrate() {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`);
+    const applied = new Set(
+      (this.db.prepare('SELECT id FROM schema_migrations').all() as { id: number }[]).map((r) => r.id),
+    );
+    const record = this.db.prepare('INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)');
+    for (const m of migrations) {
+      if (applied.has(m.id)) continue;
+      this.transaction(() => {
+        this.db.exec(m.sql);
+        record.run(m.id, m.name, new Date().toISOString());
+      });
+    }
+  }
+
+  private collection<T extends { id: string }>(name: CollectionName): Collection<T> {
+    const spec = this.specs.find((s) => s.name === name) as CollectionSpec<T>;
+    const parse = (rows: { data: string }[]) => rows.map((r) => JSON.parse(r.data) as T);
+    const getStmt = this.db.prepare(`SELECT data FROM ${name} WHERE id = ?`);
+    const listAll = this.db.prepare(`SELECT data FROM ${name}`);
+    const listByMerchant = this.db.prepare(`SELECT data FROM ${name} WHERE merchant_id = ?`);
+    const upsert = this.db.prepare(
+      `INSERT INTO ${name} (id, merchant_id, data, updated_at) VALUES (@id, @merchantId, @data, @updatedAt)
+       ON CONFLICT (id) DO UPDATE SET merchant_id = excluded.merchant_id, data = excluded.data, updated_at = excluded.updated_at`,
+    );
+    const del = this.db.prepare(`DELETE FROM ${name} WHERE id = ?`);
+
+    return {
+      get: (id) => {
+        const row = getStmt.get(id) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as T) : undefined;
+      },
+      list: (merchantId) =>
+        parse((merchantId ? listByMerchant.all(merchantId) : listAll.all()) as { data: string }[]),
+      find: (where) => {
+        const entries = Object.entries(where);
+        for (const [k] of entries) {
+          if (!/^[A-Za-z0-9_]+$/.test(k)) throw new Error(`Invalid filter field: ${k}`);
+        }
+        const clause = entries.map(([k]) => `json_extract(data, '$.${k}') = ?`).join(' AND ');
+        const params = entries.map(([, v]) => (typeof v === 'boolean' ? Number(v) : v));
+        const sql = `SELECT data FROM ${name}${clause ? ` WHERE ${clause}` : ''}`;
+        return parse(this.db.prepare(sql).all(...params) as { data: string }[]);
+      },
+      put: (record) => {
+        upsert.run({
+          id: record.id,
+          merchantId: spec.merchantIdOf(record) ?? null,
+          data: JSON.stringify(record),
+          updatedAt: new Date().toISOString(),
+        });
+        return record;
+      },
+      remove: (id) => {
+        del.run(id);
+      },
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import path from 'path';
+import type {
+  AlertProviderConfigRecord,
+  AlertRecord,
+  ApiKeyRecord,
+  AttachmentRecord,
+  AuditEntry,
+  DeflectionChargeRecord,
+  DisputeRecord,
+  EarlyFraudWarningRecord,
+  InquiryRecord,
+  InvoiceRecord,
+  JobRecord,
+  MerchantRecord,
+  NotificationChannelRecord,
+  NotificationDeliveryRecord,
+  RatioAlertRecord,
+  RefundRecord,
+  TransactionVolumeRecord,
+  WebhookEventRecord,
+} from './types';
+import { JsonFileStore } from './storage-json';
+import { SqliteStore } from './storage-sqlite';
+
+export type Filter<T> = Partial<{ [K in keyof T]: T[K] & (string | number | boolean) }>;
+
+export interface Collection<T extends { id: string }> {
+  get(id: string): T | undefined;
+  list(merchantId?: string): T[];
+  find(where: Filter<T>): T[];
+  put(record: T): T;
+  remove(id: string): void;
+}
+
+export interface Store {
+  merchants: Collection<MerchantRecord>;
+  disputes: Collection<DisputeRecord>;
+  alerts: Collection<AlertRecord>;
+  inquiries: Collection<InquiryRecord>;
+  audit: Collection<AuditEntry>;
+  apiKeys: Collection<ApiKeyRecord>;
+  webhookEvents: Collection<WebhookEventRecord>;
+  attachments: Collection<AttachmentRecord>;
+  transactionVolumes: Collection<TransactionVolumeRecord>;
+  ratioAlerts: Collection<RatioAlertRecord>;
+  notificationChannels: Collection<NotificationChannelRecord>;
+  notificationDeliveries: Collection<NotificationDeliveryRecord>;
+  jobs: Collection<JobRecord>;
+  refunds: Collection<RefundRecord>;
+  alertProviders: Collection<AlertProviderConfigRecord>;
+  deflectionCharges: Collection<DeflectionChargeRecord>;
+  invoices: Collection<InvoiceRecord>;
+  earlyFraudWarnings: Collection<EarlyFraudWarningRecord>;
+  /** Runs fn atomically; nested calls join the outer transaction. */
+  transaction<R>(fn: () => R): R;
+  close(): void;
+}
+
+export type CollectionName =
+  | 'merchants'
+  | 'disputes'
+  | 'alerts'
+  | 'inquiries'
+  | 'audit'
+  | 'apiKeys'
+  | 'webhookEvents'
+  | 'attachments'
+  | 'transactionVolumes'
+  | 'ratioAlerts'
+  | 'notificationChannels'
+  | 'notificationDeliveries'
+  | 'jobs'
+  | 'refunds'
+  | 'alertProviders'
+  | 'deflectionCharges'
+  | 'invoices'
+  | 'earlyFraudWarnings';
+
+type RecordOf<N extends CollectionName> = Store[N] extends Collection<infer T> ? T : never;
+
+export type CollectionSpec<T extends { id: string } = { id: string }> = {
+  name: CollectionName;
+  // Method syntax so specs for different record types fit in one list.
+  merchantIdOf(record: T): string | undefined;
+};
+
+const spec = <N extends CollectionName>(
+  name: N,
+  merchantIdOf: (record: RecordOf<N>) => string | undefined,
+): CollectionSpec<RecordOf<N>> => ({ name, merchantIdOf });
+
+export const collectionSpecs: CollectionSpec[] = [
+  spec('merchants', (r) => r.id),
+  spec('disputes', (r) => r.merchantId),
+  spec('alerts', (r) => r.merchantId),
+  spec('inquiries', (r) => r.merchantId),
+  spec('audit', (r) => r.merchantId),
+  spec('apiKeys', (r) => r.merchantId),
+  spec('webhookEvents', (r) => r.merchantId),
+  spec('attachments', (r) => r.merchantId),
+  spec('transactionVolumes', (r) => r.merchantId),
+  spec('ratioAlerts', (r) => r.merchantId),
+  spec('notificationChannels', (r) => r.merchantId),
+  spec('notificationDeliveries', (r) => r.merchantId),
+  spec('jobs', (r) => r.merchantId),
+  spec('refunds', (r) => r.merchantId),
+  spec('alertProviders', (r) => r.merchantId),
+  spec('deflectionCharges', (r) => r.merchantId),
+  spec('invoices', (r) => r.merchantId),
+  spec('earlyFraudWarnings', (r) => r.merchantId),
+];
+
+export type StoreBackend = 'json' | 'sqlite';
+
+export const defaultJsonPath = path.join(process.cwd(), 'data', 'db.json');
+export const defaultSqlitePath = path.join(process.cwd(), 'data', 'autopilot.sqlite');
+
+export function createStore(backend: StoreBackend, file?: string): Store {
+  if (backend === 'sqlite') return new SqliteStore(file || process.env.SQLITE_PATH || defaultSqlitePath, collectionSpecs);
+  return new JsonFileStore(file || process.env.JSON_DB_PATH || defaultJsonPath, collectionSpecs);
+}
+
+let configuredBackend: StoreBackend = 'json';
+let current: Store | undefined;
+
+/** Picks the backend `getStore` opens, from the validated env; must run before the store is first used. */
+export function configureStore(next: StoreBackend) {
+  if (current && next !== configuredBackend) {
+    throw new Error(`Store already opened with the ${configuredBackend} backend`);
+  }
+  configuredBackend = next;
+}
+
+export function getStore(): Store {
+  if (!current) current = createStore(configuredBackend);
+  return current;
+}
@@ -1,138 +1,34 @@
-import fs from 'fs';
-import path from 'path';
-
-export type MerchantSettings = {
-  autoSubmitEnabled: boolean;
-  autoSubmitReasons: string[];
-  minEvidenceScore: number;
-  manualReviewAmountThreshold: number;
-  monthlyDisputeAlertThresholdPct: number;
-  monthlyTransactionCount: number;
-  submissionDelayMinutes: number;
-  statementDescriptor: string;
-  supportEmail: string;
-  supportPhone: string;
-  supportUrl: string;
-  recoveryFeePct: number;
-  alertDeflectionFeeCents: number;
-  roiGuaranteeMultiplier: number;
-  alertsAutoRefundEnabled: boolean;
-  inquiryAutomationEnabled: boolean;
-};
-
-export type EvidenceProfile = {
-  businessType: 'info_coaching' | 'generic';
-  productDescriptionTemplate: string;
-  termsUrl?: string;
-  refundPolicyUrl?: string;
-  cancellationPolicyUrl?: string;
-  onboardingProofTemplate?: string;
-  deliveryProofTemplate?: string;
-  supportPolicyTemplate?: string;
-};
-
-export type MerchantRecord = {
-  id: string;
-  name: string;
-  stripeAccountId: string;
-  stripeAccessToken: string;
-  createdAt: string;
-  settings: MerchantSettings;
-  evidenceProfile: EvidenceProfile;
-};
-
-export type SubmissionAttempt = {
-  at: string;
-  success: boolean;
-  message: string;
-};
-
-export type DisputeRecord = {
-  id: string;
-  merchantId?: string;
-  stripeAccountId?: string;
-  chargeId?: string;
-  reason: string;
-  amount: number;
-  currency: string;
-  status: string;
-  dueBy?: number;
-  disputeCreatedAt?: number;
-  updatedAt: string;
-  submitted: boolean;
-  deflected?: boolean;
-  deflectionReason?: string;
-  deflectedAt?: string;
-  evidenceScore: number;
-  manualReviewRequired: boolean;
-  evidenceSummary: string[];
-  submissionAttempts: SubmissionAttempt[];
-  latestError?: string;
-  owner?: string;
-  workflowStatus?: 'new' | 'in_progress' | 'waiting_on_customer' | 'ready_to_submit' | 'submitted' | 'closed';
-  nextActionAt?: string;
-  internalNotes?: string;
-};
-
-export type AlertRecord = {
-  id: string;
-  merchantId?: string;
-  disputeId?: string;
-  chargeId?: string;
-  source: 'verifi' | 'ethoca' | 'network' | 'manual';
-  externalAlertId?: string;
-  amount?: number;
-  currency?: string;
-  refunded?: boolean;
-  refundId?: string;
-  duplicateOf?: string;
-  createdAt: string;
-};
-
-export type InquiryRecord = {
-  id: string;
-  merchantId?: string;
-  disputeId?: string;
-  platform: 'paypal' | 'klarna' | 'afterpay' | 'ebay' | 'other';
-  status: 'new' | 'responded' | 'escalated' | 'resolved';
-  customerMessage?: string;
-  responseDraft?: string;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type DbShape = {
-  merchants: MerchantRecord[];
-  disputes: DisputeRecord[];
-  alerts: AlertRecord[];
-  inquiries: InquiryRecord[];
-};
-
-const dbPath = path.join(process.cwd(), 'data', 'db.json');
-
-function ensureDb() {
-  const dir = path.dirname(dbPath);
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-  if (!fs.existsSync(dbPath)) {
-    fs.writeFileSync(dbPath, JSON.stringify({ merchants: [], disputes: [], alerts: [], inquiries: [] } as DbShape, null, 2));
-  }
-}
-
-function readDb(): DbShape {
-  ensureDb();
-  const parsed = JSON.parse(fs.readFileSync(dbPath, 'utf8')) as Partial<DbShape>;
-  return {
-    merchants: parsed.merchants || [],
-    disputes: parsed.disputes || [],
-    alerts: parsed.alerts || [],
-    inquiries: parsed.inquiries || [],
-  };
-}
-
-function writeDb(db: DbShape) {
-  ensureDb();
-  fs.writeFileSync(dbPath, JSON.stringify(db, null, 2));
-}
+import type Stripe from 'stripe';
+import { diffRecords, recordAudit } from './audit';
+import { convertAmount, reportingCurrencyOf, type ReportingCurrency } from './currency';
+import { isDisputeClosed } from './dispute-lifecycle';
+import { efwFraudTypes } from './early-fraud-warnings';
+import { applyNarrative } from './evidence';
+import { decryptSecret, encryptedWithCurrentKey, encryptSecret, isEncrypted } from './secrets';
+import { getStore } from './storage';
+import type {
+  AlertRecord,
+  ApprovalEvent,
+  DisputeRecord,
+  EvidenceProfile,
+  EvidenceVersion,
+  InquiryRecord,
+  MerchantRecord,
+  MerchantSettings,
+  SavedEvidenceDraft,
+  SubmissionAttempt,
+} from './types';
+
+export type {
+  AlertRecord,
+  DisputeRecord,
+  EvidenceProfile,
+  EvidenceVersion,
+  InquiryRecord,
+  MerchantRecord,
+  MerchantSettings,
+  SubmissionAttempt,
+} from './types';
 
 export function defaultMerchantSettings(): MerchantSettings {
   return {
@@ -152,6 +48,18 @@ export function defaultMerchantSettings(): MerchantSettings {
     roiGuaranteeMultiplier: 4,
     alertsAutoRefundEnabled: true,
     inquiryAutomationEnabled: true,
+    approvalRequired: false,
+    dualApprovalAmountThreshold: 100000,
+    reportingCurrency: 'usd',
+    exchangeRates: {},
+    maxRefundAmount: 0,
+    dailyRefundBudget: 0,
+    monthlyRefundBudget: 0,
+    refundDryRun: false,
+    efwAutoRefundEnabled: false,
+    efwRefundMaxAmount: 10000,
+    efwRefundFraudTypes: [...efwFraudTypes],
+    efwFightCe3Eligible: true,
   };
 }
 
@@ -172,127 +80,379 @@ export function defaultEvidenceProfile(): EvidenceProfile {
   };
 }
 
-export function upsertMerchant(record: MerchantRecord) {
-  const db = readDb();
-  const idx = db.merchants.findIndex((m) => m.id === record.id || m.stripeAccountId === record.stripeAccountId);
-  if (idx >= 0) db.merchants[idx] = { ...db.merchants[idx], ...record };
-  else db.merchants.push(record);
-  writeDb(db);
+export function upsertMerchant(record: MerchantRecord, actor = 'system') {
+  const { merchants } = getStore();
+  getStore().transaction(() => {
+    const existing = merchants.get(record.id) || merchants.find({ stripeAccountId: record.stripeAccountId })[0];
+    if (existing && existing.id !== record.id) merchants.remove(existing.id);
+    const token = record.stripeAccessToken;
+    const sealed = { ...record, stripeAccessToken: isEncrypted(token) ? token : encryptSecret(token) };
+    const next = merchants.put(existing ? { ...existing, ...sealed } : sealed);
+    recordAudit({
+      merchantId: next.id,
+      actor,
+      action: existing ? 'merchant.updated' : 'merchant.connected',
+      entityType: 'merchant',
+      entityId: next.id,
+      diff: diffRecords(existing, next),
+    });
+  });
 }
 
-export function updateMerchantSettings(merchantId: string, patch: Partial<MerchantSettings>) {
-  const db = readDb();
-  const idx = db.merchants.findIndex((m) => m.id === merchantId);
-  if (idx < 0) return undefined;
-  db.merchants[idx].settings = { ...db.merchants[idx].settings, ...patch };
-  writeDb(db);
-  return db.merchants[idx];
+function mutateMerchant(
+  merchantId: string,
+  actor: string,
+  action: string,
+  fn: (merchant: MerchantRecord) => MerchantRecord,
+) {
+  const { merchants } = getStore();
+  return getStore().transaction(() => {
+    const merchant = merchants.get(merchantId);
+    if (!merchant) return undefined;
+    const next = merchants.put(fn(merchant));
+    recordAudit({
+      merchantId,
+      actor,
+      action,
+      entityType: 'merchant',
+      entityId: merchantId,
+      diff: diffRecords(merchant, next),
+    });
+    return next;
+  });
 }
 
-export function updateMerchantEvidenceProfile(merchantId: string, patch: Partial<EvidenceProfile>) {
-  const db = readDb();
-  const idx = db.merchants.findIndex((m) => m.id === merchantId);
-  if (idx < 0) return undefined;
-  db.merchants[idx].evidenceProfile = { ...db.merchants[idx].evidenceProfile, ...patch };
-  writeDb(db);
-  return db.merchants[idx];
+export function updateMerchantSettings(merchantId: string, patch: Partial<MerchantSettings>, actor = 'system') {
+  return mutateMerchant(merchantId, actor, 'merchant.settings_updated', (merchant) => ({
+    ...merchant,
+    settings: { ...merchant.settings, ...patch },
+  }));
+}
+
+export function updateMerchantEvidenceProfile(merchantId: string, patch: Partial<EvidenceProfile>, actor = 'system') {
+  return mutateMerchant(merchantId, actor, 'merchant.evidence_profile_updated', (merchant) => ({
+    ...merchant,
+    evidenceProfile: { ...merchant.evidenceProfile, ...patch },
+  }));
 }
 
 export function findMerchantByStripeAccountId(stripeAccountId?: string): MerchantRecord | undefined {
   if (!stripeAccountId) return undefined;
-  const db = readDb();
-  return db.merchants.find((m) => m.stripeAccountId === stripeAccountId);
+  return getStore().merchants.find({ stripeAccountId })[0];
 }
 
 export function findMerchantById(merchantId?: string): MerchantRecord | undefined {
   if (!merchantId) return undefined;
-  const db = readDb();
-  return db.merchants.find((m) => m.id === merchantId);
+  return getStore().merchants.get(merchantId);
 }
 
 export function listMerchants(): MerchantRecord[] {
-  const db = readDb();
-  return db.merchants;
+  return getStore().merchants.list();
+}
+
+/** Decrypted Connect token, or undefined once the merchant has disconnected. */
+export function getMerchantAccessToken(merchant: MerchantRecord): string | undefined {
+  if (merchant.status === 'disconnected' || !merchant.stripeAccessToken) return undefined;
+  return decryptSecret(merchant.stripeAccessToken);
+}
+
+export function disconnectMerchant(merchantId: string, actor = 'system') {
+  return mutateMerchant(merchantId, actor, 'merchant.disconnected', (merchant) => ({
+    ...merchant,
+    stripeAccessToken: '',
+    status: 'disconnected',
+    disconnectedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Re-seals every stored token with the current TOKEN_ENCRYPTION_KEY. Runs in one transaction,
+ * so a token that can't be decrypted aborts the whole rotation and nothing is half-migrated.
+ */
+export function rotateMerchantTokens() {
+  const { merchants } = getStore();
+  return getStore().transaction(() => {
+    let rotated = 0;
+    let unchanged = 0;
+    for (const merchant of merchants.list()) {
+      const stored = merchant.stripeAccessToken;
+      if (!stored || encryptedWithCurrentKey(stored)) {
+        unchanged += 1;
+        continue;
+      }
+      merchants.put({ ...merchant, stripeAccessToken: encryptSecret(decryptSecret(stored)) });
+      rotated += 1;
+    }
+    return { rotated, unchanged };
+  });
+}
+
+export type PublicMerchant = Omit<MerchantRecord, 'stripeAccessToken'>;
+
+/** Strips the Connect access token; use for anything that leaves the process. */
+export function toPublicMerchant(merchant: MerchantRecord): PublicMerchant {
+  const { stripeAccessToken: _token, ...rest } = merchant;
+  return rest;
 }
 
-export function upsertDispute(record: DisputeRecord) {
-  const db = readDb();
-  const idx = db.disputes.findIndex((d) => d.id === record.id);
-  if (idx >= 0) db.disputes[idx] = { ...db.disputes[idx], ...record };
-  else db.disputes.push(record);
-  writeDb(db);
+export function upsertDispute(record: DisputeRecord, actor = 'system') {
+  const { disputes } = getStore();
+  getStore().transaction(() => {
+    const existing = disputes.get(record.id);
+    const next = disputes.put(existing ? { ...existing, ...record } : record);
+    recordAudit({
+      merchantId: next.merchantId,
+      actor,
+      action: existing ? 'dispute.updated' : 'dispute.created',
+      entityType: 'dispute',
+      entityId: next.id,
+      diff: diffRecords(existing, next),
+    });
+  });
 }
 
 export function getDispute(id: string) {
-  const db = readDb();
-  return db.disputes.find((d) => d.id === id);
+  return getStore().disputes.get(id);
 }
 
 export function listDisputes(merchantId?: string) {
-  const db = readDb();
-  const items = merchantId ? db.disputes.filter((d) => d.merchantId === merchantId) : db.disputes;
+  const items = getStore().disputes.list(merchantId);
   return items.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
 }
 
-export function markSubmitted(id: string) {
-  const db = readDb();
-  const record = db.disputes.find((d) => d.id === id);
-  if (!record) return;
-  record.submitted = true;
-  record.updatedAt = new Date().toISOString();
-  writeDb(db);
+function mutateDispute(
+  id: string,
+  audit: { actor: string; action: string } | undefined,
+  fn: (record: DisputeRecord) => void,
+) {
+  const { disputes } = getStore();
+  return getStore().transaction(() => {
+    const record = disputes.get(id);
+    if (!record) return undefined;
+    const before = structuredClone(record);
+    fn(record);
+    disputes.put(record);
+    if (audit) {
+      recordAudit({
+        ...audit,
+        merchantId: record.merchantId,
+        entityType: 'dispute',
+        entityId: id,
+        diff: diffRecords(before, record),
+      });
+    }
+    return record;
+  });
+}
+
+export function markSubmitted(id: string, actor = 'system', evidenceVersion?: number) {
+  mutateDispute(id, { actor, action: 'dispute.submitted' }, (record) => {
+    const now = new Date().toISOString();
+    record.submitted = true;
+    record.updatedAt = now;
+    const version = record.evidenceVersions?.find((v) => v.version === evidenceVersion);
+    if (version) version.submittedAt = version.sentAt = now;
+  });
+}
+
+/**
+ * Returns the version history with `evidence` as its newest entry. An identical payload reuses
+ * the newest version instead of adding one, so webhook redeliveries don't inflate the history.
+ */
+export function withEvidenceVersion(
+  versions: EvidenceVersion[] = [],
+  evidence: EvidenceVersion['evidence'],
+  score: number,
+  actor: string,
+): EvidenceVersion[] {
+  const latest = versions[versions.length - 1];
+  if (latest && JSON.stringify(latest.evidence) === JSON.stringify(evidence)) {
+    return [...versions.slice(0, -1), { ...latest, score }];
+  }
+  const next: EvidenceVersion = {
+    version: (latest?.version || 0) + 1,
+    evidence,
+    score,
+    createdAt: new Date().toISOString(),
+    createdBy: actor,
+  };
+  return [...versions, next].slice(-20);
+}
+
+export function currentEvidence(record: DisputeRecord) {
+  return record.evidenceVersions?.find((v) => v.version === record.currentEvidenceVersion);
 }
 
-export function markDeflected(id: string, reason: string) {
-  const db = readDb();
-  const record = db.disputes.find((d) => d.id === id);
-  if (!record) return;
-  record.deflected = true;
-  record.deflectionReason = reason;
-  record.deflectedAt = new Date().toISOString();
-  record.updatedAt = new Date().toISOString();
-  writeDb(db);
+// Stores `evidence` as a new version and credits it to the reviewer so they can't approve it.
+function recordEditedVersion(
+  record: DisputeRecord,
+  evidence: Stripe.DisputeUpdateParams.Evidence,
+  reviewer: { keyId: string; actor: string; note?: string },
+) {
+  const now = new Date().toISOString();
+  record.evidenceVersions = withEvidenceVersion(
+    record.evidenceVersions,
+    evidence,
+    record.evidenceScore,
+    reviewer.actor,
+  );
+  record.currentEvidenceVersion = record.evidenceVersions[record.evidenceVersions.length - 1].version;
+  record.approvalHistory = [
+    ...(record.approvalHistory || []),
+    {
+      at: now,
+      action: 'edited',
+      keyId: reviewer.keyId,
+      actor: reviewer.actor,
+      evidenceVersion: record.currentEvidenceVersion,
+      note: reviewer.note,
+    },
+  ];
+  record.updatedAt = now;
+}
+
+/**
+ * Applies a reviewer's edits on top of the current evidence as a new version. The edits are also
+ * kept on the dispute so a later rebuild (e.g. a charge.dispute.updated webhook) doesn't drop them.
+ */
+export function editDisputeEvidence(
+  id: string,
+  edits: NonNullable<DisputeRecord['evidenceEdits']>,
+  reviewer: { keyId: string; actor: string; note?: string },
+) {
+  return mutateDispute(id, { actor: reviewer.actor, action: 'dispute.evidence_edited' }, (record) => {
+    record.evidenceEdits = { ...record.evidenceEdits, ...edits };
+    recordEditedVersion(record, { ...currentEvidence(record)?.evidence, ...edits }, reviewer);
+  });
+}
+
+/**
+ * Saves the dispute's evidence draft. A changed narrative is written into the evidence as a new
+ * version (needing fresh approval); checklist and headline changes are internal and don't touch it.
+ */
+export function saveEvidenceDraft(
+  id: string,
+  draft: SavedEvidenceDraft,
+  reviewer: { keyId: string; actor: string; note?: string },
+) {
+  return mutateDispute(id, { actor: reviewer.actor, action: 'dispute.draft_saved' }, (record) => {
+    const previous = record.evidenceDraft;
+    record.evidenceDraft = draft;
+    record.updatedAt = draft.updatedAt;
+    if (previous?.narrative === draft.narrative && previous.narrativeField === draft.narrativeField) return;
+
+    const evidence = applyNarrative(
+      currentEvidence(record)?.evidence,
+      draft.narrativeField,
+      draft.narrative,
+      previous?.narrative,
+    );
+    // Direct field edits still win, same as when the evidence is rebuilt.
+    recordEditedVersion(record, { ...evidence, ...record.evidenceEdits }, reviewer);
+  });
+}
+
+export function addApprovalEvent(id: string, event: Omit<ApprovalEvent, 'at' | 'evidenceVersion'>) {
+  return mutateDispute(id, { actor: event.actor, action: `dispute.${event.action}` }, (record) => {
+    const now = new Date().toISOString();
+    record.approvalHistory = [
+      ...(record.approvalHistory || []),
+      { ...event, at: now, evidenceVersion: record.currentEvidenceVersion || 0 },
+    ];
+    record.updatedAt = now;
+  });
+}
+
+export function markDeflected(id: string, reason: string, actor = 'system') {
+  mutateDispute(id, { actor, action: 'dispute.deflected' }, (record) => {
+    record.deflected = true;
+    record.deflectionReason = reason;
+    record.deflectedAt = new Date().toISOString();
+    record.updatedAt = new Date().toISOString();
+  });
 }
 
 export function addSubmissionAttempt(id: string, attempt: SubmissionAttempt) {
-  const db = readDb();
-  const record = db.disputes.find((d) => d.id === id);
-  if (!record) return;
-  record.submissionAttempts = [...(record.submissionAttempts || []), attempt].slice(-20);
-  record.updatedAt = new Date().toISOString();
-  if (!attempt.success) record.latestError = attempt.message;
-  writeDb(db);
+  return mutateDispute(id, undefined, (record) => {
+    record.submissionAttempts = [...(record.submissionAttempts || []), attempt].slice(-20);
+    record.updatedAt = new Date().toISOString();
+    if (!attempt.success) record.latestError = attempt.message;
+  });
 }
 
 export function updateDisputeWorkflow(
   id: string,
   patch: Partial<Pick<DisputeRecord, 'owner' | 'workflowStatus' | 'nextActionAt' | 'internalNotes'>>,
+  actor = 'system',
 ) {
-  const db = readDb();
-  const record = db.disputes.find((d) => d.id === id);
-  if (!record) return undefined;
-  Object.assign(record, patch);
-  record.updatedAt = new Date().toISOString();
-  writeDb(db);
-  return record;
+  return mutateDispute(id, { actor, action: 'dispute.workflow_updated' }, (record) => {
+    Object.assign(record, patch);
+    record.updatedAt = new Date().toISOString();
+  });
 }
 
-export function getMetrics(merchantId?: string) {
+type CurrencyTotals = {
+  total: number;
+  won: number;
+  lost: number;
+  disputedAmount: number;
+  recoveredAmount: number;
+  lostAmount: number;
+};
+
+/**
+ * Dispute KPIs. Amounts are kept per currency in that currency's minor units; the top-level
+ * totals are in the reporting currency, and currencies without a rate are left out of them and
+ * listed in `unconvertedCurrencies`.
+ */
+export function getMetrics(merchantId?: string, reporting: ReportingCurrency = reportingCurrencyOf()) {
   const disputes = listDisputes(merchantId);
   const total = disputes.length;
   const won = disputes.filter((d) => d.status === 'won').length;
   const lost = disputes.filter((d) => d.status === 'lost').length;
   const submitted = disputes.filter((d) => d.submitted).length;
   const deflected = disputes.filter((d) => d.deflected).length;
-  const recoveredAmount = disputes.filter((d) => d.status === 'won').reduce((sum, d) => sum + (d.amount || 0), 0);
   const avgEvidenceScore = total ? Math.round(disputes.reduce((sum, d) => sum + (d.evidenceScore || 0), 0) / total) : 0;
 
+  const byCurrency: Record<string, CurrencyTotals> = {};
+  for (const d of disputes) {
+    const currency = (d.currency || 'usd').toLowerCase();
+    byCurrency[currency] ||= { total: 0, won: 0, lost: 0, disputedAmount: 0, recoveredAmount: 0, lostAmount: 0 };
+    const totals = byCurrency[currency];
+    totals.total += 1;
+    totals.disputedAmount += d.amount || 0;
+    if (d.status === 'won') {
+      totals.won += 1;
+      totals.recoveredAmount += d.amount || 0;
+    }
+    if (d.status === 'lost') {
+      totals.lost += 1;
+      totals.lostAmount += d.amount || 0;
+    }
+  }
+
+  let disputedAmount = 0;
+  let recoveredAmount = 0;
+  let lostAmount = 0;
+  const unconvertedCurrencies: string[] = [];
+  for (const [currency, totals] of Object.entries(byCurrency)) {
+    const disputed = convertAmount(totals.disputedAmount, currency, reporting);
+    if (disputed === undefined) {
+      unconvertedCurrencies.push(currency);
+      continue;
+    }
+    disputedAmount += disputed;
+    recoveredAmount += convertAmount(totals.recoveredAmount, currency, reporting) ?? 0;
+    lostAmount += convertAmount(totals.lostAmount, currency, reporting) ?? 0;
+  }
+
   const nowSec = Math.floor(Date.now() / 1000);
-  const dueSoon = disputes.filter((d) => d.dueBy && d.dueBy > nowSec && d.dueBy - nowSec <= 48 * 60 * 60 && d.status !== 'won' && d.status !== 'lost').length;
-  const overdue = disputes.filter((d) => d.dueBy && d.dueBy < nowSec && !d.submitted && d.status !== 'won' && d.status !== 'lost').length;
+  const dueSoon = disputes.filter((d) => d.dueBy && d.dueBy > nowSec && d.dueBy - nowSec <= 48 * 60 * 60 && !isDisputeClosed(d.status)).length;
+  const overdue = disputes.filter((d) => d.dueBy && d.dueBy < nowSec && !d.submitted && !isDisputeClosed(d.status)).length;
 
-  const monthStartIso = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1)).toISOString();
-  const monthlyDisputes = disputes.filter((d) => d.updatedAt >= monthStartIso).length;
+  // Counted by when Stripe opened the dispute; updatedAt moves whenever a webhook touches the record.
+  const monthStartSec = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1) / 1000;
+  const monthlyDisputes = disputes.filter((d) => (d.disputeCreatedAt || 0) >= monthStartSec).length;
 
   const byReason: Record<string, { total: number; won: number; lost: number }> = {};
   for (const d of disputes) {
@@ -309,7 +469,12 @@ export function getMetrics(merchantId?: string) {
     submitted,
     deflected,
     winRate: total ? Number(((won / total) * 100).toFixed(1)) : 0,
+    reportingCurrency: reporting.currency,
+    disputedAmount,
     recoveredAmount,
+    lostAmount,
+    unconvertedCurrencies,
+    byCurrency,
     avgEvidenceScore,
     dueSoon,
     overdue,
@@ -319,40 +484,43 @@ export function getMetrics(merchantId?: string) {
 }
 
 export function listAlerts(merchantId?: string) {
-  const db = readDb();
-  const items = merchantId ? db.alerts.filter((a) => a.merchantId === merchantId) : db.alerts;
+  const items = getStore().alerts.list(merchantId);
   return items.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
 }
 
 export function upsertAlert(record: AlertRecord) {
-  const db = readDb();
-  const idx = db.alerts.findIndex((a) => a.id === record.id);
-  if (idx >= 0) db.alerts[idx] = { ...db.alerts[idx], ...record };
-  else db.alerts.push(record);
-  writeDb(db);
+  const { alerts } = getStore();
+  getStore().transaction(() => {
+    const existing = alerts.get(record.id);
+    alerts.put(existing ? { ...existing, ...record } : record);
+  });
   return record;
 }
 
-export function findAlertByExternal(source: AlertRecord['source'], externalAlertId?: string, chargeId?: string) {
-  const db = readDb();
-  return db.alerts.find(
-    (a) =>
-      (externalAlertId && a.externalAlertId && a.externalAlertId === externalAlertId && a.source === source) ||
-      (chargeId && a.chargeId && a.chargeId === chargeId && a.source === source),
+/** Provider ids are only unique per merchant account, so a merchant only matches its own alerts. */
+export function findAlertByExternal(
+  merchantId: string | undefined,
+  source: AlertRecord['source'],
+  externalAlertId?: string,
+  chargeId?: string,
+) {
+  const { alerts } = getStore();
+  const scope = merchantId ? { merchantId, source } : { source };
+  return (
+    (externalAlertId ? alerts.find({ ...scope, externalAlertId })[0] : undefined) ||
+    (chargeId ? alerts.find({ ...scope, chargeId })[0] : undefined)
   );
 }
 
 export function listInquiries(merchantId?: string) {
-  const db = readDb();
-  const items = merchantId ? db.inquiries.filter((i) => i.merchantId === merchantId) : db.inquiries;
+  const items = getStore().inquiries.list(merchantId);
   return items.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
 }
 
 export function upsertInquiry(record: InquiryRecord) {
-  const db = readDb();
-  const idx = db.inquiries.findIndex((i) => i.id === record.id);
-  if (idx >= 0) db.inquiries[idx] = { ...db.inquiries[idx], ...record, updatedAt: new Date().toISOString() };
-  else db.inquiries.push(record);
-  writeDb(db);
-  return idx >= 0 ? db.inquiries[idx] : record;
+  const { inquiries } = getStore();
+  return getStore().transaction(() => {
+    const existing = inquiries.get(record.id);
+    return inquiries.put(existing ? { ...existing, ...record, updatedAt: new Date().toISOString() } : record);
+  });
 }
@@ -0,0 +1,259 @@
+import { createHash, randomUUID } from 'crypto';
+import Stripe from 'stripe';
+import type { StripeErrorCategory } from './types';
+
+export const STRIPE_API_VERSION = '2025-08-27.basil';
+
+type StripeFactory = (apiKey: string) => Stripe;
+
+// Retries are ours (below), so the SDK's own are off to avoid multiplying them.
+const defaultFactory: StripeFactory = (apiKey) =>
+  new Stripe(apiKey, { apiVersion: STRIPE_API_VERSION, maxNetworkRetries: 0 });
+
+let factory: StripeFactory = defaultFactory;
+
+const RETRYABLE: StripeErrorCategory[] = ['rate_limited', 'transient'];
+// Failures that say something about the account or Stripe itself, as opposed to one bad request.
+const TRIPS_BREAKER: StripeErrorCategory[] = ['auth_revoked', 'rate_limited', 'transient'];
+const PERMANENT: StripeErrorCategory[] = ['auth_revoked', 'evidence_invalid', 'past_due', 'not_found'];
+
+const PAST_DUE =
+  /past due|due date|deadline|no longer (be )?(accept|update|submit)|already (been )?(closed|submitted)/i;
+
+// Option argument position for calls that get an idempotency key.
+const IDEMPOTENT_CALLS: Record<string, number> = { 'disputes.update': 2, 'refunds.create': 1 };
+
+export const stripeClientConfig = {
+  ratePerSecond: 25,
+  maxRetries: 3,
+  retryBaseMs: 500,
+  retryMaxMs: 8000,
+  failureThreshold: 5,
+  cooldownMs: 60 * 1000,
+};
+
+export function configureStripeClients(next: Partial<typeof stripeClientConfig>) {
+  Object.assign(stripeClientConfig, next);
+}
+
+export class StripeCallError extends Error {
+  constructor(
+    message: string,
+    readonly category: StripeErrorCategory,
+    readonly account: string,
+    readonly method: string,
+    readonly statusCode?: number,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'StripeCallError';
+  }
+}
+
+export function classifyStripeError(err: unknown): StripeErrorCategory {
+  if (err instanceof StripeCallError) return err.category;
+  if (!(err instanceof Stripe.errors.StripeError)) return 'unknown';
+  switch (err.type) {
+    case 'StripeAuthenticationError':
+    case 'StripePermissionError':
+    case 'StripeInvalidGrantError':
+      return 'auth_revoked';
+    case 'StripeRateLimitError':
+      return 'rate_limited';
+    case 'StripeConnectionError':
+    case 'StripeAPIError':
+      return 'transient';
+  }
+  if (err.code === 'lock_timeout' || (err.statusCode ?? 0) >= 500) return 'transient';
+  if (err.code === 'account_invalid' || err.code === 'platform_account_required') return 'auth_revoked';
+  if (PAST_DUE.test(err.message)) return 'past_due';
+  if (err.param?.startsWith('evidence')) return 'evidence_invalid';
+  if (err.code === 'resource_missing') return 'not_found';
+  return 'invalid_request';
+}
+
+/** True when retrying the same call can't help until something changes (reconnect, new evidence). */
+export function isPermanentStripeError(err: unknown) {
+  return PERMANENT.includes(classifyStripeError(err));
+}
+
+type AccountState = {
+  tokens: number;
+  refilledAt: number;
+  failures: number;
+  openedUntil?: number;
+  probing: boolean;
+  lastCategory?: StripeErrorCategory;
+  lastFailureAt?: number;
+};
+
+const accounts = new Map<string, AccountState>();
+const clients = new Map<string, Stripe>();
+
+function stateFor(account: string) {
+  let state = accounts.get(account);
+  if (!state) {
+    state = { tokens: stripeClientConfig.ratePerSecond, refilledAt: Date.now(), failures: 0, probing: false };
+    accounts.set(account, state);
+  }
+  return state;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Token bucket per account, refilled at `ratePerSecond`. In-process only: each instance keeps its
+// own budget, so set the rate with the instance count in mind.
+async function takeToken(account: string) {
+  const state = stateFor(account);
+  const rate = stripeClientConfig.ratePerSecond;
+  for (;;) {
+    const now = Date.now();
+    state.tokens = Math.min(rate, state.tokens + ((now - state.refilledAt) / 1000) * rate);
+    state.refilledAt = now;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - state.tokens) / rate) * 1000));
+  }
+}
+
+// Closed: calls go through. Open: calls fail fast until the cooldown ends. Then one probe call is
+// let through (half-open); its result closes or re-opens the breaker.
+function enterBreaker(account: string, method: string) {
+  const state = stateFor(account);
+  if (state.openedUntil === undefined) return;
+  if (Date.now() < state.openedUntil || state.probing) {
+    throw new StripeCallError(
+      `Stripe calls for ${account} paused after repeated failures (${state.lastCategory})`,
+      'circuit_open',
+      account,
+      method,
+    );
+  }
+  state.probing = true;
+}
+
+function recordSuccess(account: string) {
+  const state = stateFor(account);
+  state.failures = 0;
+  state.openedUntil = undefined;
+  state.probing = false;
+}
+
+function recordFailure(account: string, category: StripeErrorCategory) {
+  const state = stateFor(account);
+  state.lastCategory = category;
+  state.lastFailureAt = Date.now();
+  if (!TRIPS_BREAKER.includes(category)) {
+    state.probing = false;
+    return;
+  }
+  state.failures += 1;
+  if (state.probing || state.failures >= stripeClientConfig.failureThreshold) {
+    state.openedUntil = Date.now() + stripeClientConfig.cooldownMs;
+  }
+  state.probing = false;
+}
+
+function shouldRetry(err: unknown, category: StripeErrorCategory) {
+  if (!RETRYABLE.includes(category)) return false;
+  // Stripe says outright when a retry is pointless (or required), e.g. for some 409s and 500s.
+  const header = (err as { headers?: Record<string, string> }).headers?.['stripe-should-retry'];
+  return header !== 'false';
+}
+
+// Full jitter: anywhere between zero and the exponential cap, so accounts retrying together spread out.
+function retryDelay(attempt: number) {
+  const cap = Math.min(stripeClientConfig.retryMaxMs, stripeClientConfig.retryBaseMs * 2 ** attempt);
+  return Math.floor(Math.random() * cap);
+}
+
+function withIdempotencyKey(method: string, args: unknown[]) {
+  const position = IDEMPOTENT_CALLS[method];
+  if (position === undefined) return args;
+  const next = [...args];
+  while (next.length < position) next.push(undefined);
+  const options = (next[position] || {}) as Stripe.RequestOptions;
+  // One key per logical call, reused across our retries; callers pass their own to dedupe across requests.
+  next[position] = { ...options, idempotencyKey: options.idempotencyKey || `autopilot-${method}-${randomUUID()}` };
+  return next;
+}
+
+async function call(account: string, method: string, fn: (...args: unknown[]) => Promise<unknown>, args: unknown[]) {
+  const sent = withIdempotencyKey(method, args);
+  for (let attempt = 0; ; attempt++) {
+    if (attempt === 0) enterBreaker(account, method);
+    await takeToken(account);
+    try {
+      const result = await fn(...sent);
+      recordSuccess(account);
+      return result;
+    } catch (err) {
+      const category = classifyStripeError(err);
+      if (attempt < stripeClientConfig.maxRetries && shouldRetry(err, category)) {
+        await sleep(retryDelay(attempt));
+        continue;
+      }
+      recordFailure(account, category);
+      const statusCode = (err as { statusCode?: number }).statusCode;
+      throw new StripeCallError((err as Error).message, category, account, method, statusCode, err);
+    }
+  }
+}
+
+// Synchronous helpers that make no API call.
+const PASS_THROUGH = new Set(['webhooks', 'errors', 'oauth.authorizeUrl']);
+
+// Wraps every resource method (stripe.disputes.update, stripe.radar.earlyFraudWarnings.list ...)
+// in `call`. Wrapped list calls resolve to one page: the auto-pagination helpers are not kept.
+function guard<T extends object>(target: T, account: string, path: string[]): T {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value = Reflect.get(obj, prop, receiver);
+      if (typeof prop !== 'string' || prop.startsWith('_')) return value;
+      const method = [...path, prop].join('.');
+      if (PASS_THROUGH.has(method)) return value;
+      if (typeof value === 'function') {
+        if (!path.length) return value;
+        return (...args: unknown[]) =>
+          call(account, method, (...sent) => (value as (...a: unknown[]) => Promise<unknown>).apply(obj, sent), args);
+      }
+      if (value && typeof value === 'object') return guard(value as object, account, [...path, prop]);
+      return value;
+    },
+  });
+}
+
+/**
+ * Every Stripe client in the app is built here, so tests can swap in a stub. Clients are cached
+ * per API key; `account` names the connected account for rate limits, the circuit breaker and errors.
+ */
+export function createStripeClient(apiKey: string, account?: string): Stripe {
+  let client = clients.get(apiKey);
+  if (!client) {
+    const label = account || `key_${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+    client = guard(factory(apiKey), label, []);
+    clients.set(apiKey, client);
+  }
+  return client;
+}
+
+export function setStripeFactory(next?: StripeFactory) {
+  factory = next || defaultFactory;
+  clients.clear();
+  accounts.clear();
+}
+
+/** Breaker state per account that has made calls, for the health endpoint. */
+export function stripeAccountHealth() {
+  const now = Date.now();
+  return [...accounts.entries()].map(([account, state]) => ({
+    account,
+    breaker: state.openedUntil === undefined ? 'closed' : now < state.openedUntil ? 'open' : 'half_open',
+    consecutiveFailures: state.failures,
+    openedUntil: state.openedUntil ? new Date(state.openedUntil).toISOString() : undefined,
+    lastCategory: state.lastCategory,
+    lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : undefined,
+  }));
+}
@@ -0,0 +1,207 @@
+import type Stripe from 'stripe';
+import { formatAmount } from './currency';
+import type { EvidenceProfile, InquiryRecord, MerchantRecord } from './types';
+
+/**
+ * Placeholders a merchant template may use. Templates are plain text with `{{name}}` lookups and
+ * `{{#if name}}` / `{{#if name == "value"}}` ... `{{else}}` ... `{{/if}}` blocks; nothing else is
+ * evaluated, so a template can't reach data outside this list.
+ */
+export const templateVariables: Record<string, string> = {
+  'dispute.id': 'Stripe dispute id',
+  reason: 'Dispute reason code, e.g. fraudulent or product_not_received',
+  amount: 'Disputed amount with currency, e.g. $49.99',
+  currency: 'Three-letter currency code, upper case',
+  'dispute.created': 'Date the dispute was opened (YYYY-MM-DD)',
+  'dispute.due_by': 'Evidence deadline (YYYY-MM-DD)',
+  'customer.name': 'Cardholder name from the charge billing details',
+  'customer.email': 'Customer email from the charge',
+  'charge.id': 'Stripe charge id',
+  'charge.created': 'Date of the purchase (YYYY-MM-DD)',
+  'charge.description': 'Charge description',
+  descriptor: 'Statement descriptor the customer saw',
+  'merchant.name': 'Merchant name',
+  'product.description': "The evidence profile's product description",
+  'policy.terms_url': 'Terms of service URL',
+  'policy.refund_url': 'Refund policy URL',
+  'policy.cancellation_url': 'Cancellation policy URL',
+  'support.email': 'Support email',
+  'support.phone': 'Support phone',
+  'support.url': 'Support URL',
+  platform: 'Inquiry platform (paypal, klarna, afterpay, ebay, other)',
+  'inquiry.message': "The customer's inquiry message",
+};
+
+export type TemplateContext = Partial<Record<string, string>>;
+
+export type TemplateResult = { text: string; warnings: string[] };
+
+type Condition = { name: string; op?: '==' | '!='; value?: string };
+type Node = { text: string } | { variable: string } | { condition: Condition; then: Node[]; otherwise: Node[] };
+
+const TAG = /{{\s*(.*?)\s*}}/g;
+const NAME = /^[a-z_]+(\.[a-z_]+)*$/;
+const CONDITION = /^#if\s+([a-z_.]+)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'))?$/;
+
+class TemplateSyntaxError extends Error {}
+
+function parse(template: string): Node[] {
+  const root: Node[] = [];
+  // Open #if blocks, innermost last; `target` is the branch currently being filled.
+  const stack: { node: Extract<Node, { condition: Condition }>; target: Node[] }[] = [];
+  const out = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  let last = 0;
+  for (const match of template.matchAll(TAG)) {
+    if (match.index! > last) out().push({ text: template.slice(last, match.index) });
+    last = match.index! + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('#')) {
+      const cond = CONDITION.exec(tag);
+      if (!cond || !NAME.test(cond[1])) throw new TemplateSyntaxError(`Invalid block "{{${tag}}}".`);
+      const node = {
+        condition: { name: cond[1], op: cond[2] as Condition['op'], value: cond[3] ?? cond[4] },
+        then: [],
+        otherwise: [],
+      };
+      out().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.target === open.node.otherwise) throw new TemplateSyntaxError('Unexpected {{else}}.');
+      open.target = open.node.otherwise;
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new TemplateSyntaxError('Unexpected {{/if}}.');
+    } else if (NAME.test(tag)) {
+      out().push({ variable: tag });
+    } else {
+      throw new TemplateSyntaxError(`Invalid placeholder "{{${tag}}}".`);
+    }
+  }
+  if (stack.length) throw new TemplateSyntaxError('Missing {{/if}}.');
+  if (last < template.length) root.push({ text: template.slice(last) });
+  return root;
+}
+
+function referencedNames(nodes: Node[], names = new Set<string>()) {
+  for (const node of nodes) {
+    if ('variable' in node) names.add(node.variable);
+    if ('condition' in node) {
+      names.add(node.condition.name);
+      referencedNames(node.then, names);
+      referencedNames(node.otherwise, names);
+    }
+  }
+  return names;
+}
+
+function unknownVariableWarnings(nodes: Node[]) {
+  return [...referencedNames(nodes)]
+    .filter((name) => !(name in templateVariables))
+    .map((name) => `Unknown variable "${name}".`);
+}
+
+/** Syntax errors make a template unusable; warnings (unknown variables) render as blanks. */
+export function checkTemplate(template: string): { errors: string[]; warnings: string[] } {
+  try {
+    return { errors: [], warnings: unknownVariableWarnings(parse(template)) };
+  } catch (err) {
+    if (err instanceof TemplateSyntaxError) return { errors: [err.message], warnings: [] };
+    throw err;
+  }
+}
+
+function evaluate(nodes: Node[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      if ('text' in node) return node.text;
+      if ('variable' in node) return context[node.variable] ?? '';
+      const { name, op, value } = node.condition;
+      const actual = context[name] ?? '';
+      const holds = op === '==' ? actual === value : op === '!=' ? actual !== value : !!actual;
+      return evaluate(holds ? node.then : node.otherwise, context);
+    })
+    .join('');
+}
+
+/**
+ * Renders a template. A template with a syntax error is returned unrendered with the error as a
+ * warning, so a bad template never blocks evidence from being built.
+ */
+export function renderTemplate(template: string, context: TemplateContext): TemplateResult {
+  let nodes: Node[];
+  try {
+    nodes = parse(template);
+  } catch (err) {
+    if (err instanceof TemplateSyntaxError) return { text: template, warnings: [err.message] };
+    throw err;
+  }
+  return { text: evaluate(nodes, context).trim(), warnings: unknownVariableWarnings(nodes) };
+}
+
+function day(unixSeconds?: number | null) {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString().slice(0, 10) : undefined;
+}
+
+export function buildTemplateContext(input: {
+  dispute?: { id: string; reason: string; amount: number; currency: string; created?: number; dueBy?: number };
+  charge?: Stripe.Charge;
+  merchant?: MerchantRecord;
+  profile?: EvidenceProfile;
+  inquiry?: Pick<InquiryRecord, 'platform' | 'customerMessage'>;
+}): TemplateContext {
+  const { dispute, charge, merchant, profile, inquiry } = input;
+  const settings = merchant?.settings;
+  const context: TemplateContext = {
+    'dispute.id': dispute?.id,
+    reason: dispute?.reason,
+    amount: dispute && formatAmount(dispute.amount, dispute.currency, 'en-US'),
+    currency: dispute?.currency.toUpperCase(),
+    'dispute.created': day(dispute?.created),
+    'dispute.due_by': day(dispute?.dueBy),
+    'customer.name': charge?.billing_details?.name || undefined,
+    'customer.email': charge?.billing_details?.email || charge?.receipt_email || undefined,
+    'charge.id': charge?.id,
+    'charge.created': day(charge?.created),
+    'charge.description': charge?.description || undefined,
+    descriptor:
+      charge?.calculated_statement_descriptor || charge?.statement_descriptor || settings?.statementDescriptor,
+    'merchant.name': merchant?.name,
+    'policy.terms_url': profile?.termsUrl,
+    'policy.refund_url': profile?.refundPolicyUrl,
+    'policy.cancellation_url': profile?.cancellationPolicyUrl,
+    'support.email': settings?.supportEmail,
+    'support.phone': settings?.supportPhone,
+    'support.url': settings?.supportUrl,
+    platform: inquiry?.platform,
+    'inquiry.message': inquiry?.customerMessage,
+  };
+  // The product description is itself a template; render it once so other templates can embed it.
+  if (profile?.productDescriptionTemplate) {
+    context['product.description'] = renderTemplate(profile.productDescriptionTemplate, context).text;
+  }
+  return context;
+}
+
+// Profile fields that are free text and may contain placeholders.
+export const profileTemplateFields = [
+  'productDescriptionTemplate',
+  'onboardingProofTemplate',
+  'deliveryProofTemplate',
+  'supportPolicyTemplate',
+] as const;
+
+/** The evidence profile with its text templates rendered, plus any warnings they raised. */
+export function renderEvidenceProfile(profile: EvidenceProfile, context: TemplateContext) {
+  const rendered: EvidenceProfile = { ...profile };
+  const warnings: string[] = [];
+  for (const field of profileTemplateFields) {
+    const template = profile[field];
+    if (!template) continue;
+    const result = renderTemplate(template, context);
+    rendered[field] = result.text;
+    warnings.push(...result.warnings.map((w) => `${field}: ${w}`));
+  }
+  return { profile: rendered, warnings };
+}
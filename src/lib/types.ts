@@ -0,0 +1,604 @@
+import type Stripe from 'stripe';
+
+export type MerchantSettings = {
+  autoSubmitEnabled: boolean;
+  autoSubmitReasons: string[];
+  minEvidenceScore: number;
+  manualReviewAmountThreshold: number;
+  monthlyDisputeAlertThresholdPct: number;
+  monthlyTransactionCount: number;
+  submissionDelayMinutes: number;
+  statementDescriptor: string;
+  supportEmail: string;
+  supportPhone: string;
+  supportUrl: string;
+  recoveryFeePct: number;
+  alertDeflectionFeeCents: number;
+  roiGuaranteeMultiplier: number;
+  alertsAutoRefundEnabled: boolean;
+  inquiryAutomationEnabled: boolean;
+  /** Every dispute needs sign-off before submission (manual-review disputes always do). */
+  approvalRequired: boolean;
+  /** At or above this amount (cents) two different reviewers must approve. */
+  dualApprovalAmountThreshold: number;
+  /** Per-reason tweaks to the built-in scoring profiles, keyed by Stripe reason code. */
+  scoringOverrides?: Record<string, ScoringOverride>;
+  /** Lowercase ISO code metrics and pricing totals are converted to. */
+  reportingCurrency: string;
+  /** Major units of the reporting currency per major unit of each other currency, e.g. `{ eur: 1.08 }`. */
+  exchangeRates: Record<string, number>;
+  /** Refund caps and budgets, in reporting-currency minor units; 0 means no limit. */
+  maxRefundAmount: number;
+  dailyRefundBudget: number;
+  monthlyRefundBudget: number;
+  /** Evaluate deflection and alert refunds but never issue them. */
+  refundDryRun: boolean;
+  /** Carry out Early Fraud Warning refund decisions; when off they are only recorded. */
+  efwAutoRefundEnabled: boolean;
+  /** Largest charge an EFW refunds rather than fights, in reporting-currency minor units; 0 means no limit. */
+  efwRefundMaxAmount: number;
+  /** Radar `fraud_type`s worth refunding; warnings of other types are left to be fought. */
+  efwRefundFraudTypes: string[];
+  /** Fight rather than refund when the charge already qualifies for Visa CE 3.0. */
+  efwFightCe3Eligible: boolean;
+};
+
+/** Evidence signals the scoring engine weighs: text inputs plus uploaded file kinds. */
+export type ScoreField =
+  | 'customerName'
+  | 'customerEmail'
+  | 'productDescription'
+  | 'supportInteraction'
+  | 'termsUrl'
+  | 'refundPolicyUrl'
+  | 'cancellationPolicyUrl'
+  | 'accessLog'
+  | 'shippingTracking'
+  | 'statementDescriptor'
+  | 'supportChannels'
+  | AttachmentKind;
+
+/** A nested list is an any-of group: one of its fields satisfies the requirement. */
+export type RequiredField = ScoreField | ScoreField[];
+
+export type ScoringOverride = {
+  /** Merged over the profile's weights; 0 drops a field. */
+  weights?: Partial<Record<ScoreField, number>>;
+  /** Replaces the profile's must-have list when set. */
+  required?: RequiredField[];
+};
+
+export type ScoreBreakdownItem = {
+  field: string;
+  present: boolean;
+  points: number;
+  note: string;
+};
+
+export type EvidenceProfile = {
+  businessType: 'info_coaching' | 'generic';
+  productDescriptionTemplate: string;
+  termsUrl?: string;
+  refundPolicyUrl?: string;
+  cancellationPolicyUrl?: string;
+  onboardingProofTemplate?: string;
+  deliveryProofTemplate?: string;
+  supportPolicyTemplate?: string;
+  /** Draft narratives keyed by reason code, with `default` for the rest. See templates.ts. */
+  reasonTemplates?: Record<string, string>;
+  /** Inquiry reply templates keyed by platform, with `default` for the rest. */
+  inquiryTemplates?: Partial<Record<InquiryRecord['platform'] | 'default', string>>;
+};
+
+export type MerchantRecord = {
+  id: string;
+  name: string;
+  stripeAccountId: string;
+  /** Encrypted at rest (see secrets.ts); read it through getMerchantAccessToken. */
+  stripeAccessToken: string;
+  status?: 'connected' | 'disconnected';
+  disconnectedAt?: string;
+  createdAt: string;
+  settings: MerchantSettings;
+  evidenceProfile: EvidenceProfile;
+};
+
+/**
+ * Why a Stripe call failed, in terms callers act on: `auth_revoked` means the merchant must
+ * reconnect, `evidence_invalid` and `past_due` won't succeed on retry, `rate_limited` and
+ * `transient` will, `circuit_open` means we didn't try.
+ */
+export type StripeErrorCategory =
+  | 'auth_revoked'
+  | 'evidence_invalid'
+  | 'past_due'
+  | 'not_found'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'transient'
+  | 'circuit_open'
+  | 'unknown';
+
+export type SubmissionAttempt = {
+  at: string;
+  success: boolean;
+  message: string;
+  category?: StripeErrorCategory;
+};
+
+/** One evidence payload exactly as it was (or will be) sent to Stripe. */
+export type EvidenceVersion = {
+  version: number;
+  evidence: Stripe.DisputeUpdateParams.Evidence;
+  score: number;
+  createdAt: string;
+  createdBy: string;
+  /** Last time this payload was written to Stripe. */
+  sentAt?: string;
+  submittedAt?: string;
+};
+
+/** Outcome of the Visa Compelling Evidence 3.0 check on a fraud dispute. */
+export type Ce3Assessment = {
+  eligible: boolean;
+  note: string;
+  /** Prior undisputed charges that matched, with the data elements they matched on. */
+  qualifyingCharges: { chargeId: string; created: number; matched: string[] }[];
+  checkedAt: string;
+};
+
+export type ApprovalEvent = {
+  at: string;
+  action: 'edited' | 'changes_requested' | 'approved';
+  /** API key id of the reviewer, used to tell makers and checkers apart. */
+  keyId: string;
+  actor: string;
+  evidenceVersion: number;
+  note?: string;
+};
+
+export type EvidenceDraft = {
+  headline: string;
+  narrative: string;
+  checklist: string[];
+  suggestedAttachments: string[];
+};
+
+/** Evidence text field a saved draft narrative is written to; depends on the reason code. */
+export type NarrativeField =
+  | 'uncategorized_text'
+  | 'cancellation_rebuttal'
+  | 'refund_refusal_explanation'
+  | 'duplicate_charge_explanation';
+
+export type SavedEvidenceDraft = {
+  headline: string;
+  narrative: string;
+  narrativeField: NarrativeField;
+  checklist: { text: string; done: boolean }[];
+  suggestedAttachments: string[];
+  /** The auto-generated draft the edits started from, kept for the diff view. */
+  generated: EvidenceDraft;
+  updatedAt: string;
+  updatedBy: string;
+};
+
+/** Card transactions for one merchant and calendar month (UTC), counted from Stripe charges. */
+export type TransactionVolumeRecord = {
+  /** `${merchantId}:${month}` */
+  id: string;
+  merchantId: string;
+  /** YYYY-MM */
+  month: string;
+  /** Succeeded charges by card brand (`visa`, `mastercard`, ...; `other` for non-card). */
+  counts: Record<string, number>;
+  /** Charges created up to this unix time are counted; refreshes only page through newer ones. */
+  countedUntil: number;
+  complete: boolean;
+  refreshedAt: string;
+};
+
+/** A network monitoring threshold a merchant reached, or is projected to reach by month end. */
+export type RatioAlertRecord = {
+  /** `${merchantId}:${month}:${network}:${level}:${kind}` */
+  id: string;
+  merchantId: string;
+  month: string;
+  network: string;
+  program: string;
+  level: string;
+  kind: 'projected' | 'reached';
+  ratioPct: number;
+  projectedRatioPct: number;
+  thresholdPct: number;
+  disputes: number;
+  transactions: number;
+  firedAt: string;
+};
+
+/** Stripe's dispute statuses; `warning_*` are inquiries, which may or may not become chargebacks. */
+export type DisputeStatus = Stripe.Dispute.Status;
+
+/** One stage in a dispute's life; the stage lasts until the next entry. */
+export type DisputeStatusChange = {
+  status: DisputeStatus;
+  /** Unix seconds: when Stripe opened the dispute for the first stage, else the event time. */
+  at: number;
+  eventId?: string;
+};
+
+/** Funds Stripe moved for a dispute; amounts are in the balance (settlement) currency's minor units. */
+export type DisputeBalanceTransaction = {
+  id: string;
+  kind: 'withdrawal' | 'reinstatement';
+  /** Negative for a withdrawal. */
+  amount: number;
+  fee: number;
+  /** amount - fee: the actual change to the balance. */
+  net: number;
+  currency: string;
+  createdAt: number;
+};
+
+export type DisputeRecord = {
+  id: string;
+  merchantId?: string;
+  stripeAccountId?: string;
+  chargeId?: string;
+  reason: string;
+  amount: number;
+  currency: string;
+  status: DisputeStatus;
+  /** Oldest first; `status` is the latest entry. */
+  statusHistory?: DisputeStatusChange[];
+  balanceTransactions?: DisputeBalanceTransaction[];
+  /** Card brand of the disputed payment, e.g. visa or mastercard. */
+  network?: string;
+  dueBy?: number;
+  disputeCreatedAt?: number;
+  updatedAt: string;
+  submitted: boolean;
+  deflected?: boolean;
+  deflectionReason?: string;
+  deflectedAt?: string;
+  evidenceScore: number;
+  manualReviewRequired: boolean;
+  evidenceSummary: string[];
+  scoreBreakdown?: ScoreBreakdownItem[];
+  ce3?: Ce3Assessment;
+  /** Newest last; retries resubmit the payload numbered currentEvidenceVersion. */
+  evidenceVersions?: EvidenceVersion[];
+  currentEvidenceVersion?: number;
+  /** Reviewer edits to evidence text fields, re-applied whenever the evidence is rebuilt. */
+  evidenceEdits?: Stripe.DisputeUpdateParams.Evidence;
+  approvalHistory?: ApprovalEvent[];
+  evidenceDraft?: SavedEvidenceDraft;
+  submissionAttempts: SubmissionAttempt[];
+  latestError?: string;
+  owner?: string;
+  workflowStatus?: 'new' | 'in_progress' | 'waiting_on_customer' | 'ready_to_submit' | 'submitted' | 'closed';
+  nextActionAt?: string;
+  internalNotes?: string;
+};
+
+export type AlertRecord = {
+  id: string;
+  merchantId?: string;
+  disputeId?: string;
+  chargeId?: string;
+  source: 'verifi' | 'ethoca' | 'network' | 'manual';
+  externalAlertId?: string;
+  amount?: number;
+  currency?: string;
+  refunded?: boolean;
+  refundId?: string;
+  /** Why the refund policy declined to refund the charge (see refund-policy.ts). */
+  refundBlockedReason?: string;
+  /** Provider alert type, e.g. `rdr`, `cdrn`, `fraud` or `dispute`. */
+  alertType?: string;
+  /** Acquirer reference number of the alerted transaction. */
+  arn?: string;
+  /** Verifi RDR resolved the case itself: the cardholder is already credited, so nothing is refunded here. */
+  resolvedByNetwork?: boolean;
+  /** What the provider was told; a redelivered alert gets the same answer. */
+  acknowledgement?: AlertAcknowledgement;
+  duplicateOf?: string;
+  /** Set by reconciliation (see alert-outcomes.ts); unset while it is too early to tell. */
+  outcome?: AlertOutcome;
+  /** The dispute that arrived on the charge despite the alert. */
+  outcomeDisputeId?: string;
+  outcomeAt?: string;
+  createdAt: string;
+};
+
+export type AlertOutcome = 'deflected_successfully' | 'dispute_arrived_anyway' | 'duplicate';
+
+export type AlertProviderName = 'verifi' | 'ethoca';
+
+export type AlertAcknowledgement = {
+  outcome: 'refunded' | 'declined' | 'already_disputed' | 'already_refunded' | 'resolved_by_network';
+  /** Why a refund was declined, e.g. `charge_not_found` or a refund-policy check. */
+  reason?: string;
+};
+
+/** A merchant's inbound alert feed from one provider. */
+export type AlertProviderConfigRecord = {
+  /** `${merchantId}:${provider}` */
+  id: string;
+  merchantId: string;
+  provider: AlertProviderName;
+  enabled: boolean;
+  /** Signing key (Verifi) or shared API key (Ethoca), encrypted at rest. */
+  secret: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The deflection fee for one alert that prevented a chargeback. */
+export type DeflectionChargeRecord = {
+  /** The alert id: an alert is billed at most once. */
+  id: string;
+  merchantId?: string;
+  chargeId: string;
+  source: AlertRecord['source'];
+  /** `alertDeflectionFeeCents` when the deflection was confirmed, in the reporting currency's minor units. */
+  fee: number;
+  currency: string;
+  /** Voided when a dispute arrives on the charge after all. */
+  status: 'billable' | 'voided';
+  voidedReason?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** One refund issued, or being issued, by a deflection or an alert; the ledger budgets are counted from. */
+export type RefundRecord = {
+  /** The idempotency key sent to Stripe, e.g. `deflect:${disputeId}`. */
+  id: string;
+  merchantId?: string;
+  chargeId: string;
+  disputeId?: string;
+  source: 'deflection' | 'alert' | 'efw';
+  amount: number;
+  currency: string;
+  /** `amount` in the merchant's reporting currency; undefined when there was no exchange rate. */
+  reportingAmount?: number;
+  partial: boolean;
+  /** Pending refunds hold their share of the budget until Stripe answers. */
+  status: 'pending' | 'succeeded' | 'failed';
+  /** Tries so far; each retry after a failure is sent under a new idempotency key. */
+  attempts: number;
+  stripeRefundId?: string;
+  error?: string;
+  actor: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type InquiryRecord = {
+  id: string;
+  merchantId?: string;
+  disputeId?: string;
+  platform: 'paypal' | 'klarna' | 'afterpay' | 'ebay' | 'other';
+  status: 'new' | 'responded' | 'escalated' | 'resolved';
+  customerMessage?: string;
+  responseDraft?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AuditEntry = {
+  id: string;
+  merchantId?: string;
+  actor: string;
+  action: string;
+  entityType: 'dispute' | 'merchant' | 'charge';
+  entityId: string;
+  diff: Record<string, { before: unknown; after: unknown }>;
+  at: string;
+};
+
+export type Role = 'viewer' | 'analyst' | 'approver' | 'admin';
+
+export type ApiKeyRecord = {
+  id: string;
+  /** Unset for platform-level keys that can act across all merchants. */
+  merchantId?: string;
+  name: string;
+  role: Role;
+  keyHash: string;
+  createdAt: string;
+  revokedAt?: string;
+};
+
+export type WebhookEventRecord = {
+  /** Stripe event id (evt_...), so redeliveries of the same event collide. */
+  id: string;
+  merchantId?: string;
+  stripeAccountId?: string;
+  type: string;
+  status: 'received' | 'processed' | 'failed';
+  error?: string;
+  attempts: number;
+  payload: unknown;
+  receivedAt: string;
+  updatedAt: string;
+  processedAt?: string;
+};
+
+/** Dispute evidence fields that take an uploaded Stripe file id. */
+export type AttachmentKind =
+  | 'receipt'
+  | 'customer_communication'
+  | 'customer_signature'
+  | 'shipping_documentation'
+  | 'service_documentation'
+  | 'refund_policy'
+  | 'cancellation_policy'
+  | 'duplicate_charge_documentation'
+  | 'uncategorized_file';
+
+export type AttachmentRecord = {
+  id: string;
+  merchantId?: string;
+  /** Unset for merchant-level assets (e.g. the terms PDF) that are reused on every dispute. */
+  disputeId?: string;
+  kind: AttachmentKind;
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Stripe File id (file_...), uploaded with purpose dispute_evidence. */
+  stripeFileId: string;
+  uploadedBy: string;
+  createdAt: string;
+  removedAt?: string;
+};
+
+export type NotificationEvent =
+  | 'dispute.created'
+  | 'dispute.manual_review'
+  | 'dispute.due_soon'
+  | 'submission.failed'
+  | 'dispute.closed'
+  | 'ratio.threshold_crossed';
+
+export type NotificationChannelKind = 'email' | 'chat' | 'http';
+
+export type NotificationChannelRecord = {
+  id: string;
+  merchantId: string;
+  kind: NotificationChannelKind;
+  name: string;
+  events: NotificationEvent[];
+  enabled: boolean;
+  /** Email recipients. */
+  to?: string[];
+  /** Chat incoming-webhook or HTTP callback URL, encrypted at rest since these often embed a token. */
+  url?: string;
+  /** HMAC key for HTTP callback signatures, encrypted at rest. */
+  signingSecret?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NotificationAttempt = { at: string; success: boolean; message: string; statusCode?: number };
+
+export type NotificationDeliveryRecord = {
+  /** `${channelId}:${event}:${key}`, so the same occurrence is sent once per channel. */
+  id: string;
+  merchantId: string;
+  channelId: string;
+  event: NotificationEvent | 'notification.test';
+  subject: string;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: NotificationAttempt[];
+  /** Unset once delivered or out of retries. */
+  nextAttemptAt?: string;
+  createdAt: string;
+  deliveredAt?: string;
+};
+
+export type JobStatus = 'scheduled' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobRecord = {
+  /** `${type}:${key}`, so scheduling the same work twice updates one job instead of adding another. */
+  id: string;
+  type: string;
+  merchantId?: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  runAt: string;
+  /** Recurring jobs are scheduled again this long after each run, whatever the outcome. */
+  everyMs?: number;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  lastResult?: string;
+  /** Worker holding the job while it runs; the lease lets another worker take over after a crash. */
+  lockedBy?: string;
+  lockedUntil?: string;
+  history: { at: string; worker: string; success: boolean; message: string }[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type InvoiceStatus = 'draft' | 'issued' | 'paid' | 'void';
+
+export type InvoiceLine = {
+  kind: 'recovery_fee' | 'deflection_fee' | 'deflection_reversal' | 'roi_credit';
+  /** Dispute id for recovery fees, alert id for deflections; unset for the credit. */
+  reference?: string;
+  chargeId?: string;
+  description: string;
+  /** What the fee was charged on, in its own currency's minor units: the recovered amount. */
+  baseAmount?: number;
+  baseCurrency?: string;
+  /** Invoice currency minor units; negative for credits and reversals. */
+  amount: number;
+};
+
+/** Success fees for one merchant and billing period. Lines are fixed once the invoice is issued. */
+export type InvoiceRecord = {
+  id: string;
+  merchantId: string;
+  /** Calendar month, `YYYY-MM` (UTC). */
+  period: string;
+  status: InvoiceStatus;
+  /** The merchant's reporting currency when the invoice was drafted. */
+  currency: string;
+  lines: InvoiceLine[];
+  /** Recovery and deflection fees, before the credit. */
+  subtotal: number;
+  credit: number;
+  total: number;
+  /** Pricing and results the invoice was computed from. */
+  recoveryFeePct: number;
+  alertDeflectionFeeCents: number;
+  roiGuaranteeMultiplier: number;
+  recoveredAmount: number;
+  roi: number;
+  roiGuaranteeMet: boolean;
+  /** Dispute and alert ids left for a later invoice because there is no rate to the invoice currency. */
+  unconverted: string[];
+  createdAt: string;
+  updatedAt: string;
+  issuedAt?: string;
+  paidAt?: string;
+  voidedAt?: string;
+  voidReason?: string;
+};
+
+export type EfwDecision = {
+  /** `none` when Stripe reports the warning is no longer actionable (already refunded or disputed). */
+  action: 'refund' | 'fight' | 'none';
+  /** The policy rule that decided it, e.g. `ce3_eligible`, `fraud_type` or `amount_above_limit`. */
+  reason: string;
+  /** Charge amount in reporting-currency minor units, when there is a rate. */
+  reportingAmount?: number;
+  ce3Eligible?: boolean;
+  decidedAt: string;
+};
+
+/** A Radar Early Fraud Warning: the issuer reported the charge as fraud and a chargeback may follow. */
+export type EarlyFraudWarningRecord = {
+  /** Stripe's `issfr_` id. */
+  id: string;
+  merchantId?: string;
+  chargeId: string;
+  paymentIntentId?: string;
+  fraudType: string;
+  actionable: boolean;
+  amount?: number;
+  currency?: string;
+  cardBrand?: string;
+  /** Unix seconds, as reported by Stripe. */
+  warnedAt: number;
+  decision?: EfwDecision;
+  refundId?: string;
+  /** Why a refund decision wasn't carried out: `auto_refund_disabled` or a refund-policy check. */
+  refundBlockedReason?: string;
+  createdAt: string;
+  updatedAt: string;
+};
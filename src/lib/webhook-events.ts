@@ -0,0 +1,78 @@
+import type Stripe from 'stripe';
+import { getStore } from './storage';
+import type { WebhookEventRecord } from './types';
+
+// A delivery that claimed an event but never finished (e.g. the process died mid-handler)
+// becomes claimable again after this long.
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Records the event and claims it for processing. Returns `processed` when the event was already
+ * handled, so Stripe retries become no-ops, and `in_flight` while another delivery is handling it
+ * and could still fail.
+ */
+export function claimWebhookEvent(event: Stripe.Event, merchantId?: string): 'claimed' | 'processed' | 'in_flight' {
+  const { webhookEvents } = getStore();
+  return getStore().transaction(() => {
+    const existing = webhookEvents.get(event.id);
+    const now = new Date().toISOString();
+    if (existing?.status === 'processed') return 'processed';
+    if (existing?.status === 'received' && Date.now() - Date.parse(existing.updatedAt) < STALE_CLAIM_MS) {
+      return 'in_flight';
+    }
+    webhookEvents.put({
+      id: event.id,
+      merchantId: merchantId ?? existing?.merchantId,
+      stripeAccountId: event.account,
+      type: event.type,
+      status: 'received',
+      attempts: (existing?.attempts || 0) + 1,
+      payload: event,
+      receivedAt: existing?.receivedAt || now,
+      updatedAt: now,
+    });
+    return 'claimed';
+  });
+}
+
+function finish(id: string, patch: Partial<WebhookEventRecord>) {
+  const { webhookEvents } = getStore();
+  return getStore().transaction(() => {
+    const existing = webhookEvents.get(id);
+    if (!existing) return undefined;
+    return webhookEvents.put({ ...existing, ...patch, updatedAt: new Date().toISOString() });
+  });
+}
+
+export function markWebhookEventProcessed(id: string) {
+  return finish(id, { status: 'processed', error: undefined, processedAt: new Date().toISOString() });
+}
+
+export function markWebhookEventFailed(id: string, error: string) {
+  return finish(id, { status: 'failed', error });
+}
+
+/** Claims a stored event for a manual replay, bumping its attempt count. */
+export function beginWebhookReplay(id: string) {
+  const { webhookEvents } = getStore();
+  return getStore().transaction(() => {
+    const existing = webhookEvents.get(id);
+    if (!existing) return undefined;
+    return webhookEvents.put({
+      ...existing,
+      status: 'received',
+      attempts: existing.attempts + 1,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+export function getWebhookEvent(id: string) {
+  return getStore().webhookEvents.get(id);
+}
+
+export function listWebhookEvents(filter: { merchantId?: string; status?: WebhookEventRecord['status'] } = {}) {
+  let items = getStore().webhookEvents.list(filter.merchantId);
+  if (filter.status) items = items.filter((e) => e.status === filter.status);
+  return items.sort((a, b) => (a.receivedAt < b.receivedAt ? 1 : -1));
+}
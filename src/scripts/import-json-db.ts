@@ -0,0 +1,39 @@
+import 'dotenv/config';
+import fs from 'fs';
+import { Collection, collectionSpecs, createStore, defaultJsonPath, defaultSqlitePath } from '../lib/storage';
+
+// One-shot copy of a legacy data/db.json into the SQLite store. Records are upserted by id,
+// so re-running after a partial import is safe.
+//   npm run db:import -- [--from data/db.json] [--to data/autopilot.sqlite]
+
+function arg(name: string) {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+const from = arg('from') || process.env.JSON_DB_PATH || defaultJsonPath;
+const to = arg('to') || process.env.SQLITE_PATH || defaultSqlitePath;
+
+if (!fs.existsSync(from)) {
+  console.error(`No JSON database found at ${from}`);
+  process.exit(1);
+}
+
+const source = createStore('json', from);
+const target = createStore('sqlite', to);
+
+const counts = target.transaction(() =>
+  collectionSpecs.map(({ name }) => {
+    const records = (source[name] as Collection<{ id: string }>).list();
+    const into = target[name] as Collection<{ id: string }>;
+    for (const record of records) {
+      // The audit table rejects updates, so entries copied by an earlier run are left as-is.
+      if (name === 'audit' && into.get(record.id)) continue;
+      into.put(record);
+    }
+    return `${name}=${records.length}`;
+  }),
+);
+
+target.close();
+console.log(`Imported ${from} -> ${to}: ${counts.join(', ')}`);
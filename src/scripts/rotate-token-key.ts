@@ -0,0 +1,23 @@
+import 'dotenv/config';
+import { configureStore } from '../lib/storage';
+import { rotateMerchantTokens } from '../lib/store';
+
+// Re-encrypts every merchant's Stripe access token with TOKEN_ENCRYPTION_KEY. To rotate, set the
+// new key as TOKEN_ENCRYPTION_KEY and list the retiring key(s) in TOKEN_ENCRYPTION_OLD_KEYS, run
+// this once, then drop the old keys. Legacy plaintext tokens are encrypted on the same pass.
+//   npm run tokens:rotate
+
+const backend = process.env.STORE_BACKEND || 'json';
+if (backend !== 'json' && backend !== 'sqlite') {
+  console.error(`Unknown STORE_BACKEND ${backend}`);
+  process.exit(1);
+}
+configureStore(backend);
+
+try {
+  const { rotated, unchanged } = rotateMerchantTokens();
+  console.log(`Re-encrypted ${rotated} merchant token(s); ${unchanged} already current or empty.`);
+} catch (err) {
+  console.error(`Rotation aborted, no tokens were changed: ${(err as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,88 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app, runAlertReconciliation } from '../src/app';
+import { defaultEvidenceProfile, defaultMerchantSettings, listAlerts, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const call = (method: string, path: string, body?: object) => server.call(method, path, body).then((r) => r.json());
+
+const ingest = (chargeId: string, source: string, externalAlertId: string) =>
+  call('POST', '/api/alerts/ingest', { merchantId: 'acct_test_1', chargeId, source, externalAlertId, amount: 1000 });
+
+const outcomeOf = (externalAlertId: string) =>
+  listAlerts('acct_test_1').find((a) => a.externalAlertId === externalAlertId)!;
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: { ...defaultMerchantSettings(), recoveryFeePct: 20, alertDeflectionFeeCents: 2900 },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  installStripeStub({
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      currency: 'usd',
+      amount: 4999,
+      amount_refunded: 0,
+      refunded: false,
+      disputed: false,
+    }),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('a second alert on the same charge is a duplicate and refunded alerts wait to be confirmed', async () => {
+  assert.equal((await ingest('ch_quiet', 'verifi', 'vrf_1')).alert.refunded, true);
+  await ingest('ch_quiet', 'ethoca', 'eth_1');
+  assert.equal((await ingest('ch_test_1', 'verifi', 'vrf_2')).alert.refunded, true);
+
+  const summary = await call('POST', '/api/merchants/acct_test_1/alerts/reconcile');
+  assert.equal(summary.summary.duplicates, 1);
+  assert.equal(summary.summary.deflected, 0);
+  assert.equal(outcomeOf('eth_1').outcome, 'duplicate');
+  assert.equal(outcomeOf('vrf_1').outcome, undefined);
+});
+
+test('refunded alerts without a chargeback are billed once the window passes', async () => {
+  const later = new Date(Date.now() + 31 * DAY_MS);
+  assert.equal(runAlertReconciliation(later).deflected, 2);
+  assert.equal(runAlertReconciliation(later).deflected, 0);
+  assert.equal(outcomeOf('vrf_1').outcome, 'deflected_successfully');
+
+  const { deflections, totals } = await call('GET', '/api/merchants/acct_test_1/deflections');
+  assert.equal(deflections.length, 2);
+  assert.deepEqual(totals, { usd: { count: 2, fees: 5800 } });
+});
+
+test('a chargeback that arrives anyway voids the deflection fee', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  const { summary } = await call('POST', '/api/merchants/acct_test_1/alerts/reconcile');
+  assert.equal(summary.disputed, 1);
+  assert.equal(summary.voided, 1);
+
+  const alert = outcomeOf('vrf_2');
+  assert.equal(alert.outcome, 'dispute_arrived_anyway');
+  assert.equal(alert.outcomeDisputeId, 'dp_test_1');
+  const { deflections } = await call('GET', '/api/merchants/acct_test_1/deflections');
+  assert.equal(deflections.find((d: { chargeId: string }) => d.chargeId === 'ch_test_1').status, 'voided');
+});
+
+test('the pricing estimate adds deflection fees to recovery fees', async () => {
+  const { performance } = await call('GET', '/api/pricing/estimate?merchantId=acct_test_1');
+  assert.equal(performance.deflections, 1);
+  assert.equal(performance.deflectionFees, 2900);
+  assert.equal(performance.totalFees, performance.estimatedFee + 2900);
+  assert.equal(performance.byCurrency.usd.deflectionFees, 2900);
+});
@@ -0,0 +1,181 @@
+import { installStripeStub, startServer, type StripeCall } from './harness';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import {
+  ETHOCA_KEY_HEADER,
+  signVerifiPayload,
+  VERIFI_SIGNATURE_HEADER,
+  VERIFI_TIMESTAMP_HEADER,
+} from '../src/lib/alert-providers';
+import { listAudit } from '../src/lib/audit';
+import { defaultEvidenceProfile, defaultMerchantSettings, listAlerts, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: StripeCall[];
+let verifiSecret: string;
+let ethocaSecret: string;
+
+const charges: Record<string, Partial<Stripe.Charge>> = {
+  ch_disputed: { amount: 10000, disputed: true },
+};
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8');
+const refundCalls = () => calls.filter((c) => c.method === 'refunds.create');
+
+function postVerifi(body: string, secret = verifiSecret, merchantId = 'acct_test_1') {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return fetch(`${server.baseUrl}/webhooks/alerts/verifi/${merchantId}`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      [VERIFI_SIGNATURE_HEADER]: signVerifiPayload(secret, body, timestamp),
+      [VERIFI_TIMESTAMP_HEADER]: String(timestamp),
+    },
+    body,
+  });
+}
+
+function postEthoca(body: string, key = ethocaSecret) {
+  return fetch(`${server.baseUrl}/webhooks/alerts/ethoca/acct_test_1`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', [ETHOCA_KEY_HEADER]: key },
+    body,
+  });
+}
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  calls = installStripeStub({
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      currency: 'usd',
+      amount: 10000,
+      amount_refunded: 0,
+      refunded: false,
+      disputed: false,
+      ...charges[id],
+    }),
+    'charges.search': (params: Stripe.ChargeSearchParams) => ({
+      object: 'search_result',
+      data: params.query.includes("last4:'1111'") ? [{ id: 'ch_eth_match', object: 'charge' }] : [],
+      has_more: false,
+    }),
+    'disputes.list': () => ({ object: 'list', data: [{ id: 'dp_open', status: 'needs_response' }], has_more: false }),
+  });
+  server = await startServer(app);
+
+  const verifi = await server
+    .call('PUT', '/api/merchants/acct_test_1/alert-providers/verifi', {})
+    .then((r) => r.json());
+  verifiSecret = verifi.secret;
+  ethocaSecret = 'ethoca-shared-key-0001';
+  await server.call('PUT', '/api/merchants/acct_test_1/alert-providers/ethoca', { secret: ethocaSecret });
+});
+
+after(() => server.close());
+
+test('provider secrets are returned once and never listed or logged', async () => {
+  assert.match(verifiSecret, /^asec_/);
+  const listed = await server.call('GET', '/api/merchants/acct_test_1/alert-providers').then((r) => r.json());
+  assert.deepEqual(listed.providers.map((p: { provider: string }) => p.provider).sort(), ['ethoca', 'verifi']);
+  assert.equal(listed.providers[0].secret, undefined);
+  assert.match(listed.providers[0].endpoint, /\/webhooks\/alerts\/(verifi|ethoca)\/acct_test_1$/);
+  const logged = JSON.stringify(listAudit({ merchantId: 'acct_test_1' }));
+  assert.ok(!logged.includes(verifiSecret) && !logged.includes(ethocaSecret));
+});
+
+test('requests with a bad signature or key are rejected', async () => {
+  assert.equal((await postVerifi(fixture('verifi.cdrn'), 'asec_wrong')).status, 401);
+  assert.equal((await postEthoca(fixture('ethoca.alerts'), 'wrong')).status, 401);
+  const unknown = await fetch(`${server.baseUrl}/webhooks/alerts/acme/acct_test_1`, { method: 'POST' });
+  assert.equal(unknown.status, 404);
+  assert.equal(refundCalls().length, 0);
+});
+
+test('a CDRN case is refunded and acknowledged as refunded', async () => {
+  const res = await postVerifi(fixture('verifi.cdrn'));
+  assert.equal(res.status, 200);
+  const ack = await res.json();
+  assert.equal(ack.caseId, 'vrf_cdrn_1');
+  assert.equal(ack.response, 'REFUNDED');
+  assert.match(ack.refund.reference, /^re_stub_/);
+  assert.equal(ack.refund.amount, '49.99');
+  assert.equal((refundCalls()[0].args[0] as Stripe.RefundCreateParams).charge, 'ch_test_1');
+
+  const alert = listAlerts('acct_test_1').find((a) => a.externalAlertId === 'vrf_cdrn_1')!;
+  assert.equal(alert.alertType, 'cdrn');
+  assert.equal(alert.arn, '74000000000000000000002');
+  assert.equal(alert.acknowledgement?.outcome, 'refunded');
+});
+
+test('a redelivered case gets the same answer without another refund', async () => {
+  const ack = await postVerifi(fixture('verifi.cdrn')).then((r) => r.json());
+  assert.equal(ack.response, 'REFUNDED');
+  assert.equal(refundCalls().length, 1);
+});
+
+test('an RDR case resolved by the network is acknowledged without a refund', async () => {
+  const ack = await postVerifi(fixture('verifi.rdr')).then((r) => r.json());
+  assert.equal(ack.response, 'ACKNOWLEDGED');
+  assert.equal(refundCalls().length, 1);
+  const alert = listAlerts('acct_test_1').find((a) => a.externalAlertId === 'vrf_rdr_1')!;
+  assert.equal(alert.resolvedByNetwork, true);
+  assert.equal(alert.chargeId, 'ch_rdr_1');
+});
+
+test('an Ethoca batch is matched to charges and answered alert by alert', async () => {
+  const res = await postEthoca(fixture('ethoca.alerts'));
+  assert.equal(res.status, 200);
+  const { responses } = await res.json();
+  const byId = Object.fromEntries(responses.map((r: { alertId: string }) => [r.alertId, r]));
+
+  assert.equal(byId.eth_match_1.outcome, 'RESOLVED');
+  assert.equal(byId.eth_match_1.refundStatus, 'REFUNDED');
+  assert.equal(byId.eth_match_1.amountRefunded, 25);
+  assert.equal(byId.eth_disputed_1.outcome, 'UNRESOLVED_DISPUTE');
+  assert.equal(byId.eth_unknown_1.outcome, 'NOTFOUND');
+  assert.equal(byId.eth_unknown_1.refundStatus, 'NOT_REFUNDED');
+
+  const refunds = refundCalls().map((c) => (c.args[0] as Stripe.RefundCreateParams).charge);
+  assert.deepEqual(refunds, ['ch_test_1', 'ch_eth_match']);
+  const alerts = listAlerts('acct_test_1').filter((a) => a.source === 'ethoca');
+  assert.equal(new Set(alerts.map((a) => a.id)).size, 3);
+});
+
+test('the same case id at another merchant is a separate alert', async () => {
+  upsertMerchant({
+    id: 'acct_test_2',
+    name: 'Second Merchant',
+    stripeAccountId: 'acct_test_2',
+    stripeAccessToken: 'sk_test_second',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  const { secret } = await server
+    .call('PUT', '/api/merchants/acct_test_2/alert-providers/verifi', {})
+    .then((r) => r.json());
+
+  const ack = await postVerifi(fixture('verifi.cdrn'), secret, 'acct_test_2').then((r) => r.json());
+  assert.equal(ack.response, 'REFUNDED');
+  assert.equal(refundCalls().at(-1)!.apiKey, 'sk_test_second');
+  const alert = listAlerts('acct_test_2').find((a) => a.externalAlertId === 'vrf_cdrn_1')!;
+  assert.equal(alert.refunded, true);
+  assert.equal(alert.duplicateOf, undefined);
+  assert.equal(listAlerts('acct_test_1').filter((a) => a.externalAlertId === 'vrf_cdrn_1').length, 1);
+});
@@ -0,0 +1,100 @@
+import { startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app } from '../src/app';
+import { bucketStart } from '../src/lib/analytics';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  getMetrics,
+  upsertDispute,
+  upsertMerchant,
+  type DisputeRecord,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+
+function dispute(id: string, createdIso: string, patch: Partial<DisputeRecord> = {}): DisputeRecord {
+  return {
+    id,
+    merchantId: 'acct_ts',
+    reason: 'fraudulent',
+    amount: 2000,
+    currency: 'usd',
+    status: 'needs_response',
+    disputeCreatedAt: at(createdIso),
+    updatedAt: new Date().toISOString(),
+    submitted: false,
+    evidenceScore: 50,
+    manualReviewRequired: false,
+    evidenceSummary: [],
+    submissionAttempts: [],
+    ...patch,
+  };
+}
+
+const timeseries = (query: string) => server.call('GET', `/api/analytics/timeseries?merchantId=acct_ts&${query}`);
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_ts',
+    name: 'Trend Merchant',
+    stripeAccountId: 'acct_ts',
+    stripeAccessToken: 'sk_test_ts',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: { ...defaultMerchantSettings(), monthlyTransactionCount: 1000 },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  upsertDispute(dispute('dp_ts_1', '2026-01-05T10:00:00Z', { status: 'won' }));
+  upsertDispute(dispute('dp_ts_2', '2026-01-20T10:00:00Z', { status: 'lost' }));
+  upsertDispute(dispute('dp_ts_3', '2026-01-21T10:00:00Z', { deflected: true }));
+  upsertDispute(dispute('dp_ts_4', '2026-03-02T10:00:00Z', { status: 'won', amount: 5000 }));
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('weeks start on Monday in UTC', () => {
+  assert.equal(bucketStart(new Date('2026-01-08T23:00:00Z'), 'week').toISOString(), '2026-01-05T00:00:00.000Z');
+  assert.equal(bucketStart(new Date('2026-01-04T12:00:00Z'), 'week').toISOString(), '2025-12-29T00:00:00.000Z');
+});
+
+test('monthly buckets follow the dispute creation date', async () => {
+  const res = await timeseries('interval=month&from=2026-01-01&to=2026-03-31');
+  assert.equal(res.status, 200);
+  const { buckets } = await res.json();
+  assert.deepEqual(
+    buckets.map((b: { start: string; created: number }) => [b.start.slice(0, 7), b.created]),
+    [
+      ['2026-01', 3],
+      ['2026-02', 0],
+      ['2026-03', 1],
+    ],
+  );
+  assert.deepEqual(buckets[0], {
+    start: '2026-01-01T00:00:00.000Z',
+    end: '2026-02-01T00:00:00.000Z',
+    created: 3,
+    won: 1,
+    lost: 1,
+    deflected: 1,
+    recoveredAmount: 2000,
+    winRate: 50,
+    disputeRatioPct: 0.29,
+  });
+  assert.equal(buckets[1].winRate, null);
+  assert.equal(buckets[2].recoveredAmount, 5000);
+});
+
+test('a webhook touch does not move an old dispute into this month', () => {
+  assert.equal(getMetrics('acct_ts').monthlyDisputes, 0);
+});
+
+test('bad ranges are rejected', async () => {
+  assert.equal((await timeseries('interval=hour')).status, 400);
+  assert.equal((await timeseries('from=2026-03-01&to=2026-01-01')).status, 400);
+  assert.equal((await timeseries('interval=day&from=2020-01-01&to=2026-01-01')).status, 400);
+});
@@ -0,0 +1,107 @@
+import { installStripeStub, loadFixture, needsResponseUpdate, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import { createApiKey } from '../src/lib/auth';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+const maker = createApiKey({ name: 'maker', role: 'approver' }).key;
+const checkerA = createApiKey({ name: 'checker-a', role: 'approver' }).key;
+const checkerB = createApiKey({ name: 'checker-b', role: 'approver' }).key;
+
+const call = (key: string, method: string, path: string, body?: object) => server.call(method, path, body, { key });
+
+async function readiness() {
+  const body = await call(checkerA, 'GET', '/api/disputes/queue').then((r) => r.json());
+  return body.queue.find((d: { id: string }) => d.id === 'dp_test_1').readiness.reason;
+}
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: {
+      ...defaultMerchantSettings(),
+      autoSubmitEnabled: true,
+      minEvidenceScore: 0,
+      approvalRequired: true,
+      dualApprovalAmountThreshold: 4000,
+    },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('disputes needing approval are not submitted automatically or by retry', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  assert.equal(getDispute('dp_test_1')?.submitted, false);
+  assert.equal(await readiness(), 'awaiting_approval');
+
+  const res = await call(checkerA, 'POST', '/disputes/dp_test_1/retry-submit');
+  assert.equal(res.status, 500);
+  assert.equal((await res.json()).message, 'awaiting_approval');
+});
+
+test('the editor of a version cannot approve it', async () => {
+  const edit = await call(maker, 'PATCH', '/disputes/dp_test_1/evidence', {
+    evidence: { product_description: 'Twelve-week coaching program, delivered online.' },
+  });
+  assert.equal(edit.status, 200);
+  assert.equal((await edit.json()).dispute.currentEvidenceVersion, 2);
+
+  const res = await call(maker, 'POST', '/disputes/dp_test_1/approve');
+  assert.equal(res.status, 403);
+  assert.equal((await res.json()).error, 'maker_cannot_approve');
+});
+
+test('amounts above the threshold need two different approvers', async () => {
+  const first = await call(checkerA, 'POST', '/disputes/dp_test_1/approve').then((r) => r.json());
+  assert.equal(first.approval.status, 'pending');
+  assert.equal(first.approval.approvalsNeeded, 2);
+
+  const again = await call(checkerA, 'POST', '/disputes/dp_test_1/approve');
+  assert.equal(again.status, 409);
+});
+
+test('a change request voids earlier approvals', async () => {
+  const res = await call(checkerB, 'POST', '/disputes/dp_test_1/request-changes', { note: 'Attach the receipt.' });
+  assert.equal((await res.json()).approval.status, 'changes_requested');
+  assert.equal(await readiness(), 'changes_requested');
+});
+
+test('approved evidence keeps reviewer edits when the dispute is rebuilt and submitted', async () => {
+  await call(maker, 'PATCH', '/disputes/dp_test_1/evidence', { evidence: { uncategorized_text: 'Receipt attached.' } });
+  await call(checkerA, 'POST', '/disputes/dp_test_1/approve');
+  const approved = await call(checkerB, 'POST', '/disputes/dp_test_1/approve').then((r) => r.json());
+  assert.equal(approved.approval.status, 'approved');
+
+  await postWebhook(server.baseUrl, needsResponseUpdate());
+  const update = calls.find((c) => c.method === 'disputes.update')?.args[1] as {
+    evidence: Record<string, string>;
+    submit: boolean;
+  };
+  assert.equal(update.submit, true);
+  assert.equal(update.evidence.product_description, 'Twelve-week coaching program, delivered online.');
+  assert.equal(update.evidence.uncategorized_text, 'Receipt attached.');
+
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.submitted, true);
+  assert.equal(dispute?.currentEvidenceVersion, 3);
+  assert.deepEqual(
+    dispute?.approvalHistory?.map((e) => e.action),
+    ['edited', 'approved', 'changes_requested', 'edited', 'approved', 'approved'],
+  );
+});
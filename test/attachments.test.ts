@@ -0,0 +1,108 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+const upload = (path: string, query: string, body: Buffer, contentType = 'application/pdf') =>
+  server.call('POST', `${path}?${query}`, body, { contentType });
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+  installStripeStub();
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('merchant assets are uploaded to the connected account', async () => {
+  const res = await upload(
+    '/api/merchants/acct_test_1/attachments',
+    'kind=refund_policy&filename=refunds.pdf',
+    Buffer.from('%PDF-1.4'),
+  );
+  assert.equal(res.status, 200);
+  const { attachment } = await res.json();
+  assert.equal(attachment.kind, 'refund_policy');
+  assert.equal(attachment.disputeId, undefined);
+
+  const create = calls.find((c) => c.method === 'files.create');
+  assert.equal(create?.apiKey, 'sk_test_connected');
+  assert.equal((create?.args[0] as { purpose: string }).purpose, 'dispute_evidence');
+});
+
+test('dispute uploads refresh the evidence with every attached file', async () => {
+  const scoreBefore = getDispute('dp_test_1')?.evidenceScore ?? 0;
+  const res = await upload(
+    '/disputes/dp_test_1/attachments',
+    'kind=receipt&filename=receipt.pdf',
+    Buffer.from('%PDF-1.4'),
+  );
+  const body = await res.json();
+  assert.equal(res.status, 200);
+  assert.equal(body.synced, true);
+
+  const create = calls.find((c) => c.method === 'files.create');
+  assert.equal((create?.args[0] as { file: { type: string } }).file.type, 'application/pdf');
+  const update = calls.find((c) => c.method === 'disputes.update');
+  const evidence = (update?.args[1] as { evidence: Record<string, string> }).evidence;
+  assert.equal(evidence.receipt, body.attachment.stripeFileId);
+  assert.match(evidence.refund_policy, /^file_stub_/);
+  assert.ok((getDispute('dp_test_1')?.evidenceScore ?? 0) > scoreBefore);
+});
+
+test('rejects file types Stripe does not accept as evidence', async () => {
+  const res = await upload(
+    '/disputes/dp_test_1/attachments',
+    'kind=receipt&filename=a.txt',
+    Buffer.from('hi'),
+    'text/plain',
+  );
+  assert.equal(res.status, 400);
+  assert.equal(calls.length, 0);
+});
+
+test('rejects filenames that could turn into markup', async () => {
+  const res = await upload(
+    '/disputes/dp_test_1/attachments',
+    `kind=receipt&filename=${encodeURIComponent('<img src=x onerror=alert(1)>.pdf')}`,
+    Buffer.from('%PDF-1.4'),
+  );
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).error, 'invalid_attachment');
+  assert.equal(calls.length, 0);
+});
+
+test('removed attachments drop out of the evidence', async () => {
+  const list = await server.call('GET', '/disputes/dp_test_1/attachments').then((r) => r.json());
+  assert.equal(list.attachments.length, 1);
+
+  const res = await server.call('DELETE', `/disputes/dp_test_1/attachments/${list.attachments[0].id}`);
+  assert.equal(res.status, 200);
+  assert.equal((await res.json()).synced, true);
+  const update = calls.find((c) => c.method === 'disputes.update');
+  const evidence = (update?.args[1] as { evidence: Record<string, string> }).evidence;
+  assert.equal(evidence.receipt, undefined);
+  assert.match(evidence.refund_policy, /^file_stub_/);
+
+  const after = await server.call('GET', '/disputes/dp_test_1/attachments').then((r) => r.json());
+  assert.equal(after.attachments.length, 0);
+  assert.deepEqual(Object.keys(after.evidenceFiles), ['refund_policy']);
+});
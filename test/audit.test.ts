@@ -0,0 +1,155 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import Database from 'better-sqlite3';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import { diffRecords, listAudit, recordAudit } from '../src/lib/audit';
+import { createApiKey } from '../src/lib/auth';
+import { getStore } from '../src/lib/storage';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  markSubmitted,
+  updateMerchantSettings,
+  upsertDispute,
+  upsertMerchant,
+} from '../src/lib/store';
+import type { DisputeRecord } from '../src/lib/types';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+function seedMerchant(id: string, stripeAccessToken = 'sk_test_connected') {
+  upsertMerchant({
+    id,
+    name: id,
+    stripeAccountId: id,
+    stripeAccessToken,
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+}
+
+const dispute = (id: string, merchantId: string, fields: Partial<DisputeRecord> = {}) =>
+  ({
+    id,
+    merchantId,
+    reason: 'fraudulent',
+    amount: 1000,
+    currency: 'usd',
+    status: 'needs_response',
+    ...fields,
+  }) as DisputeRecord;
+
+const entriesFor = (entityId: string) => listAudit({ entityId });
+// Entries written in the same millisecond have no fixed order, so tests look them up by action.
+const entriesOf = (entityId: string, action: string) => entriesFor(entityId).filter((e) => e.action === action);
+
+before(async () => {
+  seedMerchant('acct_test_1');
+  seedMerchant('acct_other');
+  installStripeStub({
+    'charges.retrieve': (id: string) => ({ id, object: 'charge', currency: 'usd', amount: 5000, amount_refunded: 0 }),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('diffs keep changed fields and leave out secrets and timestamps', () => {
+  const diff = diffRecords(
+    { status: 'needs_response', amount: 1000, note: 'x', stripeAccessToken: 'a', updatedAt: '1' },
+    { status: 'won', amount: 1000, tags: ['vip'], stripeAccessToken: 'b', updatedAt: '2' },
+  );
+  assert.deepEqual(diff, {
+    status: { before: 'needs_response', after: 'won' },
+    note: { before: 'x', after: undefined },
+    tags: { before: undefined, after: ['vip'] },
+  });
+  const noop = { actor: 'system', action: 'noop', entityType: 'dispute' as const, entityId: 'dp_noop' };
+  assert.equal(recordAudit({ ...noop, diff: {} }), undefined);
+  assert.deepEqual(entriesFor('dp_noop'), []);
+});
+
+test('dispute changes are recorded with what changed', () => {
+  upsertDispute(dispute('dp_audit', 'acct_test_1'), 'stripe_webhook');
+  upsertDispute(dispute('dp_audit', 'acct_test_1', { status: 'under_review' }), 'stripe_webhook');
+  upsertDispute(dispute('dp_audit', 'acct_test_1', { status: 'under_review' }), 'stripe_webhook');
+  markSubmitted('dp_audit', 'ops@example.com');
+
+  assert.equal(entriesFor('dp_audit').length, 3);
+  const [created] = entriesOf('dp_audit', 'dispute.created');
+  const [updated] = entriesOf('dp_audit', 'dispute.updated');
+  const [submitted] = entriesOf('dp_audit', 'dispute.submitted');
+  assert.equal(created.merchantId, 'acct_test_1');
+  assert.deepEqual(created.diff.status, { after: 'needs_response' });
+  assert.deepEqual(updated.diff, { status: { before: 'needs_response', after: 'under_review' } });
+  assert.equal(submitted.actor, 'ops@example.com');
+  assert.deepEqual(submitted.diff.submitted, { after: true });
+});
+
+test('merchant changes are recorded without the access token', () => {
+  updateMerchantSettings('acct_test_1', { minEvidenceScore: 80 }, 'admin@example.com');
+  seedMerchant('acct_test_1', 'sk_test_reconnected');
+
+  const [settings] = entriesOf('acct_test_1', 'merchant.settings_updated');
+  assert.equal(settings.actor, 'admin@example.com');
+  const { before: old, after: next } = settings.diff.settings as {
+    before: { minEvidenceScore: number };
+    after: { minEvidenceScore: number };
+  };
+  assert.notEqual(old.minEvidenceScore, 80);
+  assert.equal(next.minEvidenceScore, 80);
+  // Reconnecting with a new token puts the defaults back; the token itself never shows up.
+  assert.equal(entriesOf('acct_test_1', 'merchant.updated').length, 1);
+  assert.ok(listAudit({ merchantId: 'acct_test_1' }).every((e) => !('stripeAccessToken' in e.diff)));
+});
+
+test('refunds are recorded against the dispute they deflect', async () => {
+  const event = loadFixture('charge.dispute.created');
+  (event.data.object as Stripe.Dispute).status = 'warning_needs_response';
+  await postWebhook(server.baseUrl, event);
+  const res = await server.call('POST', '/disputes/dp_test_1/deflect', { amount: 2500 });
+  assert.equal(res.status, 200);
+
+  const [refund] = entriesOf('dp_test_1', 'refund.created');
+  assert.equal(refund?.merchantId, 'acct_test_1');
+  assert.deepEqual(refund?.diff.refund.before, null);
+  assert.equal((refund?.diff.refund.after as { amount: number }).amount, 2500);
+});
+
+test('the SQLite audit table rejects updates and deletes', () => {
+  const { audit } = getStore();
+  const [entry] = entriesOf('dp_audit', 'dispute.created');
+  assert.throws(() => audit.put({ ...entry, actor: 'someone_else' }), /append-only/);
+  assert.throws(() => audit.remove(entry.id), /append-only/);
+
+  const db = new Database(process.env.SQLITE_PATH!);
+  try {
+    assert.throws(() => db.prepare('UPDATE audit SET data = ? WHERE id = ?').run('{}', entry.id), /append-only/);
+    assert.throws(() => db.prepare('DELETE FROM audit').run(), /append-only/);
+  } finally {
+    db.close();
+  }
+  assert.deepEqual(entriesOf('dp_audit', 'dispute.created'), [entry]);
+});
+
+test('/api/audit only shows a merchant-scoped key its own entries', async () => {
+  upsertDispute(dispute('dp_other', 'acct_other'));
+  const key = createApiKey({ name: 'merchant-viewer', role: 'viewer', merchantId: 'acct_test_1' }).key;
+
+  const { entries } = await server.call('GET', '/api/audit', undefined, { key }).then((r) => r.json());
+  assert.ok(entries.length > 0);
+  assert.ok(entries.every((e: { merchantId: string }) => e.merchantId === 'acct_test_1'));
+
+  const other = await server.call('GET', '/api/audit?merchantId=acct_other', undefined, { key });
+  assert.equal(other.status, 403);
+  assert.equal((await other.json()).error, 'merchant_forbidden');
+  const byEntity = await server.call('GET', '/api/audit?entityId=dp_other', undefined, { key }).then((r) => r.json());
+  assert.deepEqual(byEntity.entries, []);
+
+  const platform = await server.call('GET', '/api/audit?entityId=dp_other').then((r) => r.json());
+  assert.equal(platform.entries.length, 1);
+});
@@ -0,0 +1,56 @@
+import { ADMIN_KEY, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app } from '../src/app';
+import { createApiKey } from '../src/lib/auth';
+import { defaultEvidenceProfile, defaultMerchantSettings, findMerchantById, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const merchantAdmin = createApiKey({ name: 'merchant-admin', role: 'admin', merchantId: 'acct_auth' }).key;
+
+const patchSettings = (key: string, body: object, merchantId = 'acct_auth') =>
+  server.call('PATCH', `/api/merchants/${merchantId}/settings`, body, { key });
+
+before(async () => {
+  for (const id of ['acct_auth', 'acct_other']) {
+    upsertMerchant({
+      id,
+      name: id,
+      stripeAccountId: id,
+      stripeAccessToken: 'sk_test_connected',
+      status: 'connected',
+      createdAt: new Date().toISOString(),
+      settings: defaultMerchantSettings(),
+      evidenceProfile: defaultEvidenceProfile(),
+    });
+  }
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('a merchant-scoped key only reaches its own merchant', async () => {
+  assert.equal((await patchSettings(merchantAdmin, { autoSubmitEnabled: true }, 'acct_other')).status, 404);
+  assert.equal((await patchSettings(merchantAdmin, { autoSubmitEnabled: true })).status, 200);
+  assert.equal(findMerchantById('acct_auth')!.settings.autoSubmitEnabled, true);
+});
+
+test('settings are validated and unknown keys rejected', async () => {
+  for (const body of [{ minEvidenceScore: 'high' }, { supportEmail: 'nope' }, { stripeAccessToken: 'sk_x' }]) {
+    const res = await patchSettings(ADMIN_KEY, body);
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).error, 'invalid_settings');
+  }
+  assert.equal((await patchSettings(ADMIN_KEY, { supportEmail: '' })).status, 200);
+});
+
+test('billing settings need a platform key', async () => {
+  const res = await patchSettings(merchantAdmin, { recoveryFeePct: 0 });
+  assert.equal(res.status, 403);
+  assert.equal((await res.json()).error, 'platform_key_required');
+  assert.equal(findMerchantById('acct_auth')!.settings.recoveryFeePct, 25);
+
+  assert.equal((await patchSettings(ADMIN_KEY, { recoveryFeePct: 20, roiGuaranteeMultiplier: 3 })).status, 200);
+  assert.equal(findMerchantById('acct_auth')!.settings.recoveryFeePct, 20);
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type Stripe from 'stripe';
+import { assessCe3 } from '../src/lib/ce3';
+
+const DAY = 24 * 60 * 60;
+const disputeCreated = 1760000000;
+const context = { productDescription: 'Coaching program', merchandiseOrServices: 'services' as const };
+
+function charge(id: string, daysBeforeDispute: number, metadata: Record<string, string>, extra: object = {}) {
+  return {
+    id,
+    created: disputeCreated - daysBeforeDispute * DAY,
+    status: 'succeeded',
+    disputed: false,
+    refunded: false,
+    metadata,
+    billing_details: { email: 'buyer@example.com' },
+    payment_method_details: { card: { fingerprint: 'fp_1' } },
+    shipping: null,
+    ...extra,
+  } as unknown as Stripe.Charge;
+}
+
+function stripeWith(history: Stripe.Charge[]) {
+  const queries: string[] = [];
+  const stripe = {
+    charges: {
+      search: async ({ query }: { query: string }) => {
+        queries.push(query);
+        return { data: history };
+      },
+    },
+  } as unknown as Stripe;
+  return { stripe, queries };
+}
+
+const dispute = { id: 'dp_1', created: disputeCreated, reason: 'fraudulent' } as Stripe.Dispute;
+const matching = { customer_ip: '203.0.113.7', device_id: 'dev_1' };
+const disputed = charge('ch_disputed', 1, matching);
+
+test('qualifies with two prior charges matching IP and device in the 120-365 day window', async () => {
+  const { stripe, queries } = stripeWith([
+    charge('ch_a', 130, matching),
+    charge('ch_b', 200, matching),
+    charge('ch_recent', 30, matching),
+  ]);
+  const result = await assessCe3(stripe, dispute, disputed, context);
+
+  assert.match(queries[0], /fingerprint:'fp_1'/);
+  assert.equal(result.assessment.eligible, true);
+  assert.deepEqual(
+    result.evidence?.prior_undisputed_transactions?.map((t) => t.charge),
+    ['ch_a', 'ch_b'],
+  );
+  assert.equal(result.evidence?.disputed_transaction?.customer_purchase_ip, '203.0.113.7');
+  assert.equal(result.evidence?.disputed_transaction?.merchandise_or_services, 'services');
+});
+
+test('does not qualify without an IP or device match or with disputed history', async () => {
+  const address = { line1: '1 Main St', postal_code: '94107', country: 'US' };
+  const shippingOnly = { shipping: { address } };
+  const { stripe } = stripeWith([
+    charge('ch_a', 130, { customer_account_id: 'u1' }, shippingOnly),
+    charge('ch_b', 200, matching, { disputed: true }),
+  ]);
+  const result = await assessCe3(
+    stripe,
+    dispute,
+    charge('ch_disputed', 1, { customer_account_id: 'u1' }, shippingOnly),
+    context,
+  );
+  assert.equal(result.assessment.eligible, false);
+  assert.equal(result.evidence, undefined);
+  assert.match(result.assessment.note, /needs 2/);
+});
+
+test('respects Stripe eligibility for non-Visa disputes', async () => {
+  const { stripe, queries } = stripeWith([]);
+  const result = await assessCe3(stripe, { ...dispute, enhanced_eligibility_types: [] }, disputed, context);
+  assert.equal(result.assessment.eligible, false);
+  assert.equal(queries.length, 0);
+});
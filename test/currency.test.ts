@@ -0,0 +1,89 @@
+import { startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app } from '../src/app';
+import { convertAmount, formatAmount, reportingCurrencyOf } from '../src/lib/currency';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  upsertDispute,
+  upsertMerchant,
+  type DisputeRecord,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+function wonDispute(id: string, amount: number, currency: string): DisputeRecord {
+  return {
+    id,
+    merchantId: 'acct_fx',
+    reason: 'product_not_received',
+    amount,
+    currency,
+    status: 'won',
+    updatedAt: new Date().toISOString(),
+    submitted: true,
+    evidenceScore: 80,
+    manualReviewRequired: false,
+    evidenceSummary: [],
+    submissionAttempts: [],
+  };
+}
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_fx',
+    name: 'FX Merchant',
+    stripeAccountId: 'acct_fx',
+    stripeAccessToken: 'sk_test_fx',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  upsertDispute(wonDispute('dp_fx_usd', 4999, 'usd'));
+  upsertDispute(wonDispute('dp_fx_eur', 1000, 'eur'));
+  upsertDispute(wonDispute('dp_fx_jpy', 5000, 'jpy'));
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('amounts respect each currency minor unit', () => {
+  assert.equal(formatAmount(5000, 'jpy', 'en-US'), '¥5,000');
+  assert.equal(formatAmount(4999, 'usd', 'en-US'), '$49.99');
+  assert.match(formatAmount(1500, 'kwd', 'en-US'), /^KWD\s1\.500$/);
+  const reporting = reportingCurrencyOf({ reportingCurrency: 'usd', exchangeRates: { jpy: 0.0067 } });
+  assert.equal(convertAmount(5000, 'jpy', reporting), 3350);
+  assert.equal(convertAmount(5000, 'eur', reporting), undefined);
+});
+
+test('metrics keep currencies apart and only convert those with a rate', async () => {
+  const { metrics } = await server.call('GET', '/metrics?merchantId=acct_fx').then((r) => r.json());
+  assert.equal(metrics.reportingCurrency, 'usd');
+  assert.equal(metrics.recoveredAmount, 4999);
+  assert.deepEqual(metrics.unconvertedCurrencies.sort(), ['eur', 'jpy']);
+  assert.equal(metrics.byCurrency.jpy.recoveredAmount, 5000);
+
+  const res = await server.call('PATCH', '/api/merchants/acct_fx/settings', {
+    exchangeRates: { EUR: 1.08, jpy: 0.0067 },
+  });
+  assert.equal(res.status, 200);
+  const after = await server.call('GET', '/metrics?merchantId=acct_fx').then((r) => r.json());
+  assert.equal(after.metrics.recoveredAmount, 4999 + 1080 + 3350);
+  assert.deepEqual(after.metrics.unconvertedCurrencies, []);
+});
+
+test('pricing reports fees in the reporting currency and per currency', async () => {
+  const { performance } = await server.call('GET', '/api/pricing/estimate?merchantId=acct_fx').then((r) => r.json());
+  assert.equal(performance.currency, 'usd');
+  assert.equal(performance.recoveredAmount, 9429);
+  assert.equal(performance.estimatedFee, Math.round(9429 * 0.25));
+  assert.deepEqual(performance.byCurrency.jpy, { recoveredAmount: 5000, estimatedFee: 1250, netRecovered: 3750 });
+});
+
+test('invalid currency settings are rejected', async () => {
+  const res = await server.call('PATCH', '/api/merchants/acct_fx/settings', { exchangeRates: { euro: 1.1 } });
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).error, 'invalid_reporting_currency');
+});
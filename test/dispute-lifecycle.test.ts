@@ -0,0 +1,175 @@
+import { installStripeStub, loadFixture, postWebhook, startServer, type StripeCall } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import { timeInStage, withStatusChange } from '../src/lib/dispute-lifecycle';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  getDispute,
+  updateMerchantSettings,
+  upsertMerchant,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: StripeCall[];
+
+const DAY = 24 * 60 * 60;
+
+const call = (path: string) => server.call('GET', path).then((r) => r.json());
+
+// A copy of a fixture for another dispute, sent at `created`.
+function eventFor(name: string, disputeId: string, created: number, fields: Partial<Stripe.Dispute> = {}) {
+  const event = loadFixture(name);
+  return {
+    ...event,
+    id: `evt_${disputeId}_${created}`,
+    created,
+    data: { object: { ...event.data.object, id: disputeId, ...fields } },
+  } as typeof event;
+}
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  // Like Stripe, evidence can't be updated once it has been submitted.
+  const locked = new Set<string>();
+  calls = installStripeStub({
+    'disputes.update': (id: string, params: Stripe.DisputeUpdateParams) => {
+      if (locked.has(id)) throw new Error(`This dispute is already under review: ${id}`);
+      if (params.submit) locked.add(id);
+      return { id, object: 'dispute', ...params };
+    },
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('each stage change is recorded with the time Stripe reported it', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.updated'));
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.closed'));
+
+  const dispute = getDispute('dp_test_1')!;
+  assert.equal(dispute.status, 'won');
+  assert.deepEqual(
+    dispute.statusHistory?.map((s) => [s.status, s.at, s.eventId]),
+    [
+      ['needs_response', 1760000000, 'evt_test_created'],
+      ['under_review', 1760000100, 'evt_test_updated'],
+      ['won', 1760500000, 'evt_test_closed'],
+    ],
+  );
+  assert.deepEqual(timeInStage(dispute.statusHistory), { needs_response: 100, under_review: 499900 });
+});
+
+test('funds withdrawn and reinstated are tracked with fees and net impact', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.funds_withdrawn'));
+  assert.deepEqual(
+    getDispute('dp_test_1')!.balanceTransactions?.map((bt) => [bt.kind, bt.amount, bt.fee, bt.net]),
+    [['withdrawal', -4999, 1500, -6499]],
+  );
+  // A stale status on a funds event doesn't reopen the dispute.
+  assert.equal(getDispute('dp_test_1')!.status, 'won');
+
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.funds_reinstated'));
+  const { dispute, lifecycle } = await call('/disputes/dp_test_1');
+  assert.equal(dispute.balanceTransactions.length, 2);
+  assert.deepEqual(lifecycle.funds, { usd: { withdrawn: 4999, reinstated: 4999, fees: 1500, net: -1500 } });
+  assert.deepEqual(lifecycle.timeInStage, { needs_response: 100, under_review: 499900 });
+});
+
+test('a late update does not reopen a closed dispute', async () => {
+  await postWebhook(server.baseUrl, eventFor('charge.dispute.updated', 'dp_test_1', 1760000200));
+  const dispute = getDispute('dp_test_1')!;
+  assert.equal(dispute.status, 'won');
+  assert.equal(dispute.statusHistory?.length, 3);
+});
+
+test('an inquiry that closes without a chargeback leaves the queue without an evidence update', async () => {
+  const opened = 1760000000;
+  await postWebhook(
+    server.baseUrl,
+    eventFor('charge.dispute.created', 'dp_inquiry', opened + 1, { status: 'warning_needs_response' }),
+  );
+  assert.equal(getDispute('dp_inquiry')!.workflowStatus, 'new');
+  const updates = calls.filter((c) => c.method === 'disputes.update').length;
+  await postWebhook(
+    server.baseUrl,
+    eventFor('charge.dispute.closed', 'dp_inquiry', opened + 3 * DAY, { status: 'warning_closed' }),
+  );
+
+  assert.equal(calls.filter((c) => c.method === 'disputes.update').length, updates);
+  const dispute = getDispute('dp_inquiry')!;
+  assert.equal(dispute.workflowStatus, 'closed');
+  assert.deepEqual(
+    dispute.statusHistory?.map((s) => s.status),
+    ['warning_needs_response', 'warning_closed'],
+  );
+  const { queue } = await call('/api/disputes/queue?merchantId=acct_test_1');
+  assert.ok(!queue.some((d: { id: string }) => d.id === 'dp_inquiry'));
+});
+
+test('the lifecycle report gives time in stage and net cash impact', async () => {
+  const { lifecycle } = await call('/api/analytics/lifecycle?merchantId=acct_test_1');
+  assert.deepEqual(lifecycle.stages.warning_needs_response, {
+    disputes: 1,
+    avgSeconds: 3 * DAY,
+    medianSeconds: 3 * DAY,
+  });
+  assert.equal(lifecycle.stages.needs_response.disputes, 1);
+  assert.equal(lifecycle.netImpact, -1500);
+  assert.equal(lifecycle.inquiries, 1);
+  assert.equal(lifecycle.chargebacks, 1);
+  assert.equal(lifecycle.fundsWithdrawn, 1);
+  assert.equal(lifecycle.fundsReinstated, 1);
+});
+
+test('a submitted dispute is not sent evidence again by later updates', async () => {
+  updateMerchantSettings('acct_test_1', { autoSubmitEnabled: true, minEvidenceScore: 0 });
+  const opened = 1761000000;
+  await postWebhook(server.baseUrl, eventFor('charge.dispute.created', 'dp_submitted', opened));
+  assert.equal(getDispute('dp_submitted')!.submitted, true);
+
+  // Stripe may still report needs_response just after the submission, then under_review.
+  for (const [at, status] of [
+    [opened + 10, 'needs_response'],
+    [opened + 20, 'under_review'],
+  ] as const) {
+    const res = await postWebhook(server.baseUrl, eventFor('charge.dispute.updated', 'dp_submitted', at, { status }));
+    assert.equal(res.status, 200);
+  }
+  const dispute = getDispute('dp_submitted')!;
+  assert.equal(calls.filter((c) => c.method === 'disputes.update' && c.args[0] === 'dp_submitted').length, 1);
+  assert.equal(dispute.submitted, true);
+  assert.equal(dispute.workflowStatus, 'submitted');
+  assert.deepEqual(
+    dispute.statusHistory?.map((s) => s.status),
+    ['needs_response', 'under_review'],
+  );
+});
+
+test('out-of-order changes are placed by time and repeats are dropped', () => {
+  let history = withStatusChange([], 'needs_response', 100);
+  history = withStatusChange(history, 'won', 300);
+  history = withStatusChange(history, 'under_review', 200);
+  history = withStatusChange(history, 'under_review', 250);
+  assert.deepEqual(
+    history.map((s) => [s.status, s.at]),
+    [
+      ['needs_response', 100],
+      ['under_review', 200],
+      ['won', 300],
+    ],
+  );
+});
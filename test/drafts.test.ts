@@ -0,0 +1,101 @@
+import { installStripeStub, loadFixture, needsResponseUpdate, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import { createApiKey } from '../src/lib/auth';
+import { diffLines } from '../src/lib/diff';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+const analyst = createApiKey({ name: 'analyst', role: 'analyst' }).key;
+
+const call = (method: string, path: string, body?: object) => server.call(method, path, body, { key: analyst });
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+  installStripeStub();
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('diffLines marks added and removed lines', () => {
+  assert.deepEqual(diffLines('a\nb\nc', 'a\nx\nc'), [
+    { op: 'equal', text: 'a' },
+    { op: 'remove', text: 'b' },
+    { op: 'add', text: 'x' },
+    { op: 'equal', text: 'c' },
+  ]);
+});
+
+test('an unsaved draft is seeded from the generator with nothing done', async () => {
+  const body = await call('GET', '/disputes/dp_test_1/evidence-draft').then((r) => r.json());
+  assert.equal(body.saved, false);
+  assert.equal(body.draft.narrativeField, 'uncategorized_text');
+  assert.equal(body.draft.narrative, body.draft.generated.narrative);
+  assert.ok(body.draft.checklist.every((item: { done: boolean }) => !item.done));
+  assert.ok(body.diff.every((d: { op: string }) => d.op === 'equal'));
+});
+
+test('saving an edited narrative puts it in the evidence as a new version', async () => {
+  const { draft } = await call('GET', '/disputes/dp_test_1/evidence-draft').then((r) => r.json());
+  const narrative = `${draft.narrative}\n\nTracking shows delivery to the billing address on 3 March.`;
+  const checklist = draft.checklist.map((item: object, i: number) => ({ ...item, done: i === 0 }));
+
+  const res = await call('PUT', '/disputes/dp_test_1/evidence-draft', { narrative, checklist });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.equal(body.saved, true);
+  assert.equal(body.draft.checklist[0].done, true);
+  assert.deepEqual(
+    body.diff.filter((d: { op: string }) => d.op !== 'equal'),
+    [
+      { op: 'add', text: '' },
+      { op: 'add', text: 'Tracking shows delivery to the billing address on 3 March.' },
+    ],
+  );
+
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.currentEvidenceVersion, 2);
+  const text = String(dispute?.evidenceVersions?.[1].evidence.uncategorized_text);
+  assert.ok(text.startsWith(narrative));
+  assert.match(text, /Automated evidence packet/);
+});
+
+test('re-saving replaces the narrative instead of stacking it', async () => {
+  await call('PUT', '/disputes/dp_test_1/evidence-draft', { narrative: 'Shorter narrative.' });
+  const text = String(getDispute('dp_test_1')?.evidenceVersions?.at(-1)?.evidence.uncategorized_text);
+  assert.match(text, /^Shorter narrative\.\n\nAutomated evidence packet/);
+});
+
+test('checklist-only saves keep the evidence version', async () => {
+  const before = getDispute('dp_test_1')?.currentEvidenceVersion;
+  const { draft } = await call('GET', '/disputes/dp_test_1/evidence-draft').then((r) => r.json());
+  const checklist = draft.checklist.map((item: object) => ({ ...item, done: true }));
+  await call('PUT', '/disputes/dp_test_1/evidence-draft', { checklist });
+  assert.equal(getDispute('dp_test_1')?.currentEvidenceVersion, before);
+});
+
+test('the saved narrative survives a rebuild and is sent to Stripe', async () => {
+  await postWebhook(server.baseUrl, needsResponseUpdate());
+  const update = calls.find((c) => c.method === 'disputes.update')?.args[1] as {
+    evidence: { uncategorized_text: string };
+  };
+  assert.match(update.evidence.uncategorized_text, /^Shorter narrative\.\n\nAutomated evidence packet/);
+});
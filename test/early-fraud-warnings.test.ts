@@ -0,0 +1,148 @@
+import { installStripeStub, loadFixture, postWebhook, startServer, type StripeCall } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app } from '../src/app';
+import { listAudit } from '../src/lib/audit';
+import { getStore } from '../src/lib/storage';
+import { defaultEvidenceProfile, defaultMerchantSettings, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: StripeCall[];
+
+const DAY = 24 * 60 * 60;
+const warnedAt = 1760400000;
+const matching = { customer_ip: '203.0.113.7', device_id: 'dev_1' };
+
+const charges: Record<string, { amount: number; brand: string; fingerprint?: string }> = {
+  ch_test_1: { amount: 4999, brand: 'mastercard' },
+  ch_large: { amount: 25000, brand: 'mastercard' },
+  ch_misc: { amount: 1500, brand: 'amex' },
+  ch_visa: { amount: 3000, brand: 'visa', fingerprint: 'fp_1' },
+  ch_quiet: { amount: 2000, brand: 'mastercard' },
+};
+
+const priorCharge = (id: string, daysBefore: number) => ({
+  id,
+  created: warnedAt - daysBefore * DAY,
+  status: 'succeeded',
+  disputed: false,
+  refunded: false,
+  metadata: matching,
+  payment_method_details: { card: { fingerprint: 'fp_1' } },
+});
+
+function warning(id: string, charge: string, fields: object = {}, type = 'radar.early_fraud_warning.created') {
+  const event = loadFixture('radar.early_fraud_warning.created');
+  return {
+    ...event,
+    id: `evt_${id}_${type.split('.').pop()}`,
+    type,
+    data: { object: { ...event.data.object, id, charge, ...fields } },
+  } as typeof event;
+}
+
+const stored = (id: string) => getStore().earlyFraudWarnings.get(id)!;
+const refundCalls = () => calls.filter((c) => c.method === 'refunds.create');
+
+const patchSettings = (body: object) => server.call('PATCH', '/api/merchants/acct_test_1/settings', body);
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: { ...defaultMerchantSettings(), efwAutoRefundEnabled: true, efwRefundMaxAmount: 10000 },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  calls = installStripeStub({
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      amount: charges[id].amount,
+      currency: 'usd',
+      amount_refunded: 0,
+      refunded: false,
+      disputed: false,
+      metadata: id === 'ch_visa' ? matching : {},
+      payment_method_details: { card: { brand: charges[id].brand, fingerprint: charges[id].fingerprint } },
+    }),
+    'charges.search': () => ({
+      object: 'search_result',
+      data: [priorCharge('ch_prior_1', 150), priorCharge('ch_prior_2', 200)],
+      has_more: false,
+    }),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('a warning under the refund limit is refunded once', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('radar.early_fraud_warning.created'));
+  assert.equal(res.status, 200);
+
+  const record = stored('issfr_test_1');
+  assert.equal(record.chargeId, 'ch_test_1');
+  assert.equal(record.decision?.action, 'refund');
+  assert.equal(record.decision?.reportingAmount, 4999);
+  assert.match(record.refundId!, /^re_stub_/);
+  assert.equal(refundCalls().length, 1);
+  assert.deepEqual(refundCalls()[0].args[0], {
+    charge: 'ch_test_1',
+    amount: undefined,
+    metadata: { source: 'early_fraud_warning', early_fraud_warning: 'issfr_test_1' },
+    reason: 'requested_by_customer',
+  });
+
+  const [decided] = listAudit({ entityId: 'ch_test_1' }).filter((e) => e.action === 'efw.decided');
+  assert.equal(decided.actor, 'efw_policy');
+  assert.equal((decided.diff.earlyFraudWarning.after as { action: string }).action, 'refund');
+});
+
+test('an updated warning is stored without deciding again', async () => {
+  const updated = warning('issfr_test_1', 'ch_test_1', { actionable: false }, 'radar.early_fraud_warning.updated');
+  assert.equal((await postWebhook(server.baseUrl, updated)).status, 200);
+  assert.equal(stored('issfr_test_1').actionable, false);
+  assert.equal(stored('issfr_test_1').decision?.action, 'refund');
+  assert.equal(refundCalls().length, 1);
+});
+
+test('warnings above the limit or of an excluded fraud type are left to be fought', async () => {
+  await postWebhook(server.baseUrl, warning('issfr_large', 'ch_large'));
+  assert.deepEqual(
+    [stored('issfr_large').decision?.action, stored('issfr_large').decision?.reason],
+    ['fight', 'amount_above_limit'],
+  );
+
+  const invalid = await patchSettings({ efwRefundFraudTypes: ['stolen'] });
+  assert.equal(invalid.status, 400);
+  assert.equal((await invalid.json()).error, 'invalid_efw_policy');
+  assert.equal((await patchSettings({ efwRefundFraudTypes: ['made_with_stolen_card'] })).status, 200);
+  await postWebhook(server.baseUrl, warning('issfr_misc', 'ch_misc', { fraud_type: 'misc' }));
+  assert.equal(stored('issfr_misc').decision?.reason, 'fraud_type');
+  assert.equal(refundCalls().length, 1);
+});
+
+test('a Visa charge that qualifies for CE 3.0 is fought instead of refunded', async () => {
+  await postWebhook(server.baseUrl, warning('issfr_visa', 'ch_visa'));
+  const { decision } = stored('issfr_visa');
+  assert.deepEqual([decision?.action, decision?.reason, decision?.ce3Eligible], ['fight', 'ce3_eligible', true]);
+  assert.ok(calls.some((c) => c.method === 'charges.search'));
+  assert.equal(refundCalls().length, 1);
+});
+
+test('with auto-refund off a refund decision is only recorded', async () => {
+  assert.equal((await patchSettings({ efwAutoRefundEnabled: false })).status, 200);
+  await postWebhook(server.baseUrl, warning('issfr_quiet', 'ch_quiet'));
+  const record = stored('issfr_quiet');
+  assert.equal(record.decision?.action, 'refund');
+  assert.equal(record.refundBlockedReason, 'auto_refund_disabled');
+  assert.equal(refundCalls().length, 1);
+
+  const res = await server.call('GET', '/api/early-fraud-warnings?merchantId=acct_test_1');
+  const { earlyFraudWarnings } = await res.json();
+  assert.equal(earlyFraudWarnings.length, 5);
+});
@@ -0,0 +1,80 @@
+import { installStripeStub, loadFixture, needsResponseUpdate, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  getDispute,
+  updateMerchantSettings,
+  upsertMerchant,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('the evidence sent to Stripe is stored as a version', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.currentEvidenceVersion, 1);
+
+  const sent = calls.find((c) => c.method === 'disputes.update')?.args[1] as { evidence: object };
+  assert.deepEqual(dispute?.evidenceVersions?.[0].evidence, sent.evidence);
+  assert.ok(dispute?.evidenceVersions?.[0].sentAt);
+});
+
+test('an unchanged packet does not add a version', async () => {
+  await postWebhook(server.baseUrl, needsResponseUpdate());
+  assert.equal(getDispute('dp_test_1')?.evidenceVersions?.length, 1);
+});
+
+test('retries resubmit the stored packet unchanged', async () => {
+  updateMerchantSettings('acct_test_1', { autoSubmitEnabled: true, minEvidenceScore: 0 });
+  const res = await server.call('POST', '/disputes/dp_test_1/retry-submit');
+  assert.equal(res.status, 200);
+
+  const dispute = getDispute('dp_test_1');
+  const version = dispute?.evidenceVersions?.[0];
+  const update = calls.find((c) => c.method === 'disputes.update');
+  assert.deepEqual(update?.args[1], { evidence: version?.evidence, submit: true });
+  assert.match(String(version?.evidence.uncategorized_text), /Automated evidence packet/);
+  assert.ok(version?.submittedAt);
+});
+
+test('GET /disputes/:id/evidence compares Stripe with the stored version', async () => {
+  const stored = getDispute('dp_test_1')?.evidenceVersions?.[0].evidence;
+  installStripeStub({
+    'disputes.retrieve': (id: string) => ({
+      id,
+      status: 'under_review',
+      evidence: { ...stored, product_description: 'edited in the dashboard' },
+      evidence_details: { submission_count: 1 },
+    }),
+  });
+
+  const body = await server.call('GET', '/disputes/dp_test_1/evidence').then((r) => r.json());
+  assert.equal(body.currentVersion, 1);
+  assert.equal(body.versions.length, 1);
+  assert.equal(body.stripe.status, 'under_review');
+  assert.deepEqual(body.mismatchedFields, ['product_description']);
+});
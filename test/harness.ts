@@ -0,0 +1,133 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import Stripe from 'stripe';
+import { setStripeFactory } from '../src/lib/stripe-client';
+
+// Offline harness for webhook flows: signs fixture events with a local secret and replays them
+// against the real Express app, with every Stripe API call answered by an in-memory stub.
+//
+// Import this module before src/app: the app parses its environment when it is first loaded.
+
+export const WEBHOOK_SECRET = 'whsec_offline_harness';
+export const ADMIN_KEY = randomBytes(24).toString('base64url');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'autopilot-test-'));
+Object.assign(process.env, {
+  STRIPE_SECRET_KEY: 'sk_test_platform',
+  STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+  TOKEN_ENCRYPTION_KEY: randomBytes(32).toString('base64'),
+  ADMIN_API_KEY: ADMIN_KEY,
+  STORE_BACKEND: 'sqlite',
+  SQLITE_PATH: path.join(dataDir, 'test.sqlite'),
+  // Notification channels in the tests post to listeners on 127.0.0.1.
+  NOTIFICATION_ALLOW_PRIVATE_URLS: 'true',
+});
+
+export type StripeCall = { apiKey: string; method: string; args: unknown[] };
+
+/** Answers one Stripe method, e.g. `disputes.update`; it gets the arguments the app passed. */
+export type StripeStubMethod = (...args: never[]) => unknown;
+
+/**
+ * Routes all Stripe clients to a stub and returns the call log. Pass overrides to change how a
+ * single method responds, e.g. `{ 'disputes.update': () => { throw new Error('boom'); } }`.
+ */
+export function installStripeStub(overrides: Record<string, StripeStubMethod> = {}) {
+  const calls: StripeCall[] = [];
+  const defaults: Record<string, StripeStubMethod> = {
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      billing_details: { email: 'buyer@example.com', name: 'Test Buyer' },
+      calculated_statement_descriptor: 'AUTOPILOT TEST',
+    }),
+    'charges.list': () => ({ object: 'list', data: [], has_more: false }),
+    'charges.search': () => ({ object: 'search_result', data: [], has_more: false }),
+    'disputes.retrieve': (id: string) => ({ ...loadFixture('charge.dispute.created').data.object, id }),
+    'disputes.update': (id: string, params: Stripe.DisputeUpdateParams) => ({ id, object: 'dispute', ...params }),
+    'files.create': (params: Stripe.FileCreateParams) => ({
+      id: `file_stub_${calls.length}`,
+      object: 'file',
+      purpose: params.purpose,
+      filename: params.file.name,
+    }),
+    'refunds.create': (params: Stripe.RefundCreateParams) => ({
+      id: `re_stub_${calls.length}`,
+      object: 'refund',
+      amount: params.amount ?? 0,
+      currency: 'usd',
+      charge: params.charge,
+    }),
+  };
+
+  setStripeFactory((apiKey) => {
+    const resource = (name: string) =>
+      new Proxy(
+        {},
+        {
+          get:
+            (_target, method: string) =>
+            async (...args: unknown[]) => {
+              const key = `${name}.${method}`;
+              calls.push({ apiKey, method: key, args });
+              const handler = overrides[key] || defaults[key];
+              if (!handler) throw new Error(`Stripe stub has no handler for ${key}`);
+              return (handler as (...args: unknown[]) => unknown)(...args);
+            },
+        },
+      );
+    return new Proxy({}, { get: (_target, name: string) => resource(name) }) as Stripe;
+  });
+
+  return calls;
+}
+
+export function loadFixture(name: string): Stripe.Event {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8')) as Stripe.Event;
+}
+
+/** `charge.dispute.updated` while Stripe still waits for evidence; the fixture itself is `under_review`. */
+export function needsResponseUpdate() {
+  const event = loadFixture('charge.dispute.updated');
+  (event.data.object as Stripe.Dispute).status = 'needs_response';
+  return event;
+}
+
+export type CallOptions = { key?: string; contentType?: string };
+
+/**
+ * Starts the app on a random port. `call` sends an authenticated request: objects go as JSON,
+ * Buffers as they are (pass `contentType`), with the platform admin key unless `key` is given.
+ */
+export async function startServer(app: import('express').Express) {
+  const server = app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  return {
+    baseUrl,
+    call: (method: string, path: string, body?: object | Buffer, { key = ADMIN_KEY, contentType }: CallOptions = {}) =>
+      fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          authorization: `Bearer ${key}`,
+          'content-type': contentType || 'application/json',
+        },
+        body: Buffer.isBuffer(body) ? new Uint8Array(body) : body && JSON.stringify(body),
+      }),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+export function postWebhook(baseUrl: string, event: Stripe.Event, secret = WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  return fetch(`${baseUrl}/webhooks/stripe`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'stripe-signature': signature },
+    body: payload,
+  });
+}
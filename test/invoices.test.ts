@@ -0,0 +1,149 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { app, runBillingClose } from '../src/app';
+import { createApiKey } from '../src/lib/auth';
+import { monthKey } from '../src/lib/network-ratios';
+import { draftInvoice } from '../src/lib/invoices';
+import { getStore } from '../src/lib/storage';
+import { defaultEvidenceProfile, defaultMerchantSettings, findMerchantById, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const now = new Date();
+const period = monthKey(now);
+// Early in each of the next two months, once this month's and then next month's period has closed.
+const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 2));
+const monthAfter = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 2, 2));
+
+const json = (method: string, path: string, body?: object) => server.call(method, path, body).then((r) => r.json());
+
+let invoiceId: string;
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: now.toISOString(),
+    settings: {
+      ...defaultMerchantSettings(),
+      recoveryFeePct: 25,
+      alertDeflectionFeeCents: 2900,
+      roiGuaranteeMultiplier: 4,
+    },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  installStripeStub();
+  server = await startServer(app);
+
+  // One won dispute of 49.99 and one confirmed deflection.
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.closed'));
+  getStore().deflectionCharges.put({
+    id: 'alert_1',
+    merchantId: 'acct_test_1',
+    chargeId: 'ch_alerted',
+    source: 'verifi',
+    fee: 2900,
+    currency: 'usd',
+    status: 'billable',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+});
+
+after(() => server.close());
+
+test('a period is invoiced only once it has closed', async () => {
+  const res = await server.call('POST', '/api/merchants/acct_test_1/invoices', { period });
+  assert.equal(res.status, 409);
+  assert.equal((await res.json()).error, 'period_open');
+  assert.equal(runBillingClose(now).length, 0);
+});
+
+test('closing the period drafts an invoice with a credit when the ROI guarantee is missed', async () => {
+  const [invoice] = runBillingClose(nextMonth);
+  invoiceId = invoice.id;
+  assert.equal(invoice.period, period);
+  assert.equal(invoice.status, 'draft');
+  assert.deepEqual(
+    invoice.lines.map((l) => [l.kind, l.reference, l.amount]),
+    [
+      ['recovery_fee', 'dp_test_1', 1250],
+      ['deflection_fee', 'alert_1', 2900],
+      // 49.99 recovered at a 4x guarantee caps fees at 12.49.
+      ['roi_credit', undefined, -2901],
+    ],
+  );
+  assert.equal(invoice.subtotal, 4150);
+  assert.equal(invoice.total, 1249);
+  assert.equal(invoice.roiGuaranteeMet, false);
+  assert.equal(runBillingClose(nextMonth).length, 0);
+});
+
+test('a merchant-scoped admin can read its invoices but not change them', async () => {
+  const key = createApiKey({ name: 'merchant-admin', role: 'admin', merchantId: 'acct_test_1' }).key;
+  const asMerchant = (method: string, path: string, body?: object) => server.call(method, path, body, { key });
+  assert.equal((await asMerchant('GET', `/api/invoices/${invoiceId}`)).status, 200);
+  for (const res of [
+    await asMerchant('POST', `/api/invoices/${invoiceId}/void`, { reason: 'no' }),
+    await asMerchant('POST', `/api/invoices/${invoiceId}/pay`),
+    await asMerchant('POST', '/api/merchants/acct_test_1/invoices', { period }),
+  ]) {
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).error, 'platform_key_required');
+  }
+  assert.equal((await json('GET', `/api/invoices/${invoiceId}`)).invoice.status, 'draft');
+});
+
+test('issued invoices move to paid and are never redrafted', async () => {
+  assert.equal((await json('POST', `/api/invoices/${invoiceId}/issue`)).invoice.status, 'issued');
+  const redraft = draftInvoice(findMerchantById('acct_test_1')!, period, 'admin', nextMonth);
+  assert.equal('error' in redraft && redraft.error, 'invoice_issued');
+
+  const paid = await json('POST', `/api/invoices/${invoiceId}/pay`);
+  assert.equal(paid.invoice.status, 'paid');
+  assert.equal(paid.invoice.total, 1249);
+  const voided = await server.call('POST', `/api/invoices/${invoiceId}/void`, { reason: 'too late' });
+  assert.equal(voided.status, 409);
+  assert.deepEqual(await voided.json(), { error: 'invalid_transition', from: 'paid', to: 'void' });
+});
+
+test('invoices export as CSV and PDF', async () => {
+  const csv = await server.call('GET', `/api/invoices/${invoiceId}/export?format=csv`);
+  assert.match(csv.headers.get('content-type')!, /^text\/csv/);
+  const rows = (await csv.text()).trim().split('\n');
+  assert.equal(rows[0].split(',').at(-2), 'amount');
+  assert.equal(rows.length, 4);
+  assert.ok(rows[1].includes('dp_test_1') && rows[1].includes('49.99') && rows[1].includes('12.50'));
+  const total = rows.slice(1).reduce((sum, row) => sum + Number(row.split(',').at(-2)), 0);
+  assert.equal(total.toFixed(2), '12.49');
+
+  const pdf = await server.call('GET', `/api/invoices/${invoiceId}/export?format=pdf`);
+  assert.equal(pdf.headers.get('content-type'), 'application/pdf');
+  assert.match(pdf.headers.get('content-disposition')!, new RegExp(`${invoiceId}\\.pdf`));
+  const body = Buffer.from(await pdf.arrayBuffer()).toString('latin1');
+  assert.ok(body.startsWith('%PDF-1.4'));
+  assert.ok(body.includes('Total \\(USD\\)'));
+  assert.ok(body.trimEnd().endsWith('%%EOF'));
+});
+
+test('a deflection voided after it was billed is reversed on the next invoice', async () => {
+  const deflection = getStore().deflectionCharges.get('alert_1')!;
+  getStore().deflectionCharges.put({ ...deflection, status: 'voided', updatedAt: nextMonth.toISOString() });
+  const [invoice] = runBillingClose(monthAfter);
+  assert.deepEqual(
+    invoice.lines.map((l) => [l.kind, l.reference, l.amount]),
+    [['deflection_reversal', 'alert_1', -2900]],
+  );
+  assert.equal(invoice.total, -2900);
+
+  const { invoices } = await json('GET', '/api/merchants/acct_test_1/invoices');
+  assert.deepEqual(
+    invoices.map((i: { id: string }) => i.id),
+    [invoice.id, invoiceId],
+  );
+});
@@ -0,0 +1,165 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import {
+  claimDueJobs,
+  claimJob,
+  getJob,
+  registerJobHandler,
+  runDueJobs,
+  runJob,
+  scheduleJob,
+  scheduleRecurringJob,
+} from '../src/lib/jobs';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const inMs = (ms: number) => new Date(Date.now() + ms);
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: { ...defaultMerchantSettings(), autoSubmitEnabled: true, minEvidenceScore: 0, submissionDelayMinutes: 1 },
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('failing jobs back off exponentially, then succeed', async () => {
+  let failures = 2;
+  registerJobHandler('test.flaky', async () => {
+    if (failures-- > 0) throw new Error('upstream down');
+    return { message: 'done' };
+  });
+  scheduleJob({ type: 'test.flaky', key: 'a', runAt: new Date() });
+
+  assert.equal(await runDueJobs('w1'), 1);
+  let job = getJob('test.flaky:a')!;
+  assert.equal(job.status, 'scheduled');
+  assert.equal(job.attempts, 1);
+  assert.equal(job.lastError, 'upstream down');
+  const firstDelay = Date.parse(job.runAt) - Date.now();
+  assert.ok(firstDelay > 25_000 && firstDelay <= 30_000);
+
+  assert.equal(await runDueJobs('w1'), 0);
+  await runDueJobs('w1', inMs(31_000));
+  job = getJob('test.flaky:a')!;
+  const secondDelay = Date.parse(job.runAt) - Date.now();
+  assert.ok(secondDelay > 55_000 && secondDelay <= 60_000);
+
+  await runDueJobs('w1', inMs(61_000));
+  job = getJob('test.flaky:a')!;
+  assert.equal(job.status, 'succeeded');
+  assert.equal(job.lastResult, 'done');
+  assert.deepEqual(
+    job.history.map((h) => h.success),
+    [false, false, true],
+  );
+
+  // A finished job isn't run again when the same work is scheduled twice.
+  scheduleJob({ type: 'test.flaky', key: 'a', runAt: new Date() });
+  assert.equal(getJob('test.flaky:a')!.status, 'succeeded');
+});
+
+test('a job that runs out of attempts is marked failed', async () => {
+  registerJobHandler('test.broken', async () => {
+    throw new Error('always');
+  });
+  scheduleJob({ type: 'test.broken', key: 'b', runAt: new Date(), maxAttempts: 1 });
+  await runDueJobs('w1');
+  assert.equal(getJob('test.broken:b')!.status, 'failed');
+});
+
+test('only one worker holds a job, until its lease runs out', async () => {
+  registerJobHandler('test.locked', async () => ({ message: 'ran' }));
+  scheduleJob({ type: 'test.locked', key: 'c', runAt: new Date() });
+
+  const [claimed] = claimDueJobs('worker-a').filter((j) => j.type === 'test.locked');
+  assert.equal(claimed.lockedBy, 'worker-a');
+  assert.equal(
+    claimDueJobs('worker-b').some((j) => j.type === 'test.locked'),
+    false,
+  );
+
+  // worker-a hangs; after the lease expires worker-b takes over and worker-a's late result is dropped.
+  const [taken] = claimDueJobs('worker-b', inMs(6 * 60 * 1000)).filter((j) => j.type === 'test.locked');
+  assert.equal(taken.lockedBy, 'worker-b');
+  await runJob(claimed, 'worker-a');
+  assert.equal(getJob('test.locked:c')!.status, 'running');
+  await runJob(taken, 'worker-b');
+  const job = getJob('test.locked:c')!;
+  assert.equal(job.status, 'succeeded');
+  assert.equal(job.history.length, 1);
+  assert.equal(job.history[0].worker, 'worker-b');
+});
+
+test('a pass renews each lease before running and skips jobs another worker took over', async () => {
+  const ran: string[] = [];
+  registerJobHandler('test.pass', async (job) => {
+    ran.push(job.id);
+    // The first job runs past the lease of the second, which worker-b then picks up.
+    if (job.id === 'test.pass:first') assert.ok(claimJob('test.pass:second', 'worker-b', inMs(6 * 60 * 1000)));
+  });
+  scheduleJob({ type: 'test.pass', key: 'first', runAt: inMs(-2000) });
+  scheduleJob({ type: 'test.pass', key: 'second', runAt: inMs(-1000) });
+  await runDueJobs('w1');
+
+  assert.deepEqual(ran, ['test.pass:first']);
+  assert.equal(getJob('test.pass:first')!.status, 'succeeded');
+  assert.equal(getJob('test.pass:second')!.lockedBy, 'worker-b');
+});
+
+test('recurring jobs are put back on the schedule after each run', async () => {
+  let runs = 0;
+  registerJobHandler('test.tick', async () => {
+    runs++;
+  });
+  scheduleRecurringJob('test.tick', 60_000);
+  await runDueJobs('w1');
+  const job = getJob('test.tick:recurring')!;
+  assert.equal(runs, 1);
+  assert.equal(job.status, 'scheduled');
+  assert.ok(Date.parse(job.runAt) > Date.now() + 50_000);
+
+  scheduleRecurringJob('test.tick', undefined);
+  assert.equal(getJob('test.tick:recurring')!.status, 'cancelled');
+});
+
+test('a dispute held by the delay window is submitted when the delay ends', async () => {
+  const calls = installStripeStub();
+  const event = loadFixture('charge.dispute.created');
+  const dispute = event.data.object as Stripe.Dispute;
+  dispute.created = Math.floor(Date.now() / 1000) - 58;
+  dispute.evidence_details!.due_by = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+  assert.equal((await postWebhook(server.baseUrl, event)).status, 200);
+  assert.equal(getDispute('dp_test_1')!.submitted, false);
+
+  const { jobs } = await server.call('GET', '/api/jobs?merchantId=acct_test_1').then((r) => r.json());
+  const submit = jobs.find((j: { id: string }) => j.id === 'dispute.submit:dp_test_1');
+  assert.equal(submit.status, 'scheduled');
+  assert.equal(Date.parse(submit.runAt), (dispute.created + 61) * 1000);
+  // Due within 48h already, so the reminder is due straight away.
+  const reminder = jobs.find((j: { type: string }) => j.type === 'dispute.due_reminder');
+  assert.ok(Date.parse(reminder.runAt) <= Date.now());
+
+  await new Promise((resolve) => setTimeout(resolve, Date.parse(submit.runAt) - Date.now() + 50));
+  await runDueJobs('w1');
+
+  assert.equal(getDispute('dp_test_1')!.submitted, true);
+  assert.ok(calls.some((c) => c.method === 'disputes.update' && (c.args[1] as { submit?: boolean }).submit));
+  assert.equal(getJob('dispute.submit:dp_test_1')!.status, 'succeeded');
+  assert.equal(getJob(reminder.id)!.status, 'succeeded');
+
+  const cancelled = await server.call('POST', '/api/jobs/dispute.submit:dp_test_1/cancel');
+  assert.equal(cancelled.status, 409);
+});
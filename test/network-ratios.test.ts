@@ -0,0 +1,171 @@
+import { installStripeStub, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import { computeNetworkRatios, refreshTransactionVolume } from '../src/lib/network-ratios';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  upsertDispute,
+  upsertMerchant,
+  type DisputeRecord,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+const monthStart = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1) / 1000;
+
+function dispute(id: string, network: string, createdAt: number): DisputeRecord {
+  return {
+    id,
+    merchantId: 'acct_ratio',
+    reason: 'fraudulent',
+    amount: 2000,
+    currency: 'usd',
+    status: 'needs_response',
+    network,
+    disputeCreatedAt: createdAt,
+    updatedAt: new Date().toISOString(),
+    submitted: false,
+    evidenceScore: 50,
+    manualReviewRequired: false,
+    evidenceSummary: [],
+    submissionAttempts: [],
+  };
+}
+
+function charges(count: number, brand: string, prefix: string, status = 'succeeded') {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}_${i}`,
+    status,
+    payment_method_details: { card: { brand } },
+  }));
+}
+
+// Pages through a fixed list of charges the way Stripe's list endpoint does.
+function pager(all: { id: string }[]) {
+  return (params: Stripe.ChargeListParams) => {
+    const from = params.starting_after ? all.findIndex((c) => c.id === params.starting_after) + 1 : 0;
+    const data = all.slice(from, from + (params.limit || 10));
+    return { object: 'list', data, has_more: from + data.length < all.length };
+  };
+}
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_ratio',
+    name: 'Ratio Merchant',
+    stripeAccountId: 'acct_ratio',
+    stripeAccessToken: 'sk_test_ratio',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  for (let i = 0; i < 100; i++) upsertDispute(dispute(`dp_ratio_${i}`, 'mastercard', monthStart + 60));
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('Visa divides by the same month and Mastercard by the previous month', () => {
+  const disputes = [
+    ...Array.from({ length: 80 }, (_, i) => dispute(`v${i}`, 'visa', at('2026-03-03T00:00:00Z'))),
+    ...Array.from({ length: 20 }, (_, i) => dispute(`m${i}`, 'mastercard', at('2026-03-03T00:00:00Z'))),
+    dispute('old', 'visa', at('2026-02-27T00:00:00Z')),
+    { ...dispute('inquiry', 'visa', at('2026-03-04T00:00:00Z')), status: 'warning_needs_response' },
+  ];
+  const ratios = computeNetworkRatios({
+    month: '2026-03',
+    now: new Date('2026-03-16T12:00:00Z'),
+    disputes,
+    volume: { counts: { visa: 10000, mastercard: 500 } },
+    previousVolume: { counts: { visa: 1, mastercard: 4000 } },
+  });
+  const visa = ratios.find((r) => r.network === 'visa')!;
+  const mastercard = ratios.find((r) => r.network === 'mastercard')!;
+
+  assert.equal(visa.disputes, 80);
+  assert.equal(visa.transactions, 10000);
+  assert.equal(visa.ratioPct, 0.8);
+  assert.equal(visa.reached?.level, 'early_warning');
+  // Half the month gone: both counts double, so the ratio holds but the dispute count clears 100.
+  assert.equal(visa.projectedDisputes, 160);
+  assert.equal(visa.projectedRatioPct, 0.8);
+  assert.equal(visa.projected?.level, 'early_warning');
+
+  assert.equal(mastercard.transactions, 4000);
+  assert.equal(mastercard.ratioPct, 0.5);
+  assert.equal(mastercard.projectedTransactions, 4000);
+  assert.equal(mastercard.reached, undefined);
+});
+
+test('only succeeded charges are counted and later refreshes pick up where the last stopped', async () => {
+  const listed: Stripe.ChargeListParams[] = [];
+  const page = pager([
+    ...charges(150, 'visa', 'ch_v'),
+    ...charges(30, 'mastercard', 'ch_m'),
+    ...charges(5, 'visa', 'ch_f', 'failed'),
+    { id: 'ch_other', status: 'succeeded', payment_method_details: null } as never,
+  ]);
+  const stripe = {
+    charges: {
+      list: async (params: Stripe.ChargeListParams) => {
+        listed.push(params);
+        // The second refresh only sees what was created after the first one.
+        return listed.filter((p) => !p.starting_after).length > 1
+          ? pager(charges(2, 'visa', 'ch_new'))(params)
+          : page(params);
+      },
+    },
+  } as unknown as Stripe;
+
+  const first = await refreshTransactionVolume(stripe, 'acct_unit', '2026-04', new Date('2026-04-10T00:00:00Z'));
+  assert.deepEqual(first.counts, { visa: 150, mastercard: 30, other: 1 });
+  assert.equal(first.complete, false);
+  assert.equal(first.countedUntil, at('2026-04-10T00:00:00Z') - 60);
+
+  const second = await refreshTransactionVolume(stripe, 'acct_unit', '2026-04', new Date('2026-05-02T00:00:00Z'));
+  assert.deepEqual(second.counts, { visa: 152, mastercard: 30, other: 1 });
+  assert.equal(second.complete, true);
+  const last = listed[listed.length - 1].created as Stripe.RangeQueryParam;
+  assert.equal(last.gt, first.countedUntil);
+  assert.equal(last.lte, at('2026-05-01T00:00:00Z') - 1);
+});
+
+test('a refresh counts the connected account and alerts once per level', async () => {
+  const previous = charges(2000, 'mastercard', 'ch_prev');
+  const calls = installStripeStub({
+    'charges.list': (params: Stripe.ChargeListParams) => {
+      const created = params.created as Stripe.RangeQueryParam;
+      return created.lte! < monthStart
+        ? pager(previous)(params)
+        : { object: 'list', data: charges(40, 'visa', 'ch_now'), has_more: false };
+    },
+  });
+
+  const res = await server.call('POST', '/api/merchants/acct_ratio/network-ratios/refresh');
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.ok(calls.every((c) => c.apiKey === 'sk_test_ratio'));
+  assert.equal(body.previousVolume.counts.mastercard, 2000);
+  const mastercard = body.ratios.find((r: { network: string }) => r.network === 'mastercard');
+  assert.equal(mastercard.ratioPct, 5);
+  assert.equal(mastercard.reached.level, 'excessive');
+  assert.ok(
+    body.alerts.some(
+      (a: { network: string; level: string; kind: string }) =>
+        a.network === 'mastercard' && a.level === 'excessive' && a.kind === 'reached',
+    ),
+  );
+
+  const again = await (await server.call('POST', '/api/merchants/acct_ratio/network-ratios/refresh')).json();
+  assert.deepEqual(again.alerts, []);
+  const stored = await (await server.call('GET', '/api/merchants/acct_ratio/ratio-alerts')).json();
+  assert.equal(stored.alerts.length, body.alerts.length);
+
+  const { recommendations } = await (await server.call('GET', '/recommendations?merchantId=acct_ratio')).json();
+  assert.ok(recommendations.some((r: string) => r.startsWith('mastercard chargeback ratio is 5%')));
+});
@@ -0,0 +1,283 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { app } from '../src/app';
+import { getJob, runDueJobs } from '../src/lib/jobs';
+import {
+  configureNotifications,
+  notify,
+  retryDueDeliveries,
+  SIGNATURE_HEADER,
+  signPayload,
+} from '../src/lib/notifications';
+import { sendMail } from '../src/lib/smtp';
+import { defaultEvidenceProfile, defaultMerchantSettings, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let httpSink: http.Server;
+let smtpSink: net.Server;
+let sinkUrl = '';
+
+type Received = { path: string; headers: http.IncomingHttpHeaders; body: string };
+const received: Received[] = [];
+const mails: { from: string; to: string[]; data: string }[] = [];
+let flakyFailures = 1;
+
+// Accepts every POST. /flaky answers 503 until `flakyFailures` runs out; /redirect points elsewhere.
+function startHttpSink() {
+  return new Promise<void>((resolve) => {
+    httpSink = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url || '', headers: req.headers, body });
+        if (req.url === '/redirect') return res.writeHead(307, { location: '/landed' }).end();
+        const fail = req.url === '/flaky' && flakyFailures-- > 0;
+        res.writeHead(fail ? 503 : 200).end();
+      });
+    });
+    httpSink.listen(0, '127.0.0.1', () => {
+      sinkUrl = `http://127.0.0.1:${(httpSink.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+}
+
+// Just enough SMTP to accept a message: no TLS, no auth.
+function startSmtpSink() {
+  return new Promise<number>((resolve) => {
+    smtpSink = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      const mail = { from: '', to: [] as string[], data: '' };
+      socket.write('220 sink ready\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          mail.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          mails.push(mail);
+          socket.write('250 queued\r\n');
+        }
+        let eol;
+        while (!inData && (eol = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, eol);
+          buffer = buffer.slice(eol + 2);
+          if (/^EHLO/i.test(line)) {
+            socket.write('250-sink\r\n250 8BITMIME\r\n');
+          } else if (/^MAIL FROM:/i.test(line)) {
+            mail.from = line.slice(10);
+            socket.write('250 ok\r\n');
+          } else if (/^RCPT TO:/i.test(line)) {
+            mail.to.push(line.slice(8));
+            socket.write('250 ok\r\n');
+          } else if (/^DATA/i.test(line)) {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (/^QUIT/i.test(line)) {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('500 unknown\r\n');
+          }
+        }
+      });
+    });
+    smtpSink.listen(0, '127.0.0.1', () => resolve((smtpSink.address() as AddressInfo).port));
+  });
+}
+
+const channels = '/api/merchants/acct_test_1/notification-channels';
+let httpSecret = '';
+
+before(async () => {
+  await startHttpSink();
+  const smtpPort = await startSmtpSink();
+  process.env.SMTP_HOST = '127.0.0.1';
+  process.env.SMTP_PORT = String(smtpPort);
+  process.env.SMTP_FROM = 'Autopilot <alerts@example.com>';
+
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  installStripeStub();
+  server = await startServer(app);
+
+  const created = await server
+    .call('POST', channels, {
+      kind: 'http',
+      name: 'Ops callback',
+      events: ['dispute.created', 'dispute.closed'],
+      url: `${sinkUrl}/callback`,
+    })
+    .then((r) => r.json());
+  httpSecret = created.signingSecret;
+  await server.call('POST', channels, {
+    kind: 'chat',
+    name: 'Chat',
+    events: ['dispute.created'],
+    url: `${sinkUrl}/chat`,
+  });
+  await server.call('POST', channels, {
+    kind: 'email',
+    name: 'Ops',
+    events: ['dispute.created'],
+    to: ['ops@example.com'],
+  });
+});
+
+after(async () => {
+  await server.close();
+  await new Promise((resolve) => httpSink.close(resolve));
+  await new Promise((resolve) => smtpSink.close(resolve));
+});
+
+test('channel validation and listing never expose the URL or secret', async () => {
+  const bad = await server.call('POST', channels, {
+    kind: 'email',
+    name: 'No recipients',
+    events: ['dispute.created'],
+  });
+  assert.equal(bad.status, 400);
+  const unknownEvent = await server.call('POST', channels, { kind: 'chat', name: 'x', events: ['nope'], url: sinkUrl });
+  assert.equal(unknownEvent.status, 400);
+
+  const { channels: listed } = await server.call('GET', channels).then((r) => r.json());
+  const callback = listed.find((c: { kind: string }) => c.kind === 'http');
+  assert.ok(httpSecret.startsWith('nsec_'));
+  assert.equal(callback.urlHost, new URL(sinkUrl).host);
+  assert.equal(callback.hasSigningSecret, true);
+  assert.equal(JSON.stringify(listed).includes(httpSecret), false);
+  assert.equal(JSON.stringify(listed).includes('/callback'), false);
+});
+
+test('a new dispute reaches the signed callback, the chat webhook and email', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  assert.equal(res.status, 200);
+  // The webhook only queues the notification; the worker sends it.
+  assert.equal(received.length, 0);
+  assert.equal(getJob('notification.send:dispute.created:dp_test_1')!.status, 'scheduled');
+  await runDueJobs('w1');
+
+  const callback = received.find((r) => r.path === '/callback')!;
+  const payload = JSON.parse(callback.body);
+  assert.equal(payload.event, 'dispute.created');
+  assert.equal(payload.data.disputeId, 'dp_test_1');
+  const signature = String(callback.headers[SIGNATURE_HEADER]);
+  const timestamp = Number(/t=(\d+)/.exec(signature)![1]);
+  assert.equal(signature, signPayload(httpSecret, callback.body, timestamp));
+
+  const chat = JSON.parse(received.find((r) => r.path === '/chat')!.body);
+  assert.match(chat.text, /New dispute: \$49\.99 product_not_received/);
+
+  assert.equal(mails.length, 1);
+  assert.equal(mails[0].from, '<alerts@example.com>');
+  assert.deepEqual(mails[0].to, ['<ops@example.com>']);
+  assert.match(mails[0].data, /^Subject: New dispute: \$49\.99 product_not_received$/m);
+  const body = Buffer.from(mails[0].data.split('\r\n\r\n')[1], 'base64').toString();
+  assert.match(body, /dp_test_1/);
+
+  const { deliveries } = await server
+    .call('GET', '/api/notification-deliveries?merchantId=acct_test_1')
+    .then((r) => r.json());
+  assert.equal(deliveries.length, 3);
+  assert.ok(deliveries.every((d: { status: string }) => d.status === 'delivered'));
+});
+
+test('the same occurrence is only sent once per channel', async () => {
+  const before = received.length;
+  const again = await notify('acct_test_1', 'dispute.created', 'dp_test_1', { disputeId: 'dp_test_1' });
+  assert.deepEqual(again, []);
+  assert.equal(received.length, before);
+});
+
+test('failed deliveries back off and are retried', async () => {
+  const { channel } = await server
+    .call('POST', channels, {
+      kind: 'http',
+      name: 'Flaky',
+      events: ['dispute.closed'],
+      url: `${sinkUrl}/flaky`,
+    })
+    .then((r) => r.json());
+
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.closed'));
+  await runDueJobs('w1');
+  const query = `/api/notification-deliveries?merchantId=acct_test_1&channelId=${channel.id}`;
+  const [pending] = (await server.call('GET', query).then((r) => r.json())).deliveries;
+  assert.equal(pending.status, 'pending');
+  assert.equal(pending.attempts[0].statusCode, 503);
+  assert.ok(Date.parse(pending.nextAttemptAt) > Date.now());
+
+  assert.equal(await retryDueDeliveries(new Date()), 0);
+  assert.equal(await retryDueDeliveries(new Date(Date.parse(pending.nextAttemptAt) + 1)), 1);
+  const [delivered] = (await server.call('GET', query).then((r) => r.json())).deliveries;
+  assert.equal(delivered.status, 'delivered');
+  assert.equal(delivered.attempts.length, 2);
+});
+
+test('a test notification can be sent on demand', async () => {
+  const { channels: listed } = await server.call('GET', channels).then((r) => r.json());
+  const chat = listed.find((c: { kind: string }) => c.kind === 'chat');
+  const { delivery } = await server.call('POST', `${channels}/${chat.id}/test`).then((r) => r.json());
+  assert.equal(delivery.event, 'notification.test');
+  assert.equal(delivery.status, 'delivered');
+});
+
+test('an SMTP server that never completes the connection times out', async () => {
+  const silent = net.createServer(() => undefined);
+  const port = await new Promise<number>((resolve) =>
+    silent.listen(0, '127.0.0.1', () => resolve((silent.address() as AddressInfo).port)),
+  );
+  const config = { host: '127.0.0.1', port, secure: true, from: 'alerts@example.com', timeoutMs: 200 };
+  await assert.rejects(sendMail(config, { to: ['ops@example.com'], subject: 's', text: 't' }), /connect timeout/);
+  silent.close();
+});
+
+test('callbacks never reach private addresses, follow redirects or report raw network errors', async () => {
+  const attempt = async (url: string) => {
+    const { channel } = await server
+      .call('POST', channels, {
+        kind: 'http',
+        name: 'Probe',
+        events: ['dispute.closed'],
+        url,
+      })
+      .then((r) => r.json());
+    const { delivery } = await server.call('POST', `${channels}/${channel.id}/test`).then((r) => r.json());
+    return delivery.attempts[0];
+  };
+
+  assert.equal((await attempt(`${sinkUrl}/redirect`)).message, 'HTTP 307');
+  assert.ok(!received.some((r) => r.path === '/landed'));
+
+  const closed = net.createServer();
+  const port = await new Promise<number>((resolve) =>
+    closed.listen(0, '127.0.0.1', () => resolve((closed.address() as AddressInfo).port)),
+  );
+  await new Promise((resolve) => closed.close(resolve));
+  assert.equal((await attempt(`http://127.0.0.1:${port}/`)).message, 'connection_failed');
+
+  configureNotifications({ allowPrivateUrls: false });
+  try {
+    const before = received.length;
+    for (const url of [`${sinkUrl}/callback`, 'http://169.254.169.254/latest/meta-data', 'http://[::1]:8080/']) {
+      assert.equal((await attempt(url)).message, 'destination_not_allowed');
+    }
+    assert.equal(received.length, before);
+  } finally {
+    configureNotifications({ allowPrivateUrls: true });
+  }
+});
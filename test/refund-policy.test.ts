@@ -0,0 +1,130 @@
+import { installStripeStub, loadFixture, postWebhook, startServer, type StripeCall } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import type Stripe from 'stripe';
+import { app } from '../src/app';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: StripeCall[];
+
+// ch_refunded is fully refunded, ch_disputed has an open chargeback; every other charge is $100.
+const charges: Record<string, Partial<Stripe.Charge>> = {
+  ch_refunded: { amount: 10000, amount_refunded: 10000, refunded: true },
+  ch_disputed: { amount: 10000, disputed: true },
+};
+
+const refundCalls = () => calls.filter((c) => c.method === 'refunds.create');
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  calls = installStripeStub({
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      currency: 'usd',
+      amount: 10000,
+      amount_refunded: 0,
+      refunded: false,
+      disputed: false,
+      ...charges[id],
+    }),
+    'disputes.list': () => ({ object: 'list', data: [{ id: 'dp_open', status: 'needs_response' }], has_more: false }),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+test('a chargeback that is already filed is not deflected', async () => {
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  const res = await server.call('POST', '/disputes/dp_test_1/deflect');
+  assert.equal(res.status, 409);
+  const body = await res.json();
+  assert.equal(body.reason, 'dispute_state');
+  assert.equal(refundCalls().length, 0);
+});
+
+test('an inquiry can be deflected with a partial refund after a dry run', async () => {
+  const event = loadFixture('charge.dispute.updated');
+  (event.data.object as Stripe.Dispute).status = 'warning_needs_response';
+  await postWebhook(server.baseUrl, event);
+
+  const dry = await server
+    .call('POST', '/disputes/dp_test_1/deflect', { amount: 2500, dryRun: true })
+    .then((r) => r.json());
+  assert.equal(dry.dryRun, true);
+  assert.equal(dry.decision.allowed, true);
+  assert.equal(dry.decision.amount, 2500);
+  assert.equal(dry.decision.partial, true);
+  assert.equal(refundCalls().length, 0);
+  assert.equal(getDispute('dp_test_1')!.deflected, undefined);
+
+  const res = await server.call('POST', '/disputes/dp_test_1/deflect', { amount: 2500 }).then((r) => r.json());
+  assert.equal(res.partial, true);
+  const [refund] = refundCalls();
+  assert.equal((refund.args[0] as Stripe.RefundCreateParams).amount, 2500);
+  assert.equal(getDispute('dp_test_1')!.deflected, true);
+
+  const ledger = await server.call('GET', '/api/merchants/acct_test_1/refunds').then((r) => r.json());
+  assert.equal(ledger.refunds[0].id, 'deflect:dp_test_1');
+  assert.equal(ledger.refunds[0].status, 'succeeded');
+  assert.equal(ledger.budget.daily.used, 2500);
+});
+
+test('alerts for refunded or disputed charges are recorded without a refund', async () => {
+  const refunded = await server
+    .call('POST', '/api/alerts/ingest', {
+      merchantId: 'acct_test_1',
+      chargeId: 'ch_refunded',
+      source: 'verifi',
+      externalAlertId: 'rdr_1',
+    })
+    .then((r) => r.json());
+  assert.equal(refunded.alert.refunded, false);
+  assert.equal(refunded.alert.refundBlockedReason, 'charge_refunded');
+
+  const disputed = await server
+    .call('POST', '/api/alerts/ingest', {
+      merchantId: 'acct_test_1',
+      chargeId: 'ch_disputed',
+      source: 'ethoca',
+      externalAlertId: 'eth_1',
+    })
+    .then((r) => r.json());
+  assert.equal(disputed.alert.refundBlockedReason, 'dispute_state');
+  assert.equal(refundCalls().length, 1);
+});
+
+test('refunds stay within the cap and the daily budget', async () => {
+  const invalid = await server.call('PATCH', '/api/merchants/acct_test_1/settings', { dailyRefundBudget: -1 });
+  assert.equal(invalid.status, 400);
+  assert.equal((await invalid.json()).error, 'invalid_refund_policy');
+  await server.call('PATCH', '/api/merchants/acct_test_1/settings', { maxRefundAmount: 5000, dailyRefundBudget: 6000 });
+
+  const ingest = (chargeId: string, amount: number, dryRun = false) =>
+    server
+      .call('POST', '/api/alerts/ingest', { merchantId: 'acct_test_1', chargeId, amount, dryRun })
+      .then((r) => r.json());
+
+  const tooLarge = await ingest('ch_large', 7500, true);
+  assert.equal(tooLarge.dryRun, true);
+  assert.equal(tooLarge.decision.reason, 'max_refund_amount');
+
+  // 2500 of the 6000 went to the deflection above.
+  assert.equal((await ingest('ch_a', 3000)).alert.refunded, true);
+  const over = await ingest('ch_b', 1000);
+  assert.equal(over.alert.refunded, false);
+  assert.equal(over.alert.refundBlockedReason, 'daily_budget');
+  assert.equal(over.refundDecision.budget.daily.remaining, 500);
+  assert.equal(refundCalls().length, 2);
+});
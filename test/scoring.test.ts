@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MISSING_REQUIRED_PENALTY, scoreEvidence } from '../src/lib/scoring';
+import type { ScoreField } from '../src/lib/types';
+
+const fields = (...f: ScoreField[]) => new Set<ScoreField>(f);
+
+test('the same signal is weighted by reason code', () => {
+  const tracking = fields('productDescription', 'shippingTracking');
+  const delivery = scoreEvidence('product_not_received', tracking);
+  const fraud = scoreEvidence('fraudulent', tracking);
+  assert.equal(delivery.breakdown.find((i) => i.field === 'shippingTracking')?.points, 20);
+  assert.equal(fraud.breakdown.find((i) => i.field === 'shippingTracking')?.points, 5);
+  assert.equal(
+    scoreEvidence('duplicate', fields('accessLog')).breakdown.find((i) => i.field === 'accessLog'),
+    undefined,
+  );
+});
+
+test('missing must-haves are penalized and explained', () => {
+  const result = scoreEvidence('fraudulent', fields('customerName', 'customerEmail', 'receipt'));
+  assert.deepEqual(result.missingRequired, ['access/activity log or customer signature file']);
+  assert.equal(result.score, 10 + 10 + 10 - MISSING_REQUIRED_PENALTY);
+  assert.equal(
+    result.score,
+    result.breakdown.reduce((sum, item) => sum + item.points, 0),
+  );
+});
+
+test('unknown reasons fall back to the general profile', () => {
+  assert.deepEqual(
+    scoreEvidence('bank_cannot_process', fields('productDescription')).breakdown,
+    scoreEvidence('general', fields('productDescription')).breakdown,
+  );
+});
+
+test('merchant overrides adjust weights and must-haves', () => {
+  const present = fields('productDescription', 'accessLog');
+  const result = scoreEvidence('product_not_received', present, {
+    product_not_received: { weights: { accessLog: 40, shippingTracking: 0 }, required: ['receipt'] },
+  });
+  assert.equal(result.breakdown.find((i) => i.field === 'accessLog')?.points, 40);
+  assert.equal(
+    result.breakdown.find((i) => i.field === 'shippingTracking'),
+    undefined,
+  );
+  assert.deepEqual(result.missingRequired, ['receipt file']);
+  assert.equal(result.score, 10 + 40 - MISSING_REQUIRED_PENALTY);
+});
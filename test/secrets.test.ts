@@ -0,0 +1,150 @@
+import { loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { after, afterEach, before, test } from 'node:test';
+import { promisify } from 'node:util';
+import { app } from '../src/app';
+import { decryptSecret, encryptedWithCurrentKey, encryptSecret, isEncrypted } from '../src/lib/secrets';
+import { getStore } from '../src/lib/storage';
+import {
+  defaultEvidenceProfile,
+  defaultMerchantSettings,
+  findMerchantById,
+  getMerchantAccessToken,
+  listMerchants,
+  rotateMerchantTokens,
+  upsertMerchant,
+} from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+const harnessKey = process.env.TOKEN_ENCRYPTION_KEY!;
+const newKey = () => randomBytes(32).toString('base64');
+
+/** Seals `plain` with `key` without leaving it configured. */
+function sealWith(key: string, plain: string) {
+  process.env.TOKEN_ENCRYPTION_KEY = key;
+  try {
+    return encryptSecret(plain);
+  } finally {
+    process.env.TOKEN_ENCRYPTION_KEY = harnessKey;
+  }
+}
+
+function seedMerchant(id: string, stripeAccessToken: string) {
+  upsertMerchant({
+    id,
+    name: id,
+    stripeAccountId: id,
+    stripeAccessToken,
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+}
+
+const storedToken = (id: string) => findMerchantById(id)!.stripeAccessToken;
+const storedTokens = () => Object.fromEntries(listMerchants().map((m) => [m.id, m.stripeAccessToken]));
+
+before(async () => {
+  seedMerchant('acct_test_1', 'sk_test_connected');
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+afterEach(() => {
+  process.env.TOKEN_ENCRYPTION_KEY = harnessKey;
+  delete process.env.TOKEN_ENCRYPTION_OLD_KEYS;
+});
+
+test('secrets round-trip and every seal is unique', () => {
+  const sealed = encryptSecret('sk_test_round_trip');
+  assert.ok(isEncrypted(sealed));
+  assert.ok(encryptedWithCurrentKey(sealed));
+  assert.doesNotMatch(sealed, /sk_test_round_trip/);
+  assert.notEqual(encryptSecret('sk_test_round_trip'), sealed);
+  assert.equal(decryptSecret(sealed), 'sk_test_round_trip');
+  assert.equal(decryptSecret('sk_test_legacy_plaintext'), 'sk_test_legacy_plaintext');
+  assert.equal(encryptSecret(''), '');
+});
+
+test('values sealed with a retired key decrypt while it is in the old-key ring', () => {
+  const retired = newKey();
+  const sealed = sealWith(retired, 'sk_test_old');
+  assert.throws(() => decryptSecret(sealed), /No encryption key available/);
+  process.env.TOKEN_ENCRYPTION_OLD_KEYS = ` ${newKey()}, ${retired} `;
+  assert.equal(decryptSecret(sealed), 'sk_test_old');
+  assert.equal(encryptedWithCurrentKey(sealed), false);
+});
+
+test('rotation re-seals old-key and plaintext tokens with the current key', () => {
+  const retired = harnessKey;
+  seedMerchant('acct_rot_old', 'sk_test_rot_old');
+  // Written straight to the store, as tokens were before encryption was introduced.
+  const { id: _id, ...template } = findMerchantById('acct_rot_old')!;
+  getStore().merchants.put({
+    ...template,
+    id: 'acct_rot_plain',
+    stripeAccountId: 'acct_rot_plain',
+    stripeAccessToken: 'sk_test_rot_plain',
+  });
+
+  process.env.TOKEN_ENCRYPTION_KEY = newKey();
+  process.env.TOKEN_ENCRYPTION_OLD_KEYS = retired;
+  const { rotated } = rotateMerchantTokens();
+  assert.equal(rotated, 3);
+  for (const id of ['acct_rot_old', 'acct_rot_plain', 'acct_test_1']) {
+    assert.ok(encryptedWithCurrentKey(storedToken(id)));
+  }
+  assert.equal(getMerchantAccessToken(findMerchantById('acct_rot_plain')!), 'sk_test_rot_plain');
+
+  delete process.env.TOKEN_ENCRYPTION_OLD_KEYS;
+  assert.equal(getMerchantAccessToken(findMerchantById('acct_rot_old')!), 'sk_test_rot_old');
+  assert.equal(rotateMerchantTokens().rotated, 0);
+
+  // Put everything back under the harness key for the tests that follow.
+  process.env.TOKEN_ENCRYPTION_OLD_KEYS = process.env.TOKEN_ENCRYPTION_KEY;
+  process.env.TOKEN_ENCRYPTION_KEY = harnessKey;
+  rotateMerchantTokens();
+});
+
+test('rotation stops at a token it cannot decrypt and leaves every token as it was', () => {
+  seedMerchant('acct_rot_lost', sealWith(newKey(), 'sk_test_lost'));
+  const before = storedTokens();
+
+  process.env.TOKEN_ENCRYPTION_KEY = newKey();
+  process.env.TOKEN_ENCRYPTION_OLD_KEYS = harnessKey;
+  assert.throws(() => rotateMerchantTokens(), /No encryption key available/);
+  assert.deepEqual(storedTokens(), before);
+});
+
+test('the rotation script exits non-zero without changing anything', async () => {
+  const before = storedToken('acct_test_1');
+  const script = path.join(__dirname, '..', 'src', 'scripts', 'rotate-token-key.ts');
+  const tsx = path.join(__dirname, '..', 'node_modules', '.bin', 'tsx');
+  const run = promisify(execFile)(tsx, [script], {
+    env: { ...process.env, TOKEN_ENCRYPTION_KEY: newKey(), TOKEN_ENCRYPTION_OLD_KEYS: harnessKey },
+  });
+  const err = await run.then(
+    () => assert.fail('rotation should have failed'),
+    (e: { code: number; stderr: string }) => e,
+  );
+  assert.equal(err.code, 1);
+  assert.match(err.stderr, /Rotation aborted, no tokens were changed/);
+  assert.equal(storedToken('acct_test_1'), before);
+});
+
+test('account.application.deauthorized disconnects the merchant and drops its token', async () => {
+  assert.equal(getMerchantAccessToken(findMerchantById('acct_test_1')!), 'sk_test_connected');
+  const res = await postWebhook(server.baseUrl, loadFixture('account.application.deauthorized'));
+  assert.equal(res.status, 200);
+  const merchant = findMerchantById('acct_test_1')!;
+  assert.equal(merchant.status, 'disconnected');
+  assert.equal(merchant.stripeAccessToken, '');
+  assert.ok(merchant.disconnectedAt);
+  assert.equal(getMerchantAccessToken(merchant), undefined);
+});
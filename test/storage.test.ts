@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { promisify } from 'node:util';
+import Database from 'better-sqlite3';
+import { createStore, type StoreBackend } from '../src/lib/storage';
+import type { AuditEntry, DisputeRecord, EarlyFraudWarningRecord } from '../src/lib/types';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'autopilot-storage-'));
+let files = 0;
+const tmpFile = (ext: string) => path.join(dataDir, `store-${++files}.${ext}`);
+
+const dispute = (id: string, merchantId: string, fields: Partial<DisputeRecord> = {}) =>
+  ({
+    id,
+    merchantId,
+    reason: 'fraudulent',
+    amount: 1000,
+    currency: 'usd',
+    status: 'needs_response',
+    ...fields,
+  }) as DisputeRecord;
+
+const audit = (id: string): AuditEntry => ({
+  id,
+  merchantId: 'acct_a',
+  actor: 'system',
+  action: 'dispute.updated',
+  entityType: 'dispute',
+  entityId: 'dp_1',
+  diff: { status: { before: 'needs_response', after: 'under_review' } },
+  at: new Date().toISOString(),
+});
+
+const ids = (records: { id: string }[]) => records.map((r) => r.id).sort();
+
+// Both backends have to behave the same behind the Store interface.
+for (const backend of ['sqlite', 'json'] as StoreBackend[]) {
+  const ext = backend === 'sqlite' ? 'sqlite' : 'json';
+
+  describe(`${backend} store`, () => {
+    test('get, put, find, list and remove', () => {
+      const store = createStore(backend, tmpFile(ext));
+      const { disputes } = store;
+      assert.equal(disputes.get('dp_1'), undefined);
+      disputes.put(dispute('dp_1', 'acct_a'));
+      disputes.put(dispute('dp_2', 'acct_a', { submitted: true }));
+      disputes.put(dispute('dp_3', 'acct_b'));
+
+      assert.equal(disputes.get('dp_1')?.reason, 'fraudulent');
+      assert.deepEqual(ids(disputes.list()), ['dp_1', 'dp_2', 'dp_3']);
+      assert.deepEqual(ids(disputes.list('acct_a')), ['dp_1', 'dp_2']);
+      assert.deepEqual(ids(disputes.find({ merchantId: 'acct_a', submitted: true })), ['dp_2']);
+      assert.deepEqual(ids(disputes.find({ status: 'won' })), []);
+
+      disputes.put(dispute('dp_1', 'acct_b', { status: 'won' }));
+      assert.equal(disputes.get('dp_1')?.status, 'won');
+      assert.deepEqual(ids(disputes.list('acct_b')), ['dp_1', 'dp_3']);
+      assert.equal(disputes.list().length, 3);
+
+      disputes.remove('dp_1');
+      disputes.remove('dp_missing');
+      assert.equal(disputes.get('dp_1'), undefined);
+      assert.deepEqual(ids(disputes.list()), ['dp_2', 'dp_3']);
+      store.close();
+    });
+
+    test('a transaction that throws leaves nothing behind', () => {
+      const store = createStore(backend, tmpFile(ext));
+      store.disputes.put(dispute('dp_1', 'acct_a'));
+      assert.throws(
+        () =>
+          store.transaction(() => {
+            store.disputes.put(dispute('dp_1', 'acct_a', { status: 'won' }));
+            store.transaction(() => store.disputes.put(dispute('dp_2', 'acct_a')));
+            throw new Error('boom');
+          }),
+        /boom/,
+      );
+      assert.equal(store.disputes.get('dp_1')?.status, 'needs_response');
+      assert.equal(store.disputes.get('dp_2'), undefined);
+
+      assert.equal(
+        store.transaction(() => {
+          store.disputes.put(dispute('dp_2', 'acct_a'));
+          return store.transaction(() => store.disputes.list().length);
+        }),
+        2,
+      );
+      assert.ok(store.disputes.get('dp_2'));
+      store.close();
+    });
+
+    test('reopening keeps the data and applies no schema changes twice', () => {
+      const file = tmpFile(ext);
+      const first = createStore(backend, file);
+      first.disputes.put(dispute('dp_1', 'acct_a'));
+      first.close();
+      const applied = backend === 'sqlite' ? schemaMigrations(file) : [];
+
+      const second = createStore(backend, file);
+      assert.deepEqual(ids(second.disputes.list('acct_a')), ['dp_1']);
+      assert.deepEqual(second.invoices.list(), []);
+      second.close();
+      if (backend === 'sqlite') assert.deepEqual(schemaMigrations(file), applied);
+    });
+  });
+}
+
+function schemaMigrations(file: string) {
+  const db = new Database(file, { readonly: true });
+  try {
+    return db.prepare('SELECT id, name, applied_at FROM schema_migrations ORDER BY id').all();
+  } finally {
+    db.close();
+  }
+}
+
+test('a JSON file from before a collection existed opens with that collection empty', () => {
+  const file = tmpFile('json');
+  fs.writeFileSync(file, JSON.stringify({ disputes: [dispute('dp_1', 'acct_a')] }));
+  const store = createStore('json', file);
+  assert.equal(store.disputes.list().length, 1);
+  assert.deepEqual(store.earlyFraudWarnings.list(), []);
+  store.earlyFraudWarnings.put({ id: 'issfr_1', merchantId: 'acct_a' } as EarlyFraudWarningRecord);
+  assert.equal(JSON.parse(fs.readFileSync(file, 'utf8')).earlyFraudWarnings.length, 1);
+});
+
+test('running import-json-db twice copies every record once', async () => {
+  const from = tmpFile('json');
+  const to = tmpFile('sqlite');
+  const source = createStore('json', from);
+  source.disputes.put(dispute('dp_1', 'acct_a'));
+  source.disputes.put(dispute('dp_2', 'acct_b'));
+  source.audit.put(audit('aud_1'));
+  source.audit.put(audit('aud_2'));
+
+  const script = path.join(__dirname, '..', 'src', 'scripts', 'import-json-db.ts');
+  const tsx = path.join(__dirname, '..', 'node_modules', '.bin', 'tsx');
+  const run = () => promisify(execFile)(tsx, [script, '--from', from, '--to', to]);
+  assert.match((await run()).stdout, /disputes=2, .*audit=2/);
+  source.disputes.put(dispute('dp_1', 'acct_a', { status: 'won' }));
+  await run();
+
+  const target = createStore('sqlite', to);
+  assert.deepEqual(ids(target.disputes.list()), ['dp_1', 'dp_2']);
+  assert.equal(target.disputes.get('dp_1')?.status, 'won');
+  assert.deepEqual(ids(target.audit.list()), ['aud_1', 'aud_2']);
+  target.close();
+});
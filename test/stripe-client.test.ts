@@ -0,0 +1,157 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import Stripe from 'stripe';
+import { app } from '../src/app';
+import {
+  classifyStripeError,
+  configureStripeClients,
+  createStripeClient,
+  setStripeFactory,
+  stripeAccountHealth,
+  StripeCallError,
+} from '../src/lib/stripe-client';
+import { defaultEvidenceProfile, defaultMerchantSettings, upsertMerchant } from '../src/lib/store';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+type Handler = (...args: unknown[]) => unknown;
+
+// A client whose `disputes.update` runs `handler`, logging the arguments of each attempt.
+function fakeClient(handler: Handler) {
+  const attempts: unknown[][] = [];
+  setStripeFactory(
+    () =>
+      ({
+        disputes: {
+          update: async (...args: unknown[]) => {
+            attempts.push(args);
+            return handler(...args);
+          },
+        },
+      }) as unknown as Stripe,
+  );
+  return attempts;
+}
+
+const rateLimited = () => new Stripe.errors.StripeRateLimitError({ message: 'Too many requests', statusCode: 429 });
+const serverError = () => new Stripe.errors.StripeAPIError({ message: 'Internal error', statusCode: 500 });
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+  configureStripeClients({ retryBaseMs: 5, retryMaxMs: 20, failureThreshold: 3, cooldownMs: 100 });
+});
+
+after(() => server.close());
+
+test('errors are sorted into categories', () => {
+  const evidence = new Stripe.errors.StripeInvalidRequestError({ message: 'Invalid file', param: 'evidence[receipt]' });
+  const pastDue = new Stripe.errors.StripeInvalidRequestError({
+    message: 'This dispute can no longer be updated because the evidence due date has passed.',
+  });
+  const revoked = new Stripe.errors.StripePermissionError({ message: 'The provided key does not have access' });
+  const missing = new Stripe.errors.StripeInvalidRequestError({ message: 'No such dispute', code: 'resource_missing' });
+  assert.equal(classifyStripeError(evidence), 'evidence_invalid');
+  assert.equal(classifyStripeError(pastDue), 'past_due');
+  assert.equal(classifyStripeError(revoked), 'auth_revoked');
+  assert.equal(classifyStripeError(missing), 'not_found');
+  assert.equal(classifyStripeError(rateLimited()), 'rate_limited');
+  assert.equal(classifyStripeError(serverError()), 'transient');
+  assert.equal(classifyStripeError(new Error('boom')), 'unknown');
+});
+
+test('rate-limited calls are retried with the same idempotency key', async () => {
+  let failures = 2;
+  const attempts = fakeClient(() => {
+    if (failures-- > 0) throw rateLimited();
+    return { id: 'dp_1' };
+  });
+  const stripe = createStripeClient('sk_retry', 'acct_retry');
+  assert.equal(createStripeClient('sk_retry', 'acct_retry'), stripe);
+
+  assert.deepEqual(await stripe.disputes.update('dp_1', { submit: true }), { id: 'dp_1' });
+  assert.equal(attempts.length, 3);
+  const keys = attempts.map((args) => (args[2] as Stripe.RequestOptions).idempotencyKey);
+  assert.match(keys[0]!, /^autopilot-disputes\.update-/);
+  assert.equal(new Set(keys).size, 1);
+
+  // A caller's own key is kept as-is.
+  await stripe.disputes.update('dp_1', {}, { idempotencyKey: 'mine' });
+  assert.equal((attempts[3][2] as Stripe.RequestOptions).idempotencyKey, 'mine');
+});
+
+test('permanent failures are not retried', async () => {
+  const attempts = fakeClient(() => {
+    throw new Stripe.errors.StripeInvalidRequestError({ message: 'Invalid file', param: 'evidence[receipt]' });
+  });
+  const err = await createStripeClient('sk_permanent', 'acct_permanent')
+    .disputes.update('dp_1', {})
+    .catch((e) => e);
+  assert.ok(err instanceof StripeCallError);
+  assert.equal(err.category, 'evidence_invalid');
+  assert.equal(err.method, 'disputes.update');
+  assert.equal(attempts.length, 1);
+});
+
+test('an account that keeps failing trips the breaker until a probe succeeds', async () => {
+  let healthy = false;
+  const attempts = fakeClient(() => {
+    if (!healthy) throw serverError();
+    return { id: 'dp_1' };
+  });
+  const stripe = createStripeClient('sk_flaky', 'acct_flaky');
+  configureStripeClients({ maxRetries: 0 });
+  try {
+    for (let i = 0; i < 3; i++) await assert.rejects(stripe.disputes.update('dp_1', {}));
+    const fast = await stripe.disputes.update('dp_1', {}).catch((e) => e);
+    assert.equal(fast.category, 'circuit_open');
+    assert.equal(attempts.length, 3);
+    assert.equal(stripeAccountHealth().find((a) => a.account === 'acct_flaky')?.breaker, 'open');
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    healthy = true;
+    await stripe.disputes.update('dp_1', {});
+    const health = stripeAccountHealth().find((a) => a.account === 'acct_flaky')!;
+    assert.equal(health.breaker, 'closed');
+    assert.equal(health.consecutiveFailures, 0);
+  } finally {
+    configureStripeClients({ maxRetries: 3 });
+  }
+});
+
+test('calls per account are held to the rate limit', async () => {
+  fakeClient(() => ({ id: 'dp_1' }));
+  configureStripeClients({ ratePerSecond: 10 });
+  try {
+    const stripe = createStripeClient('sk_busy', 'acct_busy');
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 15 }, () => stripe.disputes.update('dp_1', {})));
+    // The first 10 go out at once, the other 5 wait for the bucket to refill.
+    assert.ok(Date.now() - started >= 450);
+  } finally {
+    configureStripeClients({ ratePerSecond: 25 });
+  }
+});
+
+test('a deflection refund is keyed to its dispute', async () => {
+  const calls = installStripeStub();
+  const event = loadFixture('charge.dispute.created');
+  // Only inquiries can be deflected; see refund-policy.ts.
+  (event.data.object as Stripe.Dispute).status = 'warning_needs_response';
+  await postWebhook(server.baseUrl, event);
+  const res = await server.call('POST', '/disputes/dp_test_1/deflect');
+  assert.equal(res.status, 200);
+  const refund = calls.find((c) => c.method === 'refunds.create')!;
+  assert.equal(refund.apiKey, 'sk_test_connected');
+  assert.deepEqual(refund.args[1], { idempotencyKey: 'deflect:dp_test_1' });
+});
@@ -0,0 +1,127 @@
+import { installStripeStub, loadFixture, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+import { checkTemplate, renderTemplate } from '../src/lib/templates';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('renderTemplate fills placeholders and picks branches by reason', () => {
+  const template = '{{customer.name}} paid {{amount}}.{{#if reason == "fraudulent"}} Fraud{{else}} Other{{/if}}';
+  const context = { 'customer.name': 'Ada', amount: '$49.99', reason: 'fraudulent' };
+  assert.deepEqual(renderTemplate(template, context), { text: 'Ada paid $49.99. Fraud', warnings: [] });
+  assert.equal(renderTemplate(template, { ...context, reason: 'duplicate' }).text, 'Ada paid $49.99. Other');
+});
+
+test('unknown variables warn and syntax errors are reported', () => {
+  assert.deepEqual(checkTemplate('Hi {{customer.nmae}}'), {
+    errors: [],
+    warnings: ['Unknown variable "customer.nmae".'],
+  });
+  assert.deepEqual(checkTemplate('{{#if reason}}open').errors, ['Missing {{/if}}.']);
+  assert.deepEqual(checkTemplate('{{ process.env }}').warnings, ['Unknown variable "process.env".']);
+  assert.match(checkTemplate('{{constructor()}}').errors[0], /Invalid placeholder/);
+});
+
+test('saving a profile rejects broken templates and returns warnings', async () => {
+  const bad = await server.call('PATCH', '/api/merchants/acct_test_1/evidence-profile', {
+    reasonTemplates: { fraudulent: '{{#if reason}}unterminated' },
+  });
+  assert.equal(bad.status, 400);
+  assert.deepEqual((await bad.json()).details, { 'reasonTemplates.fraudulent': ['Missing {{/if}}.'] });
+
+  const ok = await server.call('PATCH', '/api/merchants/acct_test_1/evidence-profile', {
+    productDescriptionTemplate: 'Coaching program bought by {{customer.name}} on {{charge.created}}.',
+    reasonTemplates: { default: 'Charge of {{amount}} billed as {{descriptor}}. {{refund.window}}' },
+    inquiryTemplates: { paypal: 'Hi, this is {{merchant.name}} about your {{platform}} case for {{amount}}.' },
+  });
+  assert.equal(ok.status, 200);
+  assert.deepEqual((await ok.json()).templateWarnings, {
+    'reasonTemplates.default': ['Unknown variable "refund.window".'],
+  });
+});
+
+test('saving a profile rejects unknown fields and values of the wrong type', async () => {
+  for (const body of [
+    { productDescriptionTemplate: { toString: 'x' } },
+    { onboardingProofTemplate: 42 },
+    { termsUrl: 'javascript:alert(1)' },
+    { businessType: 'casino' },
+    { stripeAccessToken: 'sk_live_x' },
+  ]) {
+    const res = await server.call('PATCH', '/api/merchants/acct_test_1/evidence-profile', body);
+    assert.equal(res.status, 400, JSON.stringify(body));
+    assert.equal((await res.json()).error, 'invalid_evidence_profile');
+  }
+  const bad = await server.call('PATCH', '/api/merchants/acct_test_1/evidence-profile', {
+    supportPolicyTemplate: '{{#if reason}}open',
+  });
+  assert.deepEqual((await bad.json()).details, { supportPolicyTemplate: ['Missing {{/if}}.'] });
+  const cleared = await server.call('PATCH', '/api/merchants/acct_test_1/evidence-profile', { termsUrl: '' });
+  assert.equal(cleared.status, 200);
+});
+
+test('profile templates are rendered into the evidence sent to Stripe', async () => {
+  installStripeStub({
+    'charges.retrieve': (id: string) => ({
+      id,
+      object: 'charge',
+      created: 1750000000,
+      billing_details: { email: 'buyer@example.com', name: 'Test Buyer' },
+      calculated_statement_descriptor: 'AUTOPILOT TEST',
+    }),
+  });
+  await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  const evidence = getDispute('dp_test_1')?.evidenceVersions?.at(-1)?.evidence;
+  assert.equal(evidence?.product_description, 'Coaching program bought by Test Buyer on 2025-06-15.');
+});
+
+test('preview renders a template against a real dispute', async () => {
+  const res = await server.call('POST', '/api/merchants/acct_test_1/templates/preview', {
+    template: 'Charge of {{amount}} billed as {{descriptor}}. {{refund.window}}',
+    disputeId: 'dp_test_1',
+  });
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), {
+    text: 'Charge of $49.99 billed as AUTOPILOT TEST.',
+    warnings: ['Unknown variable "refund.window".'],
+  });
+  assert.ok(calls.some((c) => c.method === 'charges.retrieve'));
+});
+
+test('the draft narrative and inquiry replies use the merchant templates', async () => {
+  const { draft } = await server.call('GET', '/disputes/dp_test_1/evidence-draft').then((r) => r.json());
+  assert.match(draft.narrative, /Charge of \$49\.99 billed as AUTOPILOT TEST\./);
+
+  const res = await server.call('POST', '/api/inquiries', {
+    id: 'inq_tpl_1',
+    merchantId: 'acct_test_1',
+    disputeId: 'dp_test_1',
+    platform: 'paypal',
+    customerMessage: 'Where is my order?',
+  });
+  const { inquiry } = await res.json();
+  assert.equal(inquiry.responseDraft, 'Hi, this is Harness Merchant about your paypal case for $49.99.');
+});
@@ -0,0 +1,112 @@
+import { installStripeStub, loadFixture, needsResponseUpdate, postWebhook, startServer } from './harness';
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, test } from 'node:test';
+import { app } from '../src/app';
+import { defaultEvidenceProfile, defaultMerchantSettings, getDispute, upsertMerchant } from '../src/lib/store';
+import { claimWebhookEvent, getWebhookEvent } from '../src/lib/webhook-events';
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let calls: ReturnType<typeof installStripeStub>;
+
+before(async () => {
+  upsertMerchant({
+    id: 'acct_test_1',
+    name: 'Harness Merchant',
+    stripeAccountId: 'acct_test_1',
+    stripeAccessToken: 'sk_test_connected',
+    status: 'connected',
+    createdAt: new Date().toISOString(),
+    settings: defaultMerchantSettings(),
+    evidenceProfile: defaultEvidenceProfile(),
+  });
+  server = await startServer(app);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  calls = installStripeStub();
+});
+
+test('rejects events signed with the wrong secret', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'), 'whsec_wrong');
+  assert.equal(res.status, 400);
+  assert.equal(calls.length, 0);
+});
+
+test('charge.dispute.created builds evidence with the connected account client', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  assert.equal(res.status, 200);
+
+  const update = calls.find((c) => c.method === 'disputes.update');
+  assert.ok(update);
+  assert.equal(update.apiKey, 'sk_test_connected');
+  const params = update.args[1] as { evidence: Record<string, string>; submit: boolean };
+  assert.equal(params.evidence.customer_name, 'Test Buyer');
+  assert.equal(params.submit, false);
+
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.merchantId, 'acct_test_1');
+  assert.equal(dispute?.status, 'needs_response');
+  assert.equal(getWebhookEvent('evt_test_created')?.status, 'processed');
+});
+
+test('redelivered events are acknowledged without touching Stripe again', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.created'));
+  assert.deepEqual(await res.json(), { received: true, duplicate: true });
+  assert.equal(calls.length, 0);
+  assert.equal(getWebhookEvent('evt_test_created')?.attempts, 1);
+});
+
+test('a redelivery while the first is still being handled asks Stripe to retry', async () => {
+  const event = { ...loadFixture('charge.dispute.created'), id: 'evt_test_in_flight' };
+  assert.equal(claimWebhookEvent(event, 'acct_test_1'), 'claimed');
+  const res = await postWebhook(server.baseUrl, event);
+  assert.equal(res.status, 409);
+  assert.equal(calls.length, 0);
+  assert.equal(getWebhookEvent('evt_test_in_flight')?.status, 'received');
+});
+
+test('charge.dispute.updated appends to the submission history', async () => {
+  const res = await postWebhook(server.baseUrl, { ...needsResponseUpdate(), id: 'evt_test_pending' });
+  assert.equal(res.status, 200);
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.status, 'needs_response');
+  assert.equal(dispute?.submissionAttempts.length, 2);
+});
+
+test('an under_review update records the stage without sending evidence again', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.updated'));
+  assert.equal(res.status, 200);
+  assert.equal(calls.length, 0);
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.status, 'under_review');
+  assert.equal(dispute?.submitted, true);
+  assert.equal(dispute?.submissionAttempts.length, 2);
+});
+
+test('charge.dispute.closed records the outcome', async () => {
+  const res = await postWebhook(server.baseUrl, loadFixture('charge.dispute.closed'));
+  assert.equal(res.status, 200);
+  const dispute = getDispute('dp_test_1');
+  assert.equal(dispute?.status, 'won');
+  assert.equal(dispute?.workflowStatus, 'closed');
+});
+
+test('failed events are recorded and can be replayed', async () => {
+  const pending = needsResponseUpdate();
+  const event = { ...pending, id: 'evt_test_flaky', data: { object: { ...pending.data.object, id: 'dp_test_flaky' } } };
+  installStripeStub({
+    'disputes.update': () => {
+      throw new Error('stripe unavailable');
+    },
+  });
+  const res = await postWebhook(server.baseUrl, event);
+  assert.equal(res.status, 500);
+  assert.equal(getWebhookEvent('evt_test_flaky')?.error, 'stripe unavailable');
+
+  installStripeStub();
+  const replay = await server.call('POST', '/api/webhook-events/evt_test_flaky/replay');
+  assert.equal(replay.status, 200);
+  assert.equal(getWebhookEvent('evt_test_flaky')?.status, 'processed');
+});